@@ -0,0 +1,49 @@
+// BarList - horizontal bar chart for the dashboard (posts by status, top posts)
+// Bars are scaled to the largest value; items with an href link to the matching list
+import { Link } from 'react-router-dom'
+
+export interface BarListItem {
+  key: string
+  label: string
+  value: number
+  href?: string
+  color?: string // Tailwind background class of the bar (default: blue)
+}
+
+interface BarListProps {
+  items: BarListItem[]
+  emptyText?: string
+}
+
+export function BarList({ items, emptyText = 'No data in this period.' }: BarListProps) {
+  if (items.length === 0) {
+    return <p className="py-6 text-center text-sm text-gray-500">{emptyText}</p>
+  }
+
+  const max = Math.max(...items.map((item) => item.value), 1)
+
+  return (
+    <ul className="space-y-3">
+      {items.map((item) => (
+        <li key={item.key}>
+          <div className="flex items-center justify-between gap-4 mb-1 text-sm">
+            {item.href ? (
+              <Link to={item.href} className="truncate text-gray-900 hover:text-blue-600">
+                {item.label}
+              </Link>
+            ) : (
+              <span className="truncate text-gray-900">{item.label}</span>
+            )}
+            <span className="shrink-0 font-medium text-gray-700">{item.value.toLocaleString()}</span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-100">
+            <div
+              className={`h-2 rounded-full ${item.color || 'bg-blue-500'}`}
+              style={{ width: `${(item.value / max) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
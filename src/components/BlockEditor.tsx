@@ -0,0 +1,461 @@
+// BlockEditor - structured content editor for posts
+// Edits content as a list of blocks (paragraphs, headings, lists, quotes, code, embeds, images)
+// and reports the serialized HTML back through onChange
+import { useState, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { MediaSelectorModal } from '@/components/MediaSelectorModal'
+import type { MediaItem } from '@/services/media/mediaService'
+import {
+  createBlock,
+  parseContent,
+  serializeBlocks,
+  type Block,
+  type BlockType,
+  type HeadingLevel,
+} from '@/lib/blocks'
+import {
+  Bold,
+  Italic,
+  Link,
+  Pilcrow,
+  Heading2,
+  List,
+  Quote,
+  Code,
+  Film,
+  Image as ImageIcon,
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  Plus,
+} from 'lucide-react'
+
+interface BlockEditorProps {
+  // serialized HTML content
+  value: string
+  // called with the serialized HTML whenever a block changes
+  onChange: (value: string) => void
+  // show error border (validation failed)
+  hasError?: boolean
+}
+
+// options for the "add block" toolbar
+const blockOptions: { type: BlockType; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { type: 'paragraph', label: 'Paragraph', icon: Pilcrow },
+  { type: 'heading', label: 'Heading', icon: Heading2 },
+  { type: 'list', label: 'List', icon: List },
+  { type: 'quote', label: 'Quote', icon: Quote },
+  { type: 'code', label: 'Code', icon: Code },
+  { type: 'embed', label: 'Embed', icon: Film },
+  { type: 'image', label: 'Image', icon: ImageIcon },
+]
+
+// shared textarea styles for text blocks
+const textareaClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y'
+
+export function BlockEditor({ value, onChange, hasError }: BlockEditorProps) {
+  const [blocks, setBlocks] = useState<Block[]>(() => {
+    const parsed = parseContent(value)
+    return parsed.length > 0 ? parsed : [createBlock('paragraph')]
+  })
+  // last content value the blocks are in sync with
+  // when the parent passes a different value (e.g. form reset), blocks are re-parsed
+  const [syncedValue, setSyncedValue] = useState(value)
+  // block waiting for an image from the media selector
+  const [imageTargetId, setImageTargetId] = useState<string | null>(null)
+
+  // textarea elements by key (block id or block id + list item index) for inline formatting
+  const textareaRefs = useRef<Map<string, HTMLTextAreaElement>>(new Map())
+  // last focused text field - inline formatting and new blocks are applied relative to it
+  const activeFieldRef = useRef<{ key: string; blockId: string; itemIndex?: number } | null>(null)
+
+  if (value !== syncedValue) {
+    setSyncedValue(value)
+    if (value !== serializeBlocks(blocks)) {
+      const parsed = parseContent(value)
+      setBlocks(parsed.length > 0 ? parsed : [createBlock('paragraph')])
+    }
+  }
+
+  // update blocks and notify parent with serialized content
+  const updateBlocks = (next: Block[]) => {
+    setBlocks(next)
+    const serialized = serializeBlocks(next)
+    setSyncedValue(serialized)
+    onChange(serialized)
+  }
+
+  const updateBlock = (id: string, changes: Partial<Block>) => {
+    updateBlocks(blocks.map((block) => (block.id === id ? ({ ...block, ...changes } as Block) : block)))
+  }
+
+  // insert a new block after the focused block (or at the end)
+  const addBlock = (type: BlockType) => {
+    const newBlock = createBlock(type)
+    const activeIndex = blocks.findIndex((b) => b.id === activeFieldRef.current?.blockId)
+    const next = [...blocks]
+    next.splice(activeIndex >= 0 ? activeIndex + 1 : blocks.length, 0, newBlock)
+    updateBlocks(next)
+    if (type === 'image') {
+      setImageTargetId(newBlock.id)
+    }
+  }
+
+  const moveBlock = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= blocks.length) return
+    const next = [...blocks]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    updateBlocks(next)
+  }
+
+  const removeBlock = (id: string) => {
+    const next = blocks.filter((block) => block.id !== id)
+    // always keep at least one block so the editor never looks empty
+    updateBlocks(next.length > 0 ? next : [createBlock('paragraph')])
+  }
+
+  // wrap the selection of the focused text field with inline markup
+  const applyInlineFormat = (format: 'bold' | 'italic' | 'link') => {
+    const active = activeFieldRef.current
+    if (!active) return
+    const textarea = textareaRefs.current.get(active.key)
+    const block = blocks.find((b) => b.id === active.blockId)
+    if (!textarea || !block) return
+
+    let open = format === 'bold' ? '<strong>' : '<em>'
+    let close = format === 'bold' ? '</strong>' : '</em>'
+    if (format === 'link') {
+      const href = window.prompt('Link URL', 'https://')
+      if (!href) return
+      open = `<a href="${href.replace(/"/g, '&quot;')}">`
+      close = '</a>'
+    }
+
+    const { selectionStart, selectionEnd, value: current } = textarea
+    const nextText =
+      current.slice(0, selectionStart) +
+      open +
+      current.slice(selectionStart, selectionEnd) +
+      close +
+      current.slice(selectionEnd)
+
+    if (block.type === 'list' && active.itemIndex !== undefined) {
+      const items = [...block.items]
+      items[active.itemIndex] = nextText
+      updateBlock(block.id, { items })
+    } else if (block.type === 'paragraph' || block.type === 'heading' || block.type === 'quote') {
+      updateBlock(block.id, { text: nextText })
+    }
+  }
+
+  // register textarea ref and focus tracking for a text field
+  const textFieldProps = (key: string, blockId: string, itemIndex?: number) => ({
+    ref: (el: HTMLTextAreaElement | null) => {
+      if (el) {
+        textareaRefs.current.set(key, el)
+      } else {
+        textareaRefs.current.delete(key)
+      }
+    },
+    onFocus: () => {
+      activeFieldRef.current = { key, blockId, itemIndex }
+    },
+  })
+
+  // handle image picked from media library
+  const handleImageSelect = (media: MediaItem) => {
+    if (!imageTargetId) return
+    updateBlock(imageTargetId, {
+      url: media.file_url,
+      alt: media.alt_text || '',
+    } as Partial<Block>)
+    setImageTargetId(null)
+  }
+
+  // render the editing controls for a single block
+  const renderBlockBody = (block: Block) => {
+    switch (block.type) {
+      case 'paragraph':
+        return (
+          <textarea
+            rows={3}
+            placeholder="Write a paragraph..."
+            value={block.text}
+            onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+            className={textareaClass}
+            {...textFieldProps(block.id, block.id)}
+          />
+        )
+      case 'heading':
+        return (
+          <div className="flex gap-2">
+            <select
+              value={block.level}
+              onChange={(e) => updateBlock(block.id, { level: Number(e.target.value) as HeadingLevel })}
+              className="px-2 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value={2}>H2</option>
+              <option value={3}>H3</option>
+              <option value={4}>H4</option>
+            </select>
+            <textarea
+              rows={1}
+              placeholder="Heading"
+              value={block.text}
+              onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+              className={`${textareaClass} font-semibold`}
+              {...textFieldProps(block.id, block.id)}
+            />
+          </div>
+        )
+      case 'list':
+        return (
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={block.ordered}
+                onChange={(e) => updateBlock(block.id, { ordered: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Numbered list
+            </label>
+            {block.items.map((item, itemIndex) => (
+              <div key={itemIndex} className="flex items-start gap-2">
+                <span className="pt-2 text-sm text-gray-500 w-6 text-right">
+                  {block.ordered ? `${itemIndex + 1}.` : '•'}
+                </span>
+                <textarea
+                  rows={1}
+                  placeholder="List item"
+                  value={item}
+                  onChange={(e) => {
+                    const items = [...block.items]
+                    items[itemIndex] = e.target.value
+                    updateBlock(block.id, { items })
+                  }}
+                  onKeyDown={(e) => {
+                    // Enter adds a new item below the current one
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault()
+                      const items = [...block.items]
+                      items.splice(itemIndex + 1, 0, '')
+                      updateBlock(block.id, { items })
+                    }
+                  }}
+                  className={textareaClass}
+                  {...textFieldProps(`${block.id}:${itemIndex}`, block.id, itemIndex)}
+                />
+                <button
+                  type="button"
+                  onClick={() => {
+                    const items = block.items.filter((_, i) => i !== itemIndex)
+                    updateBlock(block.id, { items: items.length > 0 ? items : [''] })
+                  }}
+                  className="pt-2 text-gray-400 hover:text-red-600"
+                  title="Remove item"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => updateBlock(block.id, { items: [...block.items, ''] })}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add item
+            </Button>
+          </div>
+        )
+      case 'quote':
+        return (
+          <div className="space-y-2 border-l-4 border-gray-300 pl-3">
+            <textarea
+              rows={2}
+              placeholder="Quote"
+              value={block.text}
+              onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+              className={`${textareaClass} italic`}
+              {...textFieldProps(block.id, block.id)}
+            />
+            <Input
+              type="text"
+              placeholder="Attribution (optional)"
+              value={block.cite}
+              onChange={(e) => updateBlock(block.id, { cite: e.target.value })}
+            />
+          </div>
+        )
+      case 'code':
+        return (
+          <div className="space-y-2">
+            <Input
+              type="text"
+              placeholder="Language (e.g. javascript)"
+              value={block.language}
+              onChange={(e) => updateBlock(block.id, { language: e.target.value })}
+            />
+            <textarea
+              rows={6}
+              placeholder="Paste code..."
+              value={block.code}
+              onChange={(e) => updateBlock(block.id, { code: e.target.value })}
+              className={`${textareaClass} font-mono text-sm bg-gray-50`}
+              spellCheck={false}
+            />
+          </div>
+        )
+      case 'embed':
+        return (
+          <div className="space-y-2">
+            <Input
+              type="url"
+              placeholder="https://www.youtube.com/watch?v=..."
+              value={block.url}
+              onChange={(e) => updateBlock(block.id, { url: e.target.value })}
+            />
+            <Input
+              type="text"
+              placeholder="Caption (optional)"
+              value={block.caption}
+              onChange={(e) => updateBlock(block.id, { caption: e.target.value })}
+            />
+          </div>
+        )
+      case 'image':
+        return (
+          <div className="space-y-2">
+            {block.url ? (
+              <img
+                src={block.url}
+                alt={block.alt}
+                className="max-h-64 rounded border border-gray-200 object-contain"
+              />
+            ) : (
+              <p className="text-sm text-gray-500">No image selected.</p>
+            )}
+            <Button type="button" variant="outline" size="sm" onClick={() => setImageTargetId(block.id)}>
+              <ImageIcon className="w-4 h-4 mr-2" />
+              {block.url ? 'Replace image' : 'Select image'}
+            </Button>
+            <Input
+              type="text"
+              placeholder="Alt text"
+              value={block.alt}
+              onChange={(e) => updateBlock(block.id, { alt: e.target.value })}
+            />
+            <Input
+              type="text"
+              placeholder="Caption (optional)"
+              value={block.caption}
+              onChange={(e) => updateBlock(block.id, { caption: e.target.value })}
+            />
+          </div>
+        )
+    }
+  }
+
+  return (
+    <div
+      className={`flex-1 flex flex-col border rounded-md overflow-hidden ${
+        hasError ? 'border-red-500' : 'border-gray-300'
+      }`}
+    >
+      {/* Toolbar: inline formatting + add block */}
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1 border-b border-gray-200 bg-gray-50">
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()} // keep textarea selection
+          onClick={() => applyInlineFormat('bold')}
+          className="p-2 rounded text-gray-600 hover:bg-gray-200"
+          title="Bold"
+        >
+          <Bold className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => applyInlineFormat('italic')}
+          className="p-2 rounded text-gray-600 hover:bg-gray-200"
+          title="Italic"
+        >
+          <Italic className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => applyInlineFormat('link')}
+          className="p-2 rounded text-gray-600 hover:bg-gray-200"
+          title="Link"
+        >
+          <Link className="w-4 h-4" />
+        </button>
+        <span className="mx-1 h-5 border-l border-gray-300" />
+        {blockOptions.map(({ type, label, icon: Icon }) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => addBlock(type)}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-600 hover:bg-gray-200"
+            title={`Add ${label.toLowerCase()}`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Blocks */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {blocks.map((block, index) => (
+          <div key={block.id} className="group flex gap-2">
+            <div className="flex-1 min-w-0">{renderBlockBody(block)}</div>
+            <div className="flex flex-col items-center gap-1 opacity-50 group-hover:opacity-100">
+              <button
+                type="button"
+                onClick={() => moveBlock(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveBlock(index, 1)}
+                disabled={index === blocks.length - 1}
+                className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => removeBlock(block.id)}
+                className="p-1 text-gray-500 hover:text-red-600"
+                title="Remove block"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Media Selector Modal for image blocks */}
+      <MediaSelectorModal
+        open={imageTargetId !== null}
+        onClose={() => setImageTargetId(null)}
+        onSelect={handleImageSelect}
+        allowedTypes={['image']}
+        title="Insert Image"
+      />
+    </div>
+  )
+}
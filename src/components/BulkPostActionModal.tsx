@@ -0,0 +1,218 @@
+// BulkPostActionModal - confirms and runs a bulk action on selected posts
+// Shows a progress bar while running and a per-post failure report afterwards
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import type { BlogPost, Category, Tag } from '@/services/blog/blogService'
+import { useAuth } from '@/contexts/AuthContext'
+import { runBulk, type BulkResult } from '@/lib/bulk'
+import {
+  bulkPostActions,
+  createBulkPostOperation,
+  getBulkActionTermType,
+  type BulkPostAction,
+} from '@/lib/postBulkActions'
+
+interface BulkPostActionModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  action: BulkPostAction
+  count: number // number of selected posts (shown before they are loaded)
+  // resolves the selected posts (may fetch all posts matching the current filters)
+  loadPosts: () => Promise<BlogPost[]>
+  categories: Category[]
+  tags: Tag[]
+  // called after the run finished (e.g. to refresh the list and clear the selection)
+  onComplete?: (result: BulkResult<BlogPost>) => void
+}
+
+type Phase = 'confirm' | 'running' | 'done'
+
+export function BulkPostActionModal({
+  open,
+  onOpenChange,
+  companyId,
+  action,
+  count: selectedCount,
+  loadPosts,
+  categories,
+  tags,
+  onComplete,
+}: BulkPostActionModalProps) {
+  const { user } = useAuth()
+  // keep the count of the selection the modal was opened with (the parent clears it once done)
+  const [count] = useState(selectedCount)
+  const [phase, setPhase] = useState<Phase>('confirm')
+  const [termId, setTermId] = useState('')
+  const [progress, setProgress] = useState({ done: 0, total: count })
+  const [result, setResult] = useState<BulkResult<BlogPost> | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const actionLabel = bulkPostActions.find((item) => item.value === action)?.label || action
+  const termType = getBulkActionTermType(action)
+  const terms = termType === 'category' ? categories : termType === 'tag' ? tags : []
+  const isDelete = action === 'delete'
+
+  const handleRun = async () => {
+    if (termType && !termId) {
+      setError(`Please select a ${termType}.`)
+      return
+    }
+
+    setPhase('running')
+    setError(null)
+    try {
+      const posts = await loadPosts()
+      setProgress({ done: 0, total: posts.length })
+      const operation = createBulkPostOperation(action, { companyId, user, termId })
+      const bulkResult = await runBulk(posts, operation, {
+        onProgress: (done, total) => setProgress({ done, total }),
+      })
+      setResult(bulkResult)
+      setPhase('done')
+      onComplete?.(bulkResult)
+    } catch (err) {
+      // loading the selection failed - nothing was changed yet
+      console.error('Failed to load selected posts:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load the selected posts. Please try again.')
+      setPhase('confirm')
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    // keep the dialog open while requests are running
+    if (phase !== 'running') {
+      onOpenChange(newOpen)
+    }
+  }
+
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            {isDelete && phase === 'confirm' && (
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-red-100">
+                <AlertTriangle className="h-5 w-5 text-red-600" />
+              </div>
+            )}
+            <DialogTitle className="text-xl">
+              {actionLabel} - {count} {count === 1 ? 'post' : 'posts'}
+            </DialogTitle>
+          </div>
+          {phase === 'confirm' && (
+            <DialogDescription className="pt-2">
+              {isDelete
+                ? `Are you sure you want to delete ${count} ${count === 1 ? 'post' : 'posts'}? This action cannot be undone.`
+                : `"${actionLabel}" will be applied to ${count} ${count === 1 ? 'post' : 'posts'}. Posts that already match are skipped.`}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {/* Term picker for category/tag actions */}
+        {phase === 'confirm' && termType && (
+          <div className="space-y-2">
+            <label htmlFor="bulk-term" className="text-sm font-medium text-gray-700">
+              {termType === 'category' ? 'Category' : 'Tag'}
+            </label>
+            <select
+              id="bulk-term"
+              value={termId}
+              onChange={(e) => {
+                setTermId(e.target.value)
+                setError(null)
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Select a {termType}...</option>
+              {terms.map((term) => (
+                <option key={term.id} value={term.id}>
+                  {term.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {/* Progress */}
+        {phase !== 'confirm' && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>{phase === 'running' ? 'Working...' : 'Finished'}</span>
+              <span>
+                {progress.done} / {progress.total}
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        )}
+
+        {/* Result report */}
+        {phase === 'done' && result && (
+          <div className="space-y-3">
+            <p className="flex items-center gap-2 text-sm text-gray-700">
+              <CheckCircle className="w-4 h-4 text-green-600" />
+              {result.succeeded.length} succeeded, {result.failed.length} failed
+            </p>
+            {result.failed.length > 0 && (
+              <div className="max-h-60 overflow-y-auto border border-red-200 rounded-md divide-y divide-red-100">
+                {result.failed.map(({ item, error: itemError }) => (
+                  <div key={item.id} className="px-3 py-2 bg-red-50">
+                    <p className="text-sm font-medium text-gray-900">{item.title}</p>
+                    <p className="text-xs text-red-700">{itemError}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-3">
+          {phase === 'done' ? (
+            <Button type="button" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+          ) : (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={phase === 'running'}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant={isDelete ? 'destructive' : 'default'}
+                onClick={handleRun}
+                disabled={phase === 'running'}
+              >
+                {phase === 'running' ? 'Working...' : actionLabel}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
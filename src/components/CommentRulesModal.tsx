@@ -0,0 +1,175 @@
+// CommentRulesModal - edits the blocked words and IP addresses of the comment moderation
+// New comments matching a rule go straight to spam; existing comments are not re-checked
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Loader } from '@/components/ui/loader'
+import { isValidIpRule, parseRuleLines } from '@/lib/comments'
+import commentService from '@/services/comments/commentService'
+
+const commentRulesSchema = z.object({
+  blocked_words: z.string(), // one word or phrase per line
+  blocked_ips: z.string().superRefine((text, ctx) => {
+    const invalid = parseRuleLines(text).filter((line) => !isValidIpRule(line))
+    if (invalid.length > 0) {
+      ctx.addIssue({ code: 'custom', message: `Not a valid IP address or range: ${invalid.join(', ')}` })
+    }
+  }),
+})
+
+type CommentRulesFormData = z.infer<typeof commentRulesSchema>
+
+interface CommentRulesModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  onSaved?: () => void
+}
+
+export function CommentRulesModal({ open, onOpenChange, companyId, onSaved }: CommentRulesModalProps) {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<CommentRulesFormData>({
+    resolver: zodResolver(commentRulesSchema),
+    defaultValues: { blocked_words: '', blocked_ips: '' },
+  })
+
+  // load the current rules
+  useEffect(() => {
+    commentService
+      .getRules(companyId)
+      .then((rules) => {
+        reset({
+          blocked_words: (rules.blocked_words || []).join('\n'),
+          blocked_ips: (rules.blocked_ips || []).join('\n'),
+        })
+      })
+      .catch((err) => {
+        console.error('Failed to fetch comment rules:', err)
+        setError('Failed to load the moderation rules. Please try again.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [companyId, reset])
+
+  const onSubmit = async (data: CommentRulesFormData) => {
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      await commentService.updateRules(companyId, {
+        blocked_words: parseRuleLines(data.blocked_words, { lowercase: true }),
+        blocked_ips: parseRuleLines(data.blocked_ips),
+      })
+      onSaved?.()
+      onOpenChange(false)
+    } catch (err: unknown) {
+      console.error('Failed to update comment rules:', err)
+      if (err instanceof Error) {
+        setError(err.message)
+      } else {
+        setError('Failed to update the moderation rules. Please try again.')
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      setError(null)
+      onOpenChange(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogClose onClose={handleClose} />
+        <DialogHeader>
+          <DialogTitle>Moderation Rules</DialogTitle>
+          <DialogDescription>
+            New comments that contain a blocked word or come from a blocked IP address are marked as spam.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            {/* Blocked words */}
+            <div className="space-y-2">
+              <label htmlFor="blocked_words" className="text-sm font-medium text-gray-700">
+                Blocked Words
+              </label>
+              <textarea
+                id="blocked_words"
+                rows={6}
+                placeholder="One word or phrase per line"
+                {...register('blocked_words')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500">Matched as whole words, ignoring upper and lower case</p>
+            </div>
+
+            {/* Blocked IPs */}
+            <div className="space-y-2">
+              <label htmlFor="blocked_ips" className="text-sm font-medium text-gray-700">
+                Blocked IP Addresses
+              </label>
+              <textarea
+                id="blocked_ips"
+                rows={6}
+                placeholder={'203.0.113.7\n198.51.100.0/24'}
+                {...register('blocked_ips')}
+                className={`w-full px-3 py-2 border rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.blocked_ips ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.blocked_ips ? (
+                <p className="text-sm text-red-500">{errors.blocked_ips.message}</p>
+              ) : (
+                <p className="text-xs text-gray-500">One address or CIDR range per line</p>
+              )}
+            </div>
+
+            {/* Error Message */}
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : 'Save Rules'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
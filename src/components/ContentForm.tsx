@@ -0,0 +1,348 @@
+// ContentForm - editing form for entries of a content type (pages, events, landing pages, products)
+// Same layout as the post editor: title and content on the left; status, excerpt and the type's own fields on the right
+// Handles both create and edit modes based on whether 'entry' prop is provided
+import { useMemo, useState } from 'react'
+import { useForm, Controller } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { BlockEditor } from '@/components/BlockEditor'
+import { CustomFieldInput } from '@/components/CustomFieldInput'
+import { SlugStatusHint } from '@/components/SlugStatusHint'
+import { useSlugAvailability } from '@/hooks/useSlugAvailability'
+import type { ContentType } from '@/lib/contentTypes'
+import {
+  buildCustomFieldsSchema,
+  customFieldFormValuesSchema,
+  toCustomFieldFormValues,
+  toCustomFieldValues,
+} from '@/lib/customFields'
+import { SLUG_FORMAT_MESSAGE, SLUG_PATTERN, slugify } from '@/lib/slug'
+import { generateExcerpt } from '@/lib/text'
+import contentService, {
+  type ContentEntry,
+  type CreateContentPayload,
+  type UpdateContentPayload,
+} from '@/services/content/contentService'
+
+const contentSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(200, 'Title must be 200 characters or less'),
+  slug: z.string().regex(SLUG_PATTERN, SLUG_FORMAT_MESSAGE).optional().or(z.literal('')), // backend auto-generates when empty
+  content: z.string().min(1, 'Content is required'), // serialized HTML from BlockEditor
+  excerpt: z.string().max(500, 'Excerpt must be 500 characters or less').optional(),
+  status: z.enum(['draft', 'published'], { message: 'Invalid status' }),
+  fields: customFieldFormValuesSchema.optional(), // the type's own fields by key
+})
+
+type ContentFormData = z.infer<typeof contentSchema>
+
+// content schema extended with the validation of the type's own fields
+function getContentSchema(type: ContentType) {
+  const fieldsSchema = buildCustomFieldsSchema(type.fields)
+  return contentSchema.superRefine((data, ctx) => {
+    const result = fieldsSchema.safeParse(data.fields || {})
+    if (result.success) return
+    result.error.issues.forEach((issue) => {
+      ctx.addIssue({ code: 'custom', path: ['fields', ...issue.path], message: issue.message })
+    })
+  })
+}
+
+interface ContentFormProps {
+  companyId: string
+  type: ContentType
+  entry?: ContentEntry | null // if provided, edit mode; if null/undefined, create mode
+  // called with the saved entry after a successful create/update
+  onSuccess?: (entry: ContentEntry) => void
+  onCancel: () => void
+}
+
+// sidebar panel wrapper for the right column
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="border border-gray-200 rounded-md mb-4">
+      <h3 className="px-3 py-2 border-b border-gray-200 bg-gray-50 text-xs font-semibold text-gray-600 uppercase tracking-wider">
+        {title}
+      </h3>
+      <div className="p-3 space-y-4">{children}</div>
+    </section>
+  )
+}
+
+export function ContentForm({ companyId, type, entry, onSuccess, onCancel }: ContentFormProps) {
+  const isEditMode = !!entry
+  const label = type.singular.toLowerCase()
+
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // new entries derive the slug from the title until the slug is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(isEditMode)
+  const resolver = useMemo(() => zodResolver(getContentSchema(type)), [type])
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    watch,
+    setValue,
+    getValues,
+    control,
+  } = useForm<ContentFormData>({
+    resolver,
+    defaultValues: {
+      title: entry?.title || '',
+      slug: entry?.slug || '',
+      content: entry?.content || '',
+      excerpt: entry?.excerpt || '',
+      status: entry?.status || 'draft',
+      fields: toCustomFieldFormValues(entry?.fields),
+    },
+  })
+
+  const [watchedTitle, watchedSlug] = watch(['title', 'slug'])
+  const slugStatus = useSlugAvailability(
+    watchedSlug,
+    async (slug) => (await contentService.checkSlug(companyId, type.key, slug, entry?.id)).available,
+    entry?.slug
+  )
+
+  // fill the excerpt from the first paragraphs of the content
+  const handleGenerateExcerpt = () => {
+    setValue('excerpt', generateExcerpt(getValues('content')), { shouldDirty: true, shouldValidate: true })
+  }
+
+  const onSubmit = async (data: ContentFormData) => {
+    if (slugStatus === 'taken') {
+      setError(`The slug is already used by another ${label}. Please choose a different slug.`)
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      let savedEntry: ContentEntry
+
+      if (isEditMode && entry) {
+        // edit mode - update existing entry (values of fields the type no longer has are kept)
+        const payload: UpdateContentPayload = {
+          title: data.title.trim(),
+          content: data.content.trim(),
+          status: data.status,
+          excerpt: data.excerpt?.trim() || null,
+          fields: toCustomFieldValues(type.fields, data.fields, entry.fields),
+        }
+        if (data.slug && data.slug.trim()) {
+          payload.slug = data.slug.trim()
+        }
+
+        savedEntry = await contentService.update(companyId, type.key, entry.id, payload)
+      } else {
+        // create mode - create new entry
+        const payload: CreateContentPayload = {
+          title: data.title.trim(),
+          content: data.content.trim(),
+          status: data.status,
+          fields: toCustomFieldValues(type.fields, data.fields, null),
+        }
+        if (data.slug && data.slug.trim()) {
+          payload.slug = data.slug.trim()
+        }
+        if (data.excerpt && data.excerpt.trim()) {
+          payload.excerpt = data.excerpt.trim()
+        }
+
+        savedEntry = await contentService.create(companyId, type.key, payload)
+      }
+
+      onSuccess?.(savedEntry)
+    } catch (err: unknown) {
+      console.error(`Failed to ${isEditMode ? 'update' : 'create'} ${label}:`, err)
+      if (err instanceof Error) {
+        setError(err.message)
+      } else {
+        setError(`Failed to ${isEditMode ? 'update' : 'create'} ${label}. Please try again.`)
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleCancel = () => {
+    if (!isSubmitting) {
+      onCancel()
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col">
+      <div className="flex gap-6 items-start">
+        {/* Left Side: Title and Content */}
+        <div className="flex-1 min-w-0 flex flex-col space-y-4">
+          {/* Title */}
+          <div className="space-y-2">
+            <label htmlFor="title" className="text-sm font-medium text-gray-700">
+              Title <span className="text-red-500">*</span>
+            </label>
+            <Input
+              id="title"
+              type="text"
+              placeholder={`Enter ${label} title`}
+              {...register('title', {
+                onChange: (e) => {
+                  if (!isSlugEdited) {
+                    setValue('slug', slugify(e.target.value), { shouldValidate: true })
+                  }
+                },
+              })}
+              className={errors.title ? 'border-red-500' : ''}
+            />
+            {errors.title && (
+              <p className="text-sm text-red-500">{errors.title.message}</p>
+            )}
+          </div>
+
+          {/* Content */}
+          <div className="space-y-2 flex flex-col min-h-[60vh]">
+            <label className="text-sm font-medium text-gray-700">
+              Content <span className="text-red-500">*</span>
+            </label>
+            <Controller
+              name="content"
+              control={control}
+              render={({ field }) => (
+                <BlockEditor value={field.value} onChange={field.onChange} hasError={!!errors.content} />
+              )}
+            />
+            {errors.content && (
+              <p className="text-sm text-red-500">{errors.content.message}</p>
+            )}
+          </div>
+        </div>
+
+        {/* Right Side: Status, Excerpt and type field panels */}
+        <div className="w-80 shrink-0 sticky top-0">
+          <Panel title="Status">
+            {/* Status */}
+            <div className="space-y-2">
+              <label htmlFor="status" className="text-sm font-medium text-gray-700">
+                Status <span className="text-red-500">*</span>
+              </label>
+              <select
+                id="status"
+                {...register('status')}
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.status ? 'border-red-500' : 'border-gray-300'
+                }`}
+              >
+                <option value="draft">Draft</option>
+                <option value="published">Published</option>
+              </select>
+              {errors.status && (
+                <p className="text-sm text-red-500">{errors.status.message}</p>
+              )}
+            </div>
+
+            {/* Slug */}
+            <div className="space-y-2">
+              <label htmlFor="slug" className="text-sm font-medium text-gray-700">
+                Slug (Optional)
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  id="slug"
+                  type="text"
+                  placeholder={`${slugify(type.singular)}-url-slug`}
+                  {...register('slug', {
+                    // clearing the slug links it to the title again
+                    onChange: (e) => setIsSlugEdited(!!e.target.value),
+                  })}
+                  className={errors.slug || slugStatus === 'taken' ? 'border-red-500' : ''}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setValue('slug', slugify(getValues('title')), { shouldValidate: true })}
+                  disabled={!watchedTitle?.trim()}
+                  title="Generate slug from title"
+                >
+                  Generate
+                </Button>
+              </div>
+              {errors.slug ? (
+                <p className="text-sm text-red-500">{errors.slug.message}</p>
+              ) : (
+                <SlugStatusHint status={slugStatus} emptyText="Leave empty to generate from title" />
+              )}
+            </div>
+          </Panel>
+
+          <Panel title="Excerpt">
+            <div className="space-y-2">
+              <textarea
+                id="excerpt"
+                rows={3}
+                placeholder={`Short summary of the ${label}`}
+                {...register('excerpt')}
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.excerpt ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.excerpt && (
+                <p className="text-sm text-red-500">{errors.excerpt.message}</p>
+              )}
+              <Button type="button" variant="outline" size="sm" onClick={handleGenerateExcerpt}>
+                Generate from content
+              </Button>
+            </div>
+          </Panel>
+
+          {type.fields.length > 0 && (
+            <Panel title={`${type.singular} Details`}>
+              {type.fields.map((field) => (
+                <Controller
+                  key={field.key}
+                  name={`fields.${field.key}`}
+                  control={control}
+                  render={({ field: { value, onChange } }) => (
+                    <CustomFieldInput
+                      companyId={companyId}
+                      field={field}
+                      value={value}
+                      onChange={onChange}
+                      error={errors.fields?.[field.key]?.message}
+                    />
+                  )}
+                />
+              ))}
+            </Panel>
+          )}
+        </div>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 mt-4">
+        <Button type="button" variant="outline" onClick={handleCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting
+            ? isEditMode
+              ? 'Updating...'
+              : 'Creating...'
+            : isEditMode
+              ? `Update ${type.singular}`
+              : `Create ${type.singular}`}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,267 @@
+// CustomFieldInput - input for one custom field, generated from its definition (post form, content editor)
+// Media fields pick a file from the media library, relation fields search the company's posts
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { MediaSelectorModal } from '@/components/MediaSelectorModal'
+import { useDebounce } from '@/hooks/useDebounce'
+import type { CustomFieldDefinitionValues, CustomFieldFormValue } from '@/lib/customFields'
+import blogService, { type BlogPost } from '@/services/blog/blogService'
+import { Image as ImageIcon, Search, X } from 'lucide-react'
+
+interface CustomFieldInputProps {
+  companyId: string
+  field: CustomFieldDefinitionValues
+  value: CustomFieldFormValue | undefined
+  onChange: (value: CustomFieldFormValue) => void
+  error?: string
+}
+
+export function CustomFieldInput({ companyId, field, value, onChange, error }: CustomFieldInputProps) {
+  const id = `custom_field_${field.key}`
+  const text = typeof value === 'string' ? value : ''
+  const inputClassName = error ? 'border-red-500' : ''
+
+  // boolean fields are a single checkbox with the label next to it
+  if (field.type === 'boolean') {
+    return (
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span className="text-sm font-medium text-gray-700">{field.label}</span>
+        </label>
+        {field.help_text && <p className="text-xs text-gray-500 ml-6">{field.help_text}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor={id} className="text-sm font-medium text-gray-700">
+        {field.label} {field.required ? <span className="text-red-500">*</span> : '(Optional)'}
+      </label>
+
+      {field.type === 'text' && (
+        <Input
+          id={id}
+          type="text"
+          value={text}
+          maxLength={field.max_length || undefined}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+        />
+      )}
+
+      {field.type === 'number' && (
+        <Input
+          id={id}
+          type="number"
+          value={text}
+          min={field.min ?? undefined}
+          max={field.max ?? undefined}
+          step="any"
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+        />
+      )}
+
+      {field.type === 'date' && (
+        <Input id={id} type="date" value={text} onChange={(e) => onChange(e.target.value)} className={inputClassName} />
+      )}
+
+      {field.type === 'select' && (
+        <select
+          id={id}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${inputClassName}`}
+        >
+          <option value="">{field.required ? 'Select an option' : 'None'}</option>
+          {/* keep a stored value that is no longer an option visible so it can be changed */}
+          {text && !(field.options || []).includes(text) && <option value={text}>{text}</option>}
+          {(field.options || []).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {field.type === 'media' && <MediaFieldInput label={field.label} value={text} onChange={onChange} />}
+
+      {field.type === 'relation' && (
+        <RelationFieldInput id={id} companyId={companyId} value={text} onChange={onChange} />
+      )}
+
+      {error ? (
+        <p className="text-sm text-red-500">{error}</p>
+      ) : (
+        field.help_text && <p className="text-xs text-gray-500">{field.help_text}</p>
+      )}
+    </div>
+  )
+}
+
+// media field - stores the file URL of the selected media item
+function MediaFieldInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+}) {
+  const [isSelectorOpen, setIsSelectorOpen] = useState(false)
+
+  return (
+    <>
+      {value ? (
+        <div className="flex items-center gap-2 p-2 border border-gray-300 rounded-md">
+          <ImageIcon className="w-4 h-4 text-gray-400 shrink-0" />
+          <a
+            href={value}
+            target="_blank"
+            rel="noreferrer"
+            className="flex-1 min-w-0 truncate text-sm text-blue-600 hover:underline"
+          >
+            {decodeURIComponent(value.split('/').pop() || value)}
+          </a>
+          <button
+            type="button"
+            onClick={() => onChange('')}
+            className="p-1 text-gray-400 hover:text-red-600"
+            title="Remove file"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <Button type="button" variant="outline" className="w-full" onClick={() => setIsSelectorOpen(true)}>
+          <ImageIcon className="w-4 h-4 mr-2" />
+          Select File
+        </Button>
+      )}
+
+      <MediaSelectorModal
+        open={isSelectorOpen}
+        onClose={() => setIsSelectorOpen(false)}
+        onSelect={(media) => {
+          onChange(media.file_url)
+          setIsSelectorOpen(false)
+        }}
+        title={`Select ${label}`}
+      />
+    </>
+  )
+}
+
+// relation field - stores the id of another post of the company
+function RelationFieldInput({
+  id,
+  companyId,
+  value,
+  onChange,
+}: {
+  id: string
+  companyId: string
+  value: string
+  onChange: (value: string) => void
+}) {
+  const [search, setSearch] = useState('')
+  const [results, setResults] = useState<BlogPost[]>([])
+  const [selectedPost, setSelectedPost] = useState<Pick<BlogPost, 'id' | 'title'> | null>(null)
+  const debouncedSearch = useDebounce(search.trim())
+
+  // look up the title of a post that was selected before (edit mode, restored drafts)
+  useEffect(() => {
+    if (!value || selectedPost?.id === value) return
+
+    let cancelled = false
+    blogService
+      .get(companyId, value)
+      .then((post) => {
+        if (!cancelled) setSelectedPost(post)
+      })
+      .catch((err) => console.error('Failed to load related post:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [companyId, value, selectedPost])
+
+  // search posts by title while the user types
+  useEffect(() => {
+    if (!debouncedSearch) return
+
+    let cancelled = false
+    blogService
+      .list(companyId, { search: debouncedSearch, limit: 10 })
+      .then((response) => {
+        if (!cancelled) setResults(response.data || [])
+      })
+      .catch((err) => console.error('Failed to search posts:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [companyId, debouncedSearch])
+
+  if (value) {
+    return (
+      <div className="flex items-center gap-2 p-2 border border-gray-300 rounded-md">
+        <span className="flex-1 min-w-0 truncate text-sm text-gray-900">
+          {selectedPost?.id === value ? selectedPost.title : 'Loading post...'}
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          className="p-1 text-gray-400 hover:text-red-600"
+          title="Remove related post"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    )
+  }
+
+  const visibleResults = debouncedSearch ? results : []
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+      <Input
+        id={id}
+        type="text"
+        value={search}
+        placeholder="Search posts..."
+        onChange={(e) => setSearch(e.target.value)}
+        className="pl-9"
+      />
+      {visibleResults.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full max-h-48 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg">
+          {visibleResults.map((post) => (
+            <li key={post.id}>
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectedPost(post)
+                  setSearch('')
+                  onChange(post.id)
+                }}
+                className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+              >
+                {post.title}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
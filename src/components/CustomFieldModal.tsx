@@ -0,0 +1,361 @@
+// CustomFieldModal - creates or edits a custom post field definition
+// The key and type are fixed after creation because stored post values depend on them
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  CUSTOM_FIELD_KEY_PATTERN,
+  addCustomField,
+  customFieldTypeLabels,
+  getCustomFields,
+  toFieldKey,
+  updateCustomField,
+  type CustomFieldDefinition,
+  type CustomFieldDefinitionValues,
+  type CustomFieldType,
+} from '@/lib/customFields'
+
+// optional number typed into a text box
+const optionalNumber = z
+  .string()
+  .optional()
+  .refine((value) => !value?.trim() || Number.isFinite(Number(value)), 'Must be a number')
+
+const customFieldSchema = z
+  .object({
+    label: z.string().trim().min(1, 'Label is required').max(100, 'Label must be 100 characters or less'),
+    key: z
+      .string()
+      .regex(CUSTOM_FIELD_KEY_PATTERN, 'Use lowercase letters, numbers and underscores, starting with a letter'),
+    type: z.enum(Object.keys(customFieldTypeLabels) as [CustomFieldType, ...CustomFieldType[]]),
+    required: z.boolean(),
+    help_text: z.string().optional(),
+    options: z.string().optional(), // select options, one per line
+    min: optionalNumber,
+    max: optionalNumber,
+    max_length: z
+      .string()
+      .optional()
+      .refine(
+        (value) => !value?.trim() || (Number.isInteger(Number(value)) && Number(value) > 0),
+        'Must be a positive whole number'
+      ),
+  })
+  .superRefine((data, ctx) => {
+    if (data.type === 'select' && parseOptions(data.options).length === 0) {
+      ctx.addIssue({ code: 'custom', path: ['options'], message: 'Add at least one option' })
+    }
+    if (data.type === 'number' && data.min?.trim() && data.max?.trim() && Number(data.min) > Number(data.max)) {
+      ctx.addIssue({ code: 'custom', path: ['max'], message: 'Maximum must not be smaller than the minimum' })
+    }
+  })
+
+type CustomFieldFormData = z.infer<typeof customFieldSchema>
+
+// unique, non-empty option lines
+function parseOptions(text: string | undefined): string[] {
+  return [...new Set((text || '').split('\n').map((line) => line.trim()).filter(Boolean))]
+}
+
+function parseNumber(text: string | undefined): number | null {
+  return text?.trim() ? Number(text) : null
+}
+
+interface CustomFieldModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  fields: CustomFieldDefinition[] // existing fields, to keep keys unique
+  field?: CustomFieldDefinition | null // if provided, edit mode
+  // called with the company's updated field list
+  onSaved?: (fields: CustomFieldDefinition[]) => void
+}
+
+export function CustomFieldModal({ open, onOpenChange, companyId, fields, field, onSaved }: CustomFieldModalProps) {
+  const isEditMode = !!field
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // new fields derive the key from the label until the key is edited by hand
+  const [isKeyEdited, setIsKeyEdited] = useState(isEditMode)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    watch,
+    setValue,
+  } = useForm<CustomFieldFormData>({
+    resolver: zodResolver(customFieldSchema),
+    defaultValues: {
+      label: field?.label || '',
+      key: field?.key || '',
+      type: field?.type || 'text',
+      required: field?.required ?? false,
+      help_text: field?.help_text || '',
+      options: (field?.options || []).join('\n'),
+      min: field?.min?.toString() ?? '',
+      max: field?.max?.toString() ?? '',
+      max_length: field?.max_length?.toString() ?? '',
+    },
+  })
+
+  const type = watch('type')
+
+  const onSubmit = async (data: CustomFieldFormData) => {
+    if (!isEditMode && fields.some((item) => item.key === data.key)) {
+      setError(`A field with the key "${data.key}" already exists. Please choose a different key.`)
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      // only keep the settings of the selected type
+      const values: CustomFieldDefinitionValues = {
+        label: data.label.trim(),
+        key: data.key,
+        type: data.type,
+        required: data.type === 'boolean' ? false : data.required,
+        help_text: data.help_text?.trim() || undefined,
+        options: data.type === 'select' ? parseOptions(data.options) : undefined,
+        min: data.type === 'number' ? parseNumber(data.min) : null,
+        max: data.type === 'number' ? parseNumber(data.max) : null,
+        max_length: data.type === 'text' ? parseNumber(data.max_length) : null,
+      }
+
+      const company = field
+        ? await updateCustomField(companyId, field.id, values)
+        : await addCustomField(companyId, values)
+
+      onSaved?.(getCustomFields(company))
+      onOpenChange(false)
+    } catch (err: unknown) {
+      console.error(`Failed to ${isEditMode ? 'update' : 'create'} custom field:`, err)
+      if (err instanceof Error) {
+        setError(err.message)
+      } else {
+        setError(`Failed to ${isEditMode ? 'update' : 'create'} custom field. Please try again.`)
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      setError(null)
+      onOpenChange(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogClose onClose={handleClose} />
+        <DialogHeader>
+          <DialogTitle>{isEditMode ? 'Edit Custom Field' : 'Add Custom Field'}</DialogTitle>
+          <DialogDescription>
+            {isEditMode
+              ? 'Update the field settings. Key and type cannot be changed.'
+              : 'The field is shown in the Custom Fields panel of the post editor.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {/* Label */}
+          <div className="space-y-2">
+            <label htmlFor="label" className="text-sm font-medium text-gray-700">
+              Label <span className="text-red-500">*</span>
+            </label>
+            <Input
+              id="label"
+              type="text"
+              placeholder="e.g. Source URL"
+              {...register('label', {
+                onChange: (e) => {
+                  if (!isKeyEdited) {
+                    setValue('key', toFieldKey(e.target.value), { shouldValidate: true })
+                  }
+                },
+              })}
+              className={errors.label ? 'border-red-500' : ''}
+            />
+            {errors.label && (
+              <p className="text-sm text-red-500">{errors.label.message}</p>
+            )}
+          </div>
+
+          {/* Key */}
+          <div className="space-y-2">
+            <label htmlFor="key" className="text-sm font-medium text-gray-700">
+              Key <span className="text-red-500">*</span>
+            </label>
+            <Input
+              id="key"
+              type="text"
+              placeholder="source_url"
+              readOnly={isEditMode}
+              {...register('key', {
+                // clearing the key links it to the label again
+                onChange: (e) => setIsKeyEdited(!!e.target.value),
+              })}
+              className={errors.key ? 'border-red-500' : ''}
+            />
+            {errors.key ? (
+              <p className="text-sm text-red-500">{errors.key.message}</p>
+            ) : (
+              <p className="text-xs text-gray-500">Name of the value in the API, cannot be changed later</p>
+            )}
+          </div>
+
+          {/* Type */}
+          <div className="space-y-2">
+            <label htmlFor="type" className="text-sm font-medium text-gray-700">
+              Type <span className="text-red-500">*</span>
+            </label>
+            {field ? (
+              <Input id="type" type="text" value={customFieldTypeLabels[field.type]} readOnly />
+            ) : (
+              <select
+                id="type"
+                {...register('type')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {Object.entries(customFieldTypeLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {/* Select options */}
+          {type === 'select' && (
+            <div className="space-y-2">
+              <label htmlFor="options" className="text-sm font-medium text-gray-700">
+                Options <span className="text-red-500">*</span>
+              </label>
+              <textarea
+                id="options"
+                rows={4}
+                placeholder="One option per line"
+                {...register('options')}
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.options ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.options && (
+                <p className="text-sm text-red-500">{errors.options.message}</p>
+              )}
+            </div>
+          )}
+
+          {/* Number range */}
+          {type === 'number' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="min" className="text-sm font-medium text-gray-700">
+                  Minimum (Optional)
+                </label>
+                <Input id="min" type="text" inputMode="decimal" {...register('min')} className={errors.min ? 'border-red-500' : ''} />
+                {errors.min && (
+                  <p className="text-sm text-red-500">{errors.min.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="max" className="text-sm font-medium text-gray-700">
+                  Maximum (Optional)
+                </label>
+                <Input id="max" type="text" inputMode="decimal" {...register('max')} className={errors.max ? 'border-red-500' : ''} />
+                {errors.max && (
+                  <p className="text-sm text-red-500">{errors.max.message}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Text length */}
+          {type === 'text' && (
+            <div className="space-y-2">
+              <label htmlFor="max_length" className="text-sm font-medium text-gray-700">
+                Maximum Length (Optional)
+              </label>
+              <Input
+                id="max_length"
+                type="text"
+                inputMode="numeric"
+                placeholder="No limit"
+                {...register('max_length')}
+                className={errors.max_length ? 'border-red-500' : ''}
+              />
+              {errors.max_length && (
+                <p className="text-sm text-red-500">{errors.max_length.message}</p>
+              )}
+            </div>
+          )}
+
+          {/* Help text */}
+          <div className="space-y-2">
+            <label htmlFor="help_text" className="text-sm font-medium text-gray-700">
+              Help Text (Optional)
+            </label>
+            <Input
+              id="help_text"
+              type="text"
+              placeholder="Shown below the input in the post editor"
+              {...register('help_text')}
+            />
+          </div>
+
+          {/* Required */}
+          {type !== 'boolean' && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                {...register('required')}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm font-medium text-gray-700">Required</span>
+            </label>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting
+                ? isEditMode
+                  ? 'Updating...'
+                  : 'Adding...'
+                : isEditMode
+                  ? 'Update Field'
+                  : 'Add Field'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
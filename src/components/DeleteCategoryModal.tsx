@@ -0,0 +1,112 @@
+// DeleteCategoryModal - confirms deleting a category that has subcategories
+// Lets the user choose whether the subcategories move up a level or are deleted as well
+import { useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import type { Category } from '@/services/blog/blogService'
+
+// what happens to the subcategories of a deleted category
+export type ChildCategoryStrategy = 'move_up' | 'delete'
+
+interface DeleteCategoryModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  category: Category
+  parentName: string | null // name of the category's parent (null for root categories)
+  descendantCount: number // all subcategories, including nested ones
+  onConfirm: (strategy: ChildCategoryStrategy) => void | Promise<void>
+  isDeleting?: boolean
+}
+
+export function DeleteCategoryModal({
+  open,
+  onOpenChange,
+  category,
+  parentName,
+  descendantCount,
+  onConfirm,
+  isDeleting = false,
+}: DeleteCategoryModalProps) {
+  const [strategy, setStrategy] = useState<ChildCategoryStrategy>('move_up')
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!isDeleting) {
+      onOpenChange(newOpen)
+    }
+  }
+
+  const options: { value: ChildCategoryStrategy; label: string; description: string }[] = [
+    {
+      value: 'move_up',
+      label: 'Keep subcategories',
+      description: parentName
+        ? `Subcategories move up and become children of "${parentName}".`
+        : 'Subcategories move up and become top-level categories.',
+    },
+    {
+      value: 'delete',
+      label: 'Delete subcategories',
+      description: `All ${descendantCount} nested ${descendantCount === 1 ? 'category is' : 'categories are'} deleted as well.`,
+    },
+  ]
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-red-100">
+              <AlertTriangle className="h-5 w-5 text-red-600" />
+            </div>
+            <DialogTitle className="text-xl">Delete category</DialogTitle>
+          </div>
+          <DialogDescription className="pt-2">
+            "{category.name}" has {descendantCount} {descendantCount === 1 ? 'subcategory' : 'subcategories'}. What
+            should happen to {descendantCount === 1 ? 'it' : 'them'}? This action cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {options.map((option) => (
+            <label
+              key={option.value}
+              className={`flex items-start gap-3 p-3 border rounded-md cursor-pointer ${
+                strategy === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+              }`}
+            >
+              <input
+                type="radio"
+                name="child-strategy"
+                value={option.value}
+                checked={strategy === option.value}
+                onChange={() => setStrategy(option.value)}
+                className="mt-1"
+              />
+              <div>
+                <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                <p className="text-xs text-gray-500">{option.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-3">
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button type="button" variant="destructive" onClick={() => onConfirm(strategy)} disabled={isDeleting}>
+            {isDeleting ? 'Deleting...' : 'Delete'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
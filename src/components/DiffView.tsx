@@ -0,0 +1,77 @@
+// DiffView - side-by-side diff of a single field
+// Left column shows the old value, right column the new value; changed lines are highlighted
+import { diffLines, hasChanges, toSideBySide } from '@/lib/diff'
+
+interface DiffViewProps {
+  // field label (e.g. "Title", "Content")
+  label: string
+  before: string | null | undefined
+  after: string | null | undefined
+  // column headings
+  beforeLabel?: string
+  afterLabel?: string
+  // render lines in a monospace font (useful for HTML content)
+  monospace?: boolean
+}
+
+// background colors per row side
+const leftClass = {
+  equal: '',
+  changed: 'bg-red-50 text-red-900',
+  removed: 'bg-red-50 text-red-900',
+  added: 'bg-gray-50',
+}
+
+const rightClass = {
+  equal: '',
+  changed: 'bg-green-50 text-green-900',
+  removed: 'bg-gray-50',
+  added: 'bg-green-50 text-green-900',
+}
+
+export function DiffView({
+  label,
+  before,
+  after,
+  beforeLabel = 'Before',
+  afterLabel = 'After',
+  monospace = false,
+}: DiffViewProps) {
+  const changed = hasChanges(before, after)
+  const rows = changed ? toSideBySide(diffLines(before, after)) : []
+
+  return (
+    <div className="border border-gray-200 rounded-md overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200">
+        <span className="text-sm font-medium text-gray-700">{label}</span>
+        <span className={`text-xs ${changed ? 'text-orange-600' : 'text-gray-400'}`}>
+          {changed ? 'Changed' : 'No changes'}
+        </span>
+      </div>
+      {changed && (
+        <table className={`w-full table-fixed text-xs ${monospace ? 'font-mono' : ''}`}>
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="px-3 py-1 font-medium w-1/2">{beforeLabel}</th>
+              <th className="px-3 py-1 font-medium w-1/2 border-l border-gray-200">{afterLabel}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className="align-top">
+                <td className={`px-3 py-1 whitespace-pre-wrap break-words ${leftClass[row.type]}`}>
+                  {row.left ?? ''}
+                </td>
+                <td
+                  className={`px-3 py-1 whitespace-pre-wrap break-words border-l border-gray-200 ${rightClass[row.type]}`}
+                >
+                  {row.right ?? ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
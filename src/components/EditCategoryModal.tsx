@@ -1,5 +1,5 @@
 // EditCategoryModal - modal form for editing an existing category
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -14,16 +14,23 @@ import {
 } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { SlugStatusHint } from '@/components/SlugStatusHint'
+import { useSlugAvailability } from '@/hooks/useSlugAvailability'
+import { slugify, slugSchema } from '@/lib/slug'
+import { buildTree, flattenTree, getDescendantIds } from '@/lib/tree'
 import blogService, { type Category, type UpdateCategoryPayload } from '@/services/blog/blogService'
 
-const editCategorySchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  slug: z.string().optional().or(z.literal('')),
-  parent_id: z.string().optional().or(z.literal('')),
-  description: z.string().optional().or(z.literal('')),
-})
+// the stored slug of the category is accepted as it is
+function getEditCategorySchema(storedSlug: string) {
+  return z.object({
+    name: z.string().min(1, 'Name is required'),
+    slug: slugSchema(storedSlug),
+    parent_id: z.string().optional().or(z.literal('')),
+    description: z.string().optional().or(z.literal('')),
+  })
+}
 
-type EditCategoryFormData = z.infer<typeof editCategorySchema>
+type EditCategoryFormData = z.infer<ReturnType<typeof getEditCategorySchema>>
 
 interface EditCategoryModalProps {
   open: boolean
@@ -44,17 +51,24 @@ export function EditCategoryModal({
 }: EditCategoryModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const resolver = useMemo(() => zodResolver(getEditCategorySchema(category.slug)), [category.slug])
 
-  // filter out current category from parent options (can't be parent of itself)
-  const availableParents = categories.filter((c) => c.id !== category.id)
+  // parent options in tree order, without the category itself and its subcategories (would create a cycle)
+  const excludedIds = getDescendantIds(categories, category.id).add(category.id)
+  const availableParents = flattenTree(
+    buildTree(categories, (a, b) => a.name.localeCompare(b.name))
+  ).filter((row) => !excludedIds.has(row.item.id))
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
+    watch,
+    setValue,
+    getValues,
   } = useForm<EditCategoryFormData>({
-    resolver: zodResolver(editCategorySchema),
+    resolver,
     defaultValues: {
       name: category.name,
       slug: category.slug,
@@ -63,6 +77,13 @@ export function EditCategoryModal({
     },
   })
 
+  const [name, slug] = watch(['name', 'slug'])
+  const slugStatus = useSlugAvailability(
+    slug,
+    async (value) => (await blogService.checkCategorySlug(companyId, value, category.id)).available,
+    category.slug
+  )
+
   // reset form when category changes
   useEffect(() => {
     if (category) {
@@ -76,6 +97,11 @@ export function EditCategoryModal({
   }, [category, reset])
 
   const onSubmit = async (data: EditCategoryFormData) => {
+    if (slugStatus === 'taken') {
+      setError('The slug is already used by another category. Please choose a different slug.')
+      return
+    }
+
     setIsSubmitting(true)
     setError(null)
 
@@ -160,15 +186,28 @@ export function EditCategoryModal({
             <label htmlFor="slug" className="text-sm font-medium text-gray-700">
               Slug (Optional)
             </label>
-            <Input
-              id="slug"
-              type="text"
-              placeholder="category-slug"
-              {...register('slug')}
-              className={errors.slug ? 'border-red-500' : ''}
-            />
-            {errors.slug && (
+            <div className="flex gap-2">
+              <Input
+                id="slug"
+                type="text"
+                placeholder="category-slug"
+                {...register('slug')}
+                className={errors.slug || slugStatus === 'taken' ? 'border-red-500' : ''}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setValue('slug', slugify(getValues('name')), { shouldValidate: true })}
+                disabled={!name?.trim()}
+                title="Generate slug from name"
+              >
+                Generate
+              </Button>
+            </div>
+            {errors.slug ? (
               <p className="text-sm text-red-500">{errors.slug.message}</p>
+            ) : (
+              <SlugStatusHint status={slugStatus} emptyText="Leave empty to generate from name" />
             )}
           </div>
 
@@ -185,9 +224,9 @@ export function EditCategoryModal({
               }`}
             >
               <option value="">None</option>
-              {availableParents.map((cat) => (
-                <option key={cat.id} value={cat.id}>
-                  {cat.name}
+              {availableParents.map(({ item, depth }) => (
+                <option key={item.id} value={item.id}>
+                  {`${'— '.repeat(depth)}${item.name}`}
                 </option>
               ))}
             </select>
@@ -1,5 +1,5 @@
 // EditTagModal - modal form for editing an existing tag
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -14,15 +14,21 @@ import {
 } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { SlugStatusHint } from '@/components/SlugStatusHint'
+import { useSlugAvailability } from '@/hooks/useSlugAvailability'
+import { slugify, slugSchema } from '@/lib/slug'
 import blogService, { type Tag, type UpdateTagPayload } from '@/services/blog/blogService'
 
-const editTagSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  slug: z.string().optional().or(z.literal('')),
-  description: z.string().optional().or(z.literal('')),
-})
+// the stored slug of the tag is accepted as it is
+function getEditTagSchema(storedSlug: string) {
+  return z.object({
+    name: z.string().min(1, 'Name is required'),
+    slug: slugSchema(storedSlug),
+    description: z.string().optional().or(z.literal('')),
+  })
+}
 
-type EditTagFormData = z.infer<typeof editTagSchema>
+type EditTagFormData = z.infer<ReturnType<typeof getEditTagSchema>>
 
 interface EditTagModalProps {
   open: boolean
@@ -41,14 +47,18 @@ export function EditTagModal({
 }: EditTagModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const resolver = useMemo(() => zodResolver(getEditTagSchema(tag.slug)), [tag.slug])
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
+    watch,
+    setValue,
+    getValues,
   } = useForm<EditTagFormData>({
-    resolver: zodResolver(editTagSchema),
+    resolver,
     defaultValues: {
       name: tag.name,
       slug: tag.slug,
@@ -56,6 +66,13 @@ export function EditTagModal({
     },
   })
 
+  const [name, slug] = watch(['name', 'slug'])
+  const slugStatus = useSlugAvailability(
+    slug,
+    async (value) => (await blogService.checkTagSlug(companyId, value, tag.id)).available,
+    tag.slug
+  )
+
   // reset form when tag changes
   useEffect(() => {
     if (tag) {
@@ -68,6 +85,11 @@ export function EditTagModal({
   }, [tag, reset])
 
   const onSubmit = async (data: EditTagFormData) => {
+    if (slugStatus === 'taken') {
+      setError('The slug is already used by another tag. Please choose a different slug.')
+      return
+    }
+
     setIsSubmitting(true)
     setError(null)
 
@@ -147,15 +169,28 @@ export function EditTagModal({
             <label htmlFor="slug" className="text-sm font-medium text-gray-700">
               Slug (Optional)
             </label>
-            <Input
-              id="slug"
-              type="text"
-              placeholder="tag-slug"
-              {...register('slug')}
-              className={errors.slug ? 'border-red-500' : ''}
-            />
-            {errors.slug && (
+            <div className="flex gap-2">
+              <Input
+                id="slug"
+                type="text"
+                placeholder="tag-slug"
+                {...register('slug')}
+                className={errors.slug || slugStatus === 'taken' ? 'border-red-500' : ''}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setValue('slug', slugify(getValues('name')), { shouldValidate: true })}
+                disabled={!name?.trim()}
+                title="Generate slug from name"
+              >
+                Generate
+              </Button>
+            </div>
+            {errors.slug ? (
               <p className="text-sm text-red-500">{errors.slug.message}</p>
+            ) : (
+              <SlugStatusHint status={slugStatus} emptyText="Leave empty to generate from name" />
             )}
           </div>
 
@@ -0,0 +1,175 @@
+// EditTaxonomyModal - modal form for editing a custom taxonomy
+// The slug is fixed after creation because admin URLs and site routes depend on it
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import blogService, { type Taxonomy, type UpdateTaxonomyPayload } from '@/services/blog/blogService'
+
+const editTaxonomySchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional().or(z.literal('')),
+  hierarchical: z.boolean(),
+})
+
+type EditTaxonomyFormData = z.infer<typeof editTaxonomySchema>
+
+interface EditTaxonomyModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess?: () => void
+  companyId: string
+  taxonomy: Taxonomy
+}
+
+export function EditTaxonomyModal({ open, onOpenChange, onSuccess, companyId, taxonomy }: EditTaxonomyModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    watch,
+  } = useForm<EditTaxonomyFormData>({
+    resolver: zodResolver(editTaxonomySchema),
+    defaultValues: {
+      name: taxonomy.name,
+      description: taxonomy.description || '',
+      hierarchical: taxonomy.hierarchical,
+    },
+  })
+
+  const hierarchical = watch('hierarchical')
+
+  const onSubmit = async (data: EditTaxonomyFormData) => {
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const payload: UpdateTaxonomyPayload = {
+        name: data.name.trim(),
+        description: data.description?.trim() || '',
+        hierarchical: data.hierarchical,
+      }
+
+      await blogService.updateTaxonomy(companyId, taxonomy.id, payload)
+
+      // close modal
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (err: unknown) {
+      console.error('Failed to update taxonomy:', err)
+      if (err instanceof Error) {
+        setError(err.message)
+      } else {
+        setError('Failed to update taxonomy. Please try again.')
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      setError(null)
+      onOpenChange(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogClose onClose={handleClose} />
+        <DialogHeader>
+          <DialogTitle>Edit Taxonomy</DialogTitle>
+          <DialogDescription>
+            Update the taxonomy details. The slug "{taxonomy.slug}" cannot be changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {/* Name */}
+          <div className="space-y-2">
+            <label htmlFor="name" className="text-sm font-medium text-gray-700">
+              Name <span className="text-red-500">*</span>
+            </label>
+            <Input
+              id="name"
+              type="text"
+              placeholder="Taxonomy name"
+              {...register('name')}
+              className={errors.name ? 'border-red-500' : ''}
+            />
+            {errors.name && (
+              <p className="text-sm text-red-500">{errors.name.message}</p>
+            )}
+          </div>
+
+          {/* Structure */}
+          <div className="space-y-2">
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                {...register('hierarchical')}
+                className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700">Hierarchical</span>
+                <span className="block text-xs text-gray-500">Terms can be nested like categories.</span>
+              </span>
+            </label>
+            {taxonomy.hierarchical && !hierarchical && (
+              <p className="text-sm text-yellow-700">
+                Existing parent links are kept but no longer shown. Terms appear as a flat list.
+              </p>
+            )}
+          </div>
+
+          {/* Description */}
+          <div className="space-y-2">
+            <label htmlFor="description" className="text-sm font-medium text-gray-700">
+              Description (Optional)
+            </label>
+            <textarea
+              id="description"
+              rows={3}
+              placeholder="What the taxonomy is used for..."
+              {...register('description')}
+              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                errors.description ? 'border-red-500' : 'border-gray-300'
+              }`}
+            />
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Updating...' : 'Update Taxonomy'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
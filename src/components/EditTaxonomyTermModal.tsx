@@ -0,0 +1,243 @@
+// EditTaxonomyTermModal - modal form for editing a term of a custom taxonomy
+// The parent field is only shown for hierarchical taxonomies
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { SlugStatusHint } from '@/components/SlugStatusHint'
+import { useSlugAvailability } from '@/hooks/useSlugAvailability'
+import { SLUG_FORMAT_MESSAGE, SLUG_PATTERN, slugify } from '@/lib/slug'
+import { buildTree, flattenTree, getDescendantIds } from '@/lib/tree'
+import blogService, {
+  type Taxonomy,
+  type TaxonomyTerm,
+  type UpdateTaxonomyTermPayload,
+} from '@/services/blog/blogService'
+
+const editTermSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  slug: z.string().regex(SLUG_PATTERN, SLUG_FORMAT_MESSAGE).optional().or(z.literal('')),
+  parent_id: z.string().optional().or(z.literal('')),
+  description: z.string().optional().or(z.literal('')),
+})
+
+type EditTermFormData = z.infer<typeof editTermSchema>
+
+interface EditTaxonomyTermModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess?: () => void
+  companyId: string
+  taxonomy: Taxonomy
+  term: TaxonomyTerm
+  terms: TaxonomyTerm[] // all terms of the taxonomy for the parent dropdown
+}
+
+export function EditTaxonomyTermModal({
+  open,
+  onOpenChange,
+  onSuccess,
+  companyId,
+  taxonomy,
+  term,
+  terms,
+}: EditTaxonomyTermModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // parent options in tree order, without the term itself and its children (would create a cycle)
+  const excludedIds = getDescendantIds(terms, term.id).add(term.id)
+  const availableParents = flattenTree(buildTree(terms, (a, b) => a.name.localeCompare(b.name))).filter(
+    (row) => !excludedIds.has(row.item.id)
+  )
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    watch,
+    setValue,
+    getValues,
+  } = useForm<EditTermFormData>({
+    resolver: zodResolver(editTermSchema),
+    defaultValues: {
+      name: term.name,
+      slug: term.slug,
+      parent_id: term.parent_id || '',
+      description: term.description || '',
+    },
+  })
+
+  const [name, slug] = watch(['name', 'slug'])
+  const slugStatus = useSlugAvailability(
+    slug,
+    async (value) => (await blogService.checkTaxonomyTermSlug(companyId, taxonomy.id, value, term.id)).available,
+    term.slug
+  )
+
+  const onSubmit = async (data: EditTermFormData) => {
+    if (slugStatus === 'taken') {
+      setError(`The slug is already used in ${taxonomy.name}. Please choose a different slug.`)
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const payload: UpdateTaxonomyTermPayload = {
+        name: data.name.trim(),
+        slug: data.slug?.trim() || '',
+        description: data.description?.trim() || '',
+      }
+      if (taxonomy.hierarchical) {
+        payload.parent_id = data.parent_id?.trim() || null
+      }
+
+      await blogService.updateTaxonomyTerm(companyId, taxonomy.id, term.id, payload)
+
+      // close modal
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (err: unknown) {
+      console.error('Failed to update term:', err)
+      if (err instanceof Error) {
+        setError(err.message)
+      } else {
+        setError('Failed to update term. Please try again.')
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      setError(null)
+      onOpenChange(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogClose onClose={handleClose} />
+        <DialogHeader>
+          <DialogTitle>Edit {taxonomy.name} Term</DialogTitle>
+          <DialogDescription>Update the term details. Name is required.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {/* Name */}
+          <div className="space-y-2">
+            <label htmlFor="name" className="text-sm font-medium text-gray-700">
+              Name <span className="text-red-500">*</span>
+            </label>
+            <Input
+              id="name"
+              type="text"
+              placeholder="Term name"
+              {...register('name')}
+              className={errors.name ? 'border-red-500' : ''}
+            />
+            {errors.name && (
+              <p className="text-sm text-red-500">{errors.name.message}</p>
+            )}
+          </div>
+
+          {/* Slug */}
+          <div className="space-y-2">
+            <label htmlFor="slug" className="text-sm font-medium text-gray-700">
+              Slug (Optional)
+            </label>
+            <div className="flex gap-2">
+              <Input
+                id="slug"
+                type="text"
+                placeholder="term-slug"
+                {...register('slug')}
+                className={errors.slug || slugStatus === 'taken' ? 'border-red-500' : ''}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setValue('slug', slugify(getValues('name')), { shouldValidate: true })}
+                disabled={!name?.trim()}
+                title="Generate slug from name"
+              >
+                Generate
+              </Button>
+            </div>
+            {errors.slug ? (
+              <p className="text-sm text-red-500">{errors.slug.message}</p>
+            ) : (
+              <SlugStatusHint status={slugStatus} emptyText="Leave empty to generate from name" />
+            )}
+          </div>
+
+          {/* Parent */}
+          {taxonomy.hierarchical && (
+            <div className="space-y-2">
+              <label htmlFor="parent_id" className="text-sm font-medium text-gray-700">
+                Parent (Optional)
+              </label>
+              <select
+                id="parent_id"
+                {...register('parent_id')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">None</option>
+                {availableParents.map(({ item, depth }) => (
+                  <option key={item.id} value={item.id}>
+                    {`${'— '.repeat(depth)}${item.name}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Description */}
+          <div className="space-y-2">
+            <label htmlFor="description" className="text-sm font-medium text-gray-700">
+              Description (Optional)
+            </label>
+            <textarea
+              id="description"
+              rows={4}
+              placeholder="Term description..."
+              {...register('description')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Updating...' : 'Update Term'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
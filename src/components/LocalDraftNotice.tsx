@@ -0,0 +1,88 @@
+// LocalDraftNotice - offers to restore an unsaved draft found in local storage
+// Shows when the draft was saved and can expand a diff against the server version
+// Warns when the post was saved on the server after the draft was started (restoring would overwrite that save)
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { DiffView } from '@/components/DiffView'
+import { formatDateTime } from '@/lib/utils'
+import { AlertTriangle } from 'lucide-react'
+
+// a single field compared between the server version and the local draft
+export interface DraftDiffField {
+  label: string
+  server: string | null | undefined
+  local: string | null | undefined
+  monospace?: boolean
+}
+
+interface LocalDraftNoticeProps {
+  savedAt: string // ISO date of the last autosave
+  baseUpdatedAt?: string | null // server updated_at the draft was started from
+  serverUpdatedAt?: string | null // current server updated_at
+  fields: DraftDiffField[]
+  // label for the server side of the diff (e.g. "Saved version" or "Empty form")
+  serverLabel?: string
+  onRestore: () => void
+  onDiscard: () => void
+}
+
+export function LocalDraftNotice({
+  savedAt,
+  baseUpdatedAt,
+  serverUpdatedAt,
+  fields,
+  serverLabel = 'Saved version',
+  onRestore,
+  onDiscard,
+}: LocalDraftNoticeProps) {
+  const [isComparing, setIsComparing] = useState(false)
+  // the server copy is newer than the version the draft was based on
+  const isServerNewer =
+    !!baseUpdatedAt && !!serverUpdatedAt && new Date(serverUpdatedAt).getTime() > new Date(baseUpdatedAt).getTime()
+
+  return (
+    <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5 text-yellow-700 shrink-0" />
+          <p className="text-sm text-yellow-900">
+            Unsaved changes from {formatDateTime(savedAt)} were found in this browser. Restore them?
+            {isServerNewer && serverUpdatedAt && (
+              <span className="block mt-1 font-medium text-red-700">
+                The post was saved again on {formatDateTime(serverUpdatedAt)}, after this draft was started. Restoring
+                replaces those changes - compare before restoring.
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button type="button" variant="ghost" size="sm" onClick={() => setIsComparing(!isComparing)}>
+            {isComparing ? 'Hide Changes' : 'Show Changes'}
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={onDiscard}>
+            Discard
+          </Button>
+          <Button type="button" size="sm" onClick={onRestore}>
+            Restore
+          </Button>
+        </div>
+      </div>
+
+      {isComparing && (
+        <div className="mt-3 max-h-72 overflow-y-auto space-y-3 bg-white rounded-md p-2">
+          {fields.map((field) => (
+            <DiffView
+              key={field.label}
+              label={field.label}
+              before={field.server}
+              after={field.local}
+              beforeLabel={serverLabel}
+              afterLabel="Local draft"
+              monospace={field.monospace}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -552,6 +552,8 @@ export function MediaSelectorModal({
                     setSearchQuery(e.target.value)
                     setCurrentPage(1) // reset to first page on search
                   }}
+                  // the search runs while typing - Enter must not submit a form the modal is opened from (e.g. the post form)
+                  onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
                   className="pl-10"
                 />
               </div>
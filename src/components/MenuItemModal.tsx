@@ -0,0 +1,223 @@
+// MenuItemModal - adds or edits one item of a navigation menu
+// Changes are applied to the menu being edited; the menu page saves the whole item list
+import { useForm, useWatch, Controller } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { CustomFieldInput } from '@/components/CustomFieldInput'
+import { menuItemTypeLabels, type MenuTargets } from '@/lib/menus'
+import type { MenuItem, MenuItemType } from '@/services/company/companyService'
+
+const menuItemSchema = z
+  .object({
+    label: z.string().trim().max(100, 'Label must be 100 characters or less'),
+    type: z.enum(Object.keys(menuItemTypeLabels) as [MenuItemType, ...MenuItemType[]]),
+    target_id: z.string(),
+    url: z.string().trim(),
+    open_in_new_tab: z.boolean(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.type === 'url') {
+      // absolute URLs and paths on the company site (e.g. "/contact")
+      if (!data.url.startsWith('/') && !z.url().safeParse(data.url).success) {
+        ctx.addIssue({ code: 'custom', path: ['url'], message: 'Enter a full URL (https://...) or a path starting with /' })
+      }
+    } else if (!data.target_id) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['target_id'],
+        message: `Select a ${menuItemTypeLabels[data.type].toLowerCase()}`,
+      })
+    }
+  })
+
+type MenuItemFormData = z.infer<typeof menuItemSchema>
+
+// item values edited in the modal - id, parent and position are kept by the menu page
+export type MenuItemValues = Pick<MenuItem, 'label' | 'type' | 'target_id' | 'url' | 'open_in_new_tab'>
+
+interface MenuItemModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  targets: MenuTargets // categories, tags and pages to pick from
+  item?: MenuItem | null // if provided, edit mode
+  onSave: (values: MenuItemValues) => void
+}
+
+export function MenuItemModal({ open, onOpenChange, companyId, targets, item, onSave }: MenuItemModalProps) {
+  const isEditMode = !!item
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    control,
+  } = useForm<MenuItemFormData>({
+    resolver: zodResolver(menuItemSchema),
+    defaultValues: {
+      label: item?.label || '',
+      type: item?.type || 'page',
+      target_id: item?.target_id || '',
+      url: item?.url || '',
+      open_in_new_tab: item?.open_in_new_tab ?? false,
+    },
+  })
+
+  const type = useWatch({ control, name: 'type' })
+
+  // categories, tags and pages are picked from a list, posts are searched (see CustomFieldInput)
+  const options =
+    type === 'url' || type === 'post'
+      ? []
+      : [...targets[type].values()].sort((a, b) => a.title.localeCompare(b.title))
+
+  const onSubmit = (data: MenuItemFormData) => {
+    onSave({
+      label: data.label,
+      type: data.type,
+      target_id: data.type === 'url' ? null : data.target_id,
+      url: data.type === 'url' ? data.url : null,
+      open_in_new_tab: data.open_in_new_tab,
+    })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogClose onClose={() => onOpenChange(false)} />
+        <DialogHeader>
+          <DialogTitle>{isEditMode ? 'Edit Menu Item' : 'Add Menu Item'}</DialogTitle>
+          <DialogDescription>
+            Links to posts, categories, tags and pages follow their current slug, so they keep working after renames.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {/* Type */}
+          <div className="space-y-2">
+            <label htmlFor="type" className="text-sm font-medium text-gray-700">
+              Link To <span className="text-red-500">*</span>
+            </label>
+            <select
+              id="type"
+              {...register('type', {
+                // the selected entry belongs to the previous type
+                onChange: () => setValue('target_id', ''),
+              })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Object.entries(menuItemTypeLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Target */}
+          {type === 'url' ? (
+            <div className="space-y-2">
+              <label htmlFor="url" className="text-sm font-medium text-gray-700">
+                URL <span className="text-red-500">*</span>
+              </label>
+              <Input
+                id="url"
+                type="text"
+                placeholder="https://example.com or /contact"
+                {...register('url')}
+                className={errors.url ? 'border-red-500' : ''}
+              />
+              {errors.url && (
+                <p className="text-sm text-red-500">{errors.url.message}</p>
+              )}
+            </div>
+          ) : type === 'post' ? (
+            <Controller
+              name="target_id"
+              control={control}
+              render={({ field: { value, onChange } }) => (
+                <CustomFieldInput
+                  companyId={companyId}
+                  field={{ key: 'menu_item_post', label: 'Post', type: 'relation', required: true }}
+                  value={value}
+                  onChange={(newValue) => onChange(typeof newValue === 'string' ? newValue : '')}
+                  error={errors.target_id?.message}
+                />
+              )}
+            />
+          ) : (
+            <div className="space-y-2">
+              <label htmlFor="target_id" className="text-sm font-medium text-gray-700">
+                {menuItemTypeLabels[type]} <span className="text-red-500">*</span>
+              </label>
+              <select
+                id="target_id"
+                {...register('target_id')}
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.target_id ? 'border-red-500' : 'border-gray-300'
+                }`}
+              >
+                <option value="">Select {menuItemTypeLabels[type].toLowerCase()}...</option>
+                {options.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.title}
+                  </option>
+                ))}
+              </select>
+              {errors.target_id && (
+                <p className="text-sm text-red-500">{errors.target_id.message}</p>
+              )}
+            </div>
+          )}
+
+          {/* Label */}
+          <div className="space-y-2">
+            <label htmlFor="label" className="text-sm font-medium text-gray-700">
+              Label (Optional)
+            </label>
+            <Input
+              id="label"
+              type="text"
+              placeholder={type === 'url' ? 'Defaults to the URL' : 'Defaults to the current title'}
+              {...register('label')}
+              className={errors.label ? 'border-red-500' : ''}
+            />
+            {errors.label && (
+              <p className="text-sm text-red-500">{errors.label.message}</p>
+            )}
+          </div>
+
+          {/* New tab */}
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              {...register('open_in_new_tab')}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-sm font-medium text-gray-700">Open in new tab</span>
+          </label>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">{isEditMode ? 'Update Item' : 'Add Item'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,154 @@
+// MenuModal - creates a navigation menu or renames it / moves it to another location
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { menuLocationLabels } from '@/lib/menus'
+import companyService, { type Menu } from '@/services/company/companyService'
+
+const menuSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+  location: z.string().min(1, 'Location is required'),
+})
+
+type MenuFormData = z.infer<typeof menuSchema>
+
+interface MenuModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  menu?: Menu | null // if provided, edit mode
+  // called with the saved menu after a successful create/update
+  onSaved?: (menu: Menu) => void
+}
+
+export function MenuModal({ open, onOpenChange, companyId, menu, onSaved }: MenuModalProps) {
+  const isEditMode = !!menu
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<MenuFormData>({
+    resolver: zodResolver(menuSchema),
+    defaultValues: {
+      name: menu?.name || '',
+      location: menu?.location || 'header',
+    },
+  })
+
+  const onSubmit = async (data: MenuFormData) => {
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const payload = { name: data.name.trim(), location: data.location }
+      const savedMenu = menu
+        ? await companyService.updateMenu(companyId, menu.id, payload)
+        : await companyService.createMenu(companyId, { ...payload, items: [] })
+
+      onSaved?.(savedMenu)
+      onOpenChange(false)
+    } catch (err: unknown) {
+      console.error(`Failed to ${isEditMode ? 'update' : 'create'} menu:`, err)
+      if (err instanceof Error) {
+        setError(err.message)
+      } else {
+        setError(`Failed to ${isEditMode ? 'update' : 'create'} menu. Please try again.`)
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      setError(null)
+      onOpenChange(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md">
+        <DialogClose onClose={handleClose} />
+        <DialogHeader>
+          <DialogTitle>{isEditMode ? 'Edit Menu' : 'Create Menu'}</DialogTitle>
+          <DialogDescription>The location decides where the company site renders the menu.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {/* Name */}
+          <div className="space-y-2">
+            <label htmlFor="name" className="text-sm font-medium text-gray-700">
+              Name <span className="text-red-500">*</span>
+            </label>
+            <Input
+              id="name"
+              type="text"
+              placeholder="e.g. Main Navigation"
+              {...register('name')}
+              className={errors.name ? 'border-red-500' : ''}
+            />
+            {errors.name && (
+              <p className="text-sm text-red-500">{errors.name.message}</p>
+            )}
+          </div>
+
+          {/* Location */}
+          <div className="space-y-2">
+            <label htmlFor="location" className="text-sm font-medium text-gray-700">
+              Location <span className="text-red-500">*</span>
+            </label>
+            <select
+              id="location"
+              {...register('location')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Object.entries(menuLocationLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting
+                ? isEditMode
+                  ? 'Updating...'
+                  : 'Creating...'
+                : isEditMode
+                  ? 'Update Menu'
+                  : 'Create Menu'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,305 @@
+// MergeTermsModal - merges duplicate tags or categories into one target term
+// Steps: pick sources and target, preview affected posts, move posts, delete sources and record redirects
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import type { BlogPost, Category, Tag } from '@/services/blog/blogService'
+import { runBulk, type BulkResult } from '@/lib/bulk'
+import {
+  completeTermMerge,
+  createTermReassignOperation,
+  previewTermMerge,
+  type TermMergePreview,
+  type TermType,
+} from '@/lib/termMerge'
+
+interface MergeTermsModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  type: TermType
+  terms: (Category | Tag)[] // all terms of the type
+  initialSourceId: string // term the merge was started from
+  // called when the dialog is closed after a merge ran (also when some posts failed)
+  onComplete?: () => void
+}
+
+type Phase = 'select' | 'loading' | 'preview' | 'running' | 'done'
+
+// number of post titles listed in the preview
+const PREVIEW_TITLE_LIMIT = 5
+
+export function MergeTermsModal({
+  open,
+  onOpenChange,
+  companyId,
+  type,
+  terms,
+  initialSourceId,
+  onComplete,
+}: MergeTermsModalProps) {
+  const [phase, setPhase] = useState<Phase>('select')
+  const [sourceIds, setSourceIds] = useState<string[]>([initialSourceId])
+  const [targetId, setTargetId] = useState('')
+  const [preview, setPreview] = useState<TermMergePreview | null>(null)
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [result, setResult] = useState<BulkResult<BlogPost> | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const label = type === 'category' ? 'category' : 'tag'
+  const pluralLabel = type === 'category' ? 'categories' : 'tags'
+  const sources = terms.filter((term) => sourceIds.includes(term.id))
+  const target = terms.find((term) => term.id === targetId)
+  const isBusy = phase === 'loading' || phase === 'running'
+
+  const toggleSource = (termId: string) => {
+    setSourceIds((current) =>
+      current.includes(termId) ? current.filter((id) => id !== termId) : [...current, termId]
+    )
+    if (termId === targetId) setTargetId('')
+    setError(null)
+  }
+
+  const handlePreview = async () => {
+    if (sourceIds.length === 0) {
+      setError(`Select at least one ${label} to merge.`)
+      return
+    }
+    if (!targetId) {
+      setError(`Select the ${label} to merge into.`)
+      return
+    }
+
+    setPhase('loading')
+    setError(null)
+    try {
+      setPreview(await previewTermMerge(companyId, type, sourceIds))
+      setPhase('preview')
+    } catch (err) {
+      console.error('Failed to load affected posts:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load affected posts. Please try again.')
+      setPhase('select')
+    }
+  }
+
+  const handleMerge = async () => {
+    if (!preview || !target) return
+
+    setPhase('running')
+    setError(null)
+    setProgress({ done: 0, total: preview.posts.length })
+    const bulkResult = await runBulk(preview.posts, createTermReassignOperation(companyId, type, sourceIds, targetId), {
+      onProgress: (done, total) => setProgress({ done, total }),
+    })
+    setResult(bulkResult)
+
+    // sources are kept while posts still reference them
+    if (bulkResult.failed.length === 0) {
+      try {
+        await completeTermMerge(companyId, type, sources, target, type === 'category' ? (terms as Category[]) : [])
+      } catch (err) {
+        console.error('Failed to remove merged terms:', err)
+        setError(
+          err instanceof Error
+            ? `Posts were moved, but removing the merged ${pluralLabel} failed: ${err.message}`
+            : `Posts were moved, but removing the merged ${pluralLabel} failed.`
+        )
+      }
+    }
+    setPhase('done')
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    // keep the dialog open while requests are running
+    if (!isBusy) {
+      onOpenChange(newOpen)
+      // the list is refreshed once the report was seen
+      if (!newOpen && phase === 'done') onComplete?.()
+    }
+  }
+
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl">Merge {pluralLabel}</DialogTitle>
+          <DialogDescription className="pt-2">
+            Posts of the selected {pluralLabel} are moved to the target {label}. The merged {pluralLabel} are deleted
+            and their URLs redirect to the target.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Source and target selection */}
+        {(phase === 'select' || phase === 'loading') && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Merge these {pluralLabel}</p>
+              <div className="max-h-48 overflow-y-auto p-2 border border-gray-300 rounded-md space-y-1">
+                {terms.map((term) => (
+                  <label key={term.id} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={sourceIds.includes(term.id)}
+                      onChange={() => toggleSource(term.id)}
+                      disabled={phase === 'loading'}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-sm text-gray-700">{term.name}</span>
+                    <span className="text-xs text-gray-400">/{term.slug}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="merge-target" className="text-sm font-medium text-gray-700">
+                Into
+              </label>
+              <select
+                id="merge-target"
+                value={targetId}
+                onChange={(e) => {
+                  setTargetId(e.target.value)
+                  setError(null)
+                }}
+                disabled={phase === 'loading'}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Select a {label}...</option>
+                {terms
+                  .filter((term) => !sourceIds.includes(term.id))
+                  .map((term) => (
+                    <option key={term.id} value={term.id}>
+                      {term.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {/* Preview of affected posts */}
+        {phase === 'preview' && preview && target && (
+          <div className="space-y-3">
+            <div className="flex items-start gap-3 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+              <AlertTriangle className="w-5 h-5 text-yellow-600 shrink-0" />
+              <p className="text-sm text-yellow-900">
+                {preview.posts.length} {preview.posts.length === 1 ? 'post' : 'posts'} will be moved to "{target.name}"
+                and {sources.length} {sources.length === 1 ? label : pluralLabel} will be deleted. This action cannot be
+                undone.
+              </p>
+            </div>
+            <ul className="text-sm text-gray-700 space-y-1">
+              {sources.map((source) => (
+                <li key={source.id}>
+                  <span className="font-medium">{source.name}</span> - {preview.countsBySource[source.id] || 0}{' '}
+                  {preview.countsBySource[source.id] === 1 ? 'post' : 'posts'}, /{source.slug} redirects to /{target.slug}
+                </li>
+              ))}
+            </ul>
+            {preview.posts.length > 0 && (
+              <div className="text-xs text-gray-500">
+                <p className="mb-1">Affected posts:</p>
+                <ul className="list-disc pl-5">
+                  {preview.posts.slice(0, PREVIEW_TITLE_LIMIT).map((post) => (
+                    <li key={post.id}>{post.title}</li>
+                  ))}
+                  {preview.posts.length > PREVIEW_TITLE_LIMIT && (
+                    <li>and {preview.posts.length - PREVIEW_TITLE_LIMIT} more</li>
+                  )}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Progress */}
+        {(phase === 'running' || phase === 'done') && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>{phase === 'running' ? 'Moving posts...' : 'Finished'}</span>
+              <span>
+                {progress.done} / {progress.total}
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        )}
+
+        {/* Result report */}
+        {phase === 'done' && result && (
+          <div className="space-y-3">
+            {result.failed.length === 0 && !error ? (
+              <p className="flex items-center gap-2 text-sm text-gray-700">
+                <CheckCircle className="w-4 h-4 text-green-600" />
+                Merged {sources.length} {sources.length === 1 ? label : pluralLabel} into "{target?.name}".
+              </p>
+            ) : (
+              result.failed.length > 0 && (
+                <>
+                  <p className="text-sm text-gray-700">
+                    {result.failed.length} {result.failed.length === 1 ? 'post' : 'posts'} could not be moved. The
+                    source {pluralLabel} were kept - fix the posts below and merge again.
+                  </p>
+                  <div className="max-h-60 overflow-y-auto border border-red-200 rounded-md divide-y divide-red-100">
+                    {result.failed.map(({ item, error: itemError }) => (
+                      <div key={item.id} className="px-3 py-2 bg-red-50">
+                        <p className="text-sm font-medium text-gray-900">{item.title}</p>
+                        <p className="text-xs text-red-700">{itemError}</p>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-3">
+          {phase === 'done' ? (
+            <Button type="button" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+          ) : (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => (phase === 'preview' ? setPhase('select') : handleOpenChange(false))}
+                disabled={isBusy}
+              >
+                {phase === 'preview' ? 'Back' : 'Cancel'}
+              </Button>
+              {phase === 'preview' ? (
+                <Button type="button" variant="destructive" onClick={handleMerge}>
+                  Merge
+                </Button>
+              ) : (
+                <Button type="button" onClick={handlePreview} disabled={isBusy}>
+                  {phase === 'loading' ? 'Loading posts...' : phase === 'running' ? 'Merging...' : 'Preview'}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
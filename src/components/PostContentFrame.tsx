@@ -0,0 +1,77 @@
+// PostContentFrame - renders post HTML inside a sandboxed iframe
+// Content is isolated from the back office (no scripts, no same-origin access)
+// Optionally renders the featured image, categories and tags using the company theme
+import { escapeHtml } from '@/lib/blocks'
+
+interface PostContentFrameProps {
+  title: string
+  content: string // serialized HTML from BlogPost.content
+  featuredImageUrl?: string | null
+  categories?: { name: string }[]
+  tags?: { name: string }[]
+  theme?: string // company theme ('light' | 'dark'), defaults to light
+  className?: string
+}
+
+// color palettes per company theme
+const themeColors: Record<string, { background: string; text: string; muted: string; border: string; code: string; link: string }> = {
+  light: { background: '#ffffff', text: '#111827', muted: '#6b7280', border: '#d1d5db', code: '#f3f4f6', link: '#2563eb' },
+  dark: { background: '#111827', text: '#f9fafb', muted: '#9ca3af', border: '#374151', code: '#1f2937', link: '#60a5fa' },
+}
+
+// minimal reading styles so the preview resembles a rendered article
+const getFrameStyles = (theme: string) => {
+  const colors = themeColors[theme] || themeColors.light
+  return `
+  body { font-family: system-ui, -apple-system, sans-serif; line-height: 1.7; color: ${colors.text}; background: ${colors.background}; margin: 0; padding: 24px; }
+  article { max-width: 720px; margin: 0 auto; }
+  h1 { font-size: 2rem; line-height: 1.2; margin: 0 0 1rem; }
+  h2, h3, h4 { line-height: 1.3; margin: 2rem 0 1rem; }
+  img { max-width: 100%; height: auto; border-radius: 4px; }
+  .featured { width: 100%; max-height: 420px; object-fit: cover; margin-bottom: 1.5rem; }
+  .terms { display: flex; flex-wrap: wrap; gap: 6px; margin: 0 0 1.5rem; padding: 0; list-style: none; }
+  .terms li { font-size: 0.75rem; padding: 2px 10px; border: 1px solid ${colors.border}; border-radius: 999px; color: ${colors.muted}; }
+  .terms li.tag::before { content: '#'; }
+  figure { margin: 1.5rem 0; }
+  figcaption { font-size: 0.875rem; color: ${colors.muted}; margin-top: 0.5rem; }
+  blockquote { border-left: 4px solid ${colors.border}; margin: 1.5rem 0; padding-left: 1rem; font-style: italic; }
+  blockquote cite { display: block; font-size: 0.875rem; color: ${colors.muted}; margin-top: 0.5rem; }
+  pre { background: ${colors.code}; padding: 1rem; border-radius: 4px; overflow-x: auto; }
+  a { color: ${colors.link}; }
+`
+}
+
+// list of taxonomy terms as pills
+const renderTerms = (terms: { name: string }[], className: string) =>
+  terms.map((term) => `<li class="${className}">${escapeHtml(term.name)}</li>`).join('')
+
+export function PostContentFrame({
+  title,
+  content,
+  featuredImageUrl,
+  categories = [],
+  tags = [],
+  theme = 'light',
+  className,
+}: PostContentFrameProps) {
+  const featuredImage = featuredImageUrl
+    ? `<img class="featured" src="${escapeHtml(featuredImageUrl)}" alt="${escapeHtml(title)}" />`
+    : ''
+  const terms =
+    categories.length > 0 || tags.length > 0
+      ? `<ul class="terms">${renderTerms(categories, 'category')}${renderTerms(tags, 'tag')}</ul>`
+      : ''
+
+  const srcDoc = `<!doctype html><html><head><meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1" /><style>${getFrameStyles(
+    theme
+  )}</style></head><body><article>${featuredImage}<h1>${escapeHtml(title)}</h1>${terms}${content}</article></body></html>`
+
+  return (
+    <iframe
+      title={title || 'Post content'}
+      srcDoc={srcDoc}
+      sandbox=""
+      className={className || 'w-full min-h-[70vh] border-0 bg-white'}
+    />
+  )
+}
@@ -0,0 +1,1363 @@
+// PostForm - shared post editing form used by PostModal and the full-page post editor
+// Two-column layout: title and content on the left; status, featured image, taxonomy and SEO panels on the right
+// Handles both create and edit modes based on whether 'post' prop is provided
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { useForm, Controller } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import blogService, {
+  type CreateBlogPostPayload,
+  type UpdateBlogPostPayload,
+  type BlogPost,
+  type Category,
+  type Tag,
+  type Taxonomy,
+  type TaxonomyTerm,
+} from '@/services/blog/blogService'
+import { MediaSelectorModal } from '@/components/MediaSelectorModal'
+import { BlockEditor } from '@/components/BlockEditor'
+import { LocalDraftNotice, type DraftDiffField } from '@/components/LocalDraftNotice'
+import draftStore, { getDraftKey, type LocalDraft } from '@/lib/draftStore'
+import { fromDateTimeLocalValue, toDateTimeLocalValue } from '@/lib/schedule'
+import { getSelectableStatuses, statusLabels } from '@/lib/workflow'
+import { SerpPreview } from '@/components/SerpPreview'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCompany } from '@/hooks/useCompany'
+import { getLengthStatus, getSiteUrl, seoLimits, type LengthStatus } from '@/lib/seo'
+import { generateExcerpt, stripHtml } from '@/lib/text'
+import { loadPostTemplates, type PostTemplate, type PostTemplateValues } from '@/lib/postTemplates'
+import { SavePostTemplateModal } from '@/components/SavePostTemplateModal'
+import { SlugStatusHint } from '@/components/SlugStatusHint'
+import { TagInput } from '@/components/TagInput'
+import { TaxonomyTermPicker } from '@/components/TaxonomyTermPicker'
+import { CustomFieldInput } from '@/components/CustomFieldInput'
+import {
+  buildCustomFieldsSchema,
+  customFieldFormValuesSchema,
+  loadCustomFields,
+  toCustomFieldFormValues,
+  toCustomFieldValues,
+  type CustomFieldDefinition,
+} from '@/lib/customFields'
+import { useSlugAvailability } from '@/hooks/useSlugAvailability'
+import { slugify, slugSchema } from '@/lib/slug'
+import { toast } from '@/lib/toast'
+import type { MediaItem } from '@/services/media/mediaService'
+import mediaService from '@/services/media/mediaService'
+import { Image as ImageIcon, LayoutTemplate, X } from 'lucide-react'
+
+// unified schema for both create and edit
+const postSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(200, 'Title must be 200 characters or less'),
+  slug: slugSchema(), // backend auto-generates when empty
+  content: z.string().min(1, 'Content is required'), // serialized HTML from BlockEditor
+  excerpt: z.string().max(500, 'Excerpt must be 500 characters or less').optional(),
+  status: z.enum(['draft', 'in_review', 'changes_requested', 'scheduled', 'published'], { message: 'Invalid status' }),
+  published_at: z.string().optional(), // datetime-local value, only used for scheduled posts
+  allow_comments: z.boolean(), // required boolean
+  breaking: z.boolean(), // required boolean
+  categoryIds: z.array(z.string()).optional(),
+  tagIds: z.array(z.string()).optional(),
+  termIds: z.array(z.string()).optional(), // custom taxonomy terms (all taxonomies)
+  meta_title: z.string().optional(),
+  meta_description: z.string().optional(),
+  canonical_url: z.union([z.literal(''), z.url({ message: 'Canonical URL must be a valid URL' })]).optional(),
+  robots_noindex: z.boolean(),
+  custom_fields: customFieldFormValuesSchema.optional(), // company-defined fields by key
+})
+
+type PostFormData = z.infer<typeof postSchema>
+
+// post schema extended with the schedule check and the validation of the company's custom fields
+// the loaded post (edit mode) is compared against so that keeping its slug or an already passed schedule does not block saving
+function getPostSchema(customFields: CustomFieldDefinition[], post?: BlogPost | null) {
+  const storedPublishAt = post?.status === 'scheduled' ? toDateTimeLocalValue(post.published_at) : null
+  const customFieldsSchema = customFields.length > 0 ? buildCustomFieldsSchema(customFields) : null
+  return postSchema.extend({ slug: slugSchema(post?.slug) }).superRefine((data, ctx) => {
+    // scheduled posts need a publish date, in the future unless it is the loaded schedule
+    if (data.status === 'scheduled') {
+      const publishAt = fromDateTimeLocalValue(data.published_at)
+      if (!publishAt) {
+        ctx.addIssue({ code: 'custom', path: ['published_at'], message: 'Publish date is required for scheduled posts' })
+      } else if (data.published_at !== storedPublishAt && new Date(publishAt).getTime() <= Date.now()) {
+        ctx.addIssue({ code: 'custom', path: ['published_at'], message: 'Publish date must be in the future' })
+      }
+    }
+
+    if (!customFieldsSchema) return
+    const result = customFieldsSchema.safeParse(data.custom_fields || {})
+    if (result.success) return
+    result.error.issues.forEach((issue) => {
+      ctx.addIssue({ code: 'custom', path: ['custom_fields', ...issue.path], message: issue.message })
+    })
+  })
+}
+
+// form state kept in the local draft store (featured image lives outside the form)
+type PostDraftValues = PostFormData & { featured_image_url: string | null }
+
+// how often unsaved changes are written to the local draft store
+const AUTOSAVE_INTERVAL_MS = 5000
+
+interface PostFormProps {
+  companyId: string
+  post?: BlogPost | null // if provided, edit mode; if null/undefined, create mode
+  // called with the saved post after a successful create/update
+  onSuccess?: (post: BlogPost) => void
+  onCancel: () => void
+  // notifies the parent while a save is in progress (e.g. to block closing a dialog)
+  onSubmittingChange?: (isSubmitting: boolean) => void
+  // 'modal' fits the form into a fixed-height dialog, 'page' lets it grow with the page
+  variant?: 'modal' | 'page'
+}
+
+// build form values from a post (or empty defaults for create mode)
+function getFormValues(post?: BlogPost | null): PostFormData {
+  return {
+    title: post?.title || '',
+    slug: post?.slug || '',
+    content: post?.content || '',
+    excerpt: post?.excerpt || '',
+    status: post?.status || 'draft',
+    published_at: post?.status === 'scheduled' ? toDateTimeLocalValue(post.published_at) : '',
+    allow_comments: post?.allow_comments ?? false, // default to false if not set
+    breaking: post?.breaking ?? false, // default to false if not set
+    categoryIds: (post?.categories || []).map((c) => c.id),
+    tagIds: (post?.tags || []).map((t) => t.id),
+    termIds: (post?.terms || []).map((t) => t.id),
+    meta_title: post?.meta_title || '',
+    meta_description: post?.meta_description || '',
+    canonical_url: post?.canonical_url || '',
+    robots_noindex: post?.robots_noindex ?? false,
+    custom_fields: toCustomFieldFormValues(post?.custom_fields),
+  }
+}
+
+// draft values for a post as stored on the server (baseline to detect local changes)
+function getServerDraftValues(post?: BlogPost | null): PostDraftValues {
+  return { ...getFormValues(post), featured_image_url: post?.featured_image_url || null }
+}
+
+// character counter with length guidance for meta fields
+const lengthHints: Record<LengthStatus, { className: string; text: string }> = {
+  empty: { className: 'text-gray-500', text: 'Using fallback' },
+  short: { className: 'text-yellow-600', text: 'Too short' },
+  good: { className: 'text-green-600', text: 'Good length' },
+  long: { className: 'text-red-600', text: 'Will be truncated' },
+}
+
+function LengthHint({ length, limits }: { length: number; limits: { min: number; max: number } }) {
+  const hint = lengthHints[getLengthStatus(length, limits)]
+  return (
+    <p className={`text-xs ${hint.className}`}>
+      {length} / {limits.min}-{limits.max} characters · {hint.text}
+    </p>
+  )
+}
+
+// sidebar panel wrapper for the right column
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="border border-gray-200 rounded-md mb-4">
+      <h3 className="px-3 py-2 border-b border-gray-200 bg-gray-50 text-xs font-semibold text-gray-600 uppercase tracking-wider">
+        {title}
+      </h3>
+      <div className="p-3 space-y-4">{children}</div>
+    </section>
+  )
+}
+
+export function PostForm({
+  companyId,
+  post,
+  onSuccess,
+  onCancel,
+  onSubmittingChange,
+  variant = 'modal',
+}: PostFormProps) {
+  const isEditMode = !!post
+  const { user } = useAuth()
+  // only offer statuses the user may move this post to
+  const statusOptions = getSelectableStatuses(user, post?.status || 'draft')
+  // new tags (and terms of flat custom taxonomies) can be created right from the tag input
+  const canCreateTags = user?.permissions?.includes('blog.create') ?? false
+  // templates are stored in the company settings
+  const canSaveTemplates = user?.permissions?.includes('company.update') ?? false
+
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [categories, setCategories] = useState<Category[]>([])
+  const [tags, setTags] = useState<Tag[]>([])
+  const [isLoadingCategories, setIsLoadingCategories] = useState(false)
+  const [isLoadingTags, setIsLoadingTags] = useState(false)
+  // custom taxonomies of the company with their terms (one picker each)
+  const [customTaxonomies, setCustomTaxonomies] = useState<{ taxonomy: Taxonomy; terms: TaxonomyTerm[] }[]>([])
+  // custom field definitions of the company (rendered in their own panel)
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([])
+  const resolver = useMemo(() => zodResolver(getPostSchema(customFields, post)), [customFields, post])
+  // media selector state
+  const [isMediaSelectorOpen, setIsMediaSelectorOpen] = useState(false)
+  const [featuredImage, setFeaturedImage] = useState<MediaItem | null>(null)
+  const [featuredImageUrl, setFeaturedImageUrl] = useState<string | null>(null)
+  const [isLoadingFeaturedImage, setIsLoadingFeaturedImage] = useState(false)
+  // local draft recovery - autosave starts once the stored draft for this key has been checked
+  const draftKey = getDraftKey(companyId, post?.id)
+  const [localDraft, setLocalDraft] = useState<LocalDraft<PostDraftValues> | null>(null)
+  const [checkedDraftKey, setCheckedDraftKey] = useState<string | null>(null)
+  const lastAutosaveRef = useRef<string | null>(null)
+  // post templates (offered in create mode)
+  const [templates, setTemplates] = useState<PostTemplate[]>([])
+  const [selectedTemplateId, setSelectedTemplateId] = useState('')
+  const [templateValues, setTemplateValues] = useState<PostTemplateValues | null>(null)
+  // new posts derive the slug from the title until the slug is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(isEditMode)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+    setValue,
+    getValues,
+    control,
+  } = useForm<PostFormData>({
+    resolver,
+    defaultValues: getFormValues(post),
+  })
+
+  // watch selected categories and tags
+  const selectedCategoryIds = watch('categoryIds') || []
+  const selectedTagIds = watch('tagIds') || []
+  const selectedTermIds = watch('termIds') || []
+  const status = watch('status')
+  // live values for the search result preview
+  const { selectedCompany } = useCompany()
+  const [watchedTitle, watchedSlug, watchedContent, watchedExcerpt, metaTitle, metaDescription, robotsNoindex] = watch([
+    'title',
+    'slug',
+    'content',
+    'excerpt',
+    'meta_title',
+    'meta_description',
+    'robots_noindex',
+  ])
+  const slugStatus = useSlugAvailability(
+    watchedSlug,
+    async (slug) => (await blogService.checkSlug(companyId, slug, post?.id)).available,
+    post?.slug
+  )
+  // published posts keep their old URL working through a redirect
+  const willCreateRedirect =
+    post?.status === 'published' && !!watchedSlug?.trim() && watchedSlug.trim() !== post.slug
+
+  // reset form when post changes (for edit mode)
+  useEffect(() => {
+    reset(getFormValues(post))
+
+    // load featured image if exists
+    if (post?.featured_image_url) {
+      loadFeaturedImageFromUrl(post.featured_image_url)
+    } else {
+      setFeaturedImage(null)
+      setFeaturedImageUrl(null)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [post, reset])
+
+  // look for an unsaved local draft when the editor opens
+  useEffect(() => {
+    let cancelled = false
+
+    draftStore
+      .get<PostDraftValues>(draftKey)
+      .then((draft) => {
+        if (cancelled) return
+        // drafts identical to the server version are leftovers from a successful save
+        if (draft && JSON.stringify(draft.values) !== JSON.stringify(getServerDraftValues(post))) {
+          setLocalDraft(draft)
+        } else {
+          setLocalDraft(null)
+          if (draft) draftStore.remove(draftKey).catch(() => {})
+        }
+      })
+      .catch((err) => console.error('Failed to load local draft:', err))
+      .finally(() => {
+        if (!cancelled) setCheckedDraftKey(draftKey)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [draftKey, post])
+
+  // autosave form state while the user types
+  // paused until the stored draft was checked and, if one exists, restored or discarded
+  const isAutosaveActive = checkedDraftKey === draftKey && !localDraft
+  useEffect(() => {
+    if (!isAutosaveActive) return
+
+    const timer = window.setInterval(() => {
+      const values: PostDraftValues = { ...getValues(), featured_image_url: featuredImage?.file_url || null }
+      const serialized = JSON.stringify(values)
+      // skip unchanged forms and forms matching the server version
+      if (serialized === lastAutosaveRef.current || serialized === JSON.stringify(getServerDraftValues(post))) {
+        return
+      }
+      lastAutosaveRef.current = serialized
+      draftStore
+        .save<PostDraftValues>({
+          key: draftKey,
+          values,
+          saved_at: new Date().toISOString(),
+          base_updated_at: post?.updated_at || null,
+        })
+        .catch((err) => console.error('Failed to autosave draft:', err))
+    }, AUTOSAVE_INTERVAL_MS)
+
+    return () => window.clearInterval(timer)
+  }, [isAutosaveActive, draftKey, post, featuredImage, getValues])
+
+  // load the company's post templates for new posts
+  useEffect(() => {
+    if (isEditMode || !companyId) return
+
+    let cancelled = false
+    loadPostTemplates(companyId)
+      .then((companyTemplates) => {
+        if (!cancelled) setTemplates(companyTemplates)
+      })
+      .catch((err) => console.error('Failed to load post templates:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [isEditMode, companyId])
+
+  // fill the form from a template (status, slug and SEO fields keep their current values)
+  const handleApplyTemplate = (templateId: string) => {
+    setSelectedTemplateId(templateId)
+    const template = templates.find((item) => item.id === templateId)
+    if (!template) return
+
+    reset({
+      ...getValues(),
+      title: template.title,
+      slug: isSlugEdited ? getValues('slug') : slugify(template.title),
+      content: template.content,
+      excerpt: template.excerpt || '',
+      categoryIds: template.category_ids,
+      tagIds: template.tag_ids,
+    })
+    if (template.featured_image_url) {
+      loadFeaturedImageFromUrl(template.featured_image_url)
+    } else {
+      setFeaturedImage(null)
+      setFeaturedImageUrl(null)
+    }
+  }
+
+  // open the save-as-template dialog with the current form values
+  const handleSaveAsTemplate = () => {
+    const values = getValues()
+    setTemplateValues({
+      title: values.title,
+      content: values.content,
+      excerpt: values.excerpt || '',
+      featured_image_url: featuredImage?.file_url || null,
+      category_ids: values.categoryIds || [],
+      tag_ids: values.tagIds || [],
+    })
+  }
+
+  // fill the excerpt from the first paragraphs of the content
+  const handleGenerateExcerpt = () => {
+    setValue('excerpt', generateExcerpt(getValues('content')), { shouldDirty: true, shouldValidate: true })
+  }
+
+  // apply the local draft to the form
+  const handleRestoreDraft = () => {
+    if (!localDraft) return
+    const { featured_image_url: draftImageUrl, ...values } = localDraft.values
+    reset(values)
+    if (draftImageUrl) {
+      loadFeaturedImageFromUrl(draftImageUrl)
+    } else {
+      setFeaturedImage(null)
+      setFeaturedImageUrl(null)
+    }
+    setLocalDraft(null)
+  }
+
+  // throw the local draft away and keep the server version
+  const handleDiscardDraft = () => {
+    setLocalDraft(null)
+    lastAutosaveRef.current = null
+    draftStore.remove(draftKey).catch((err) => console.error('Failed to discard local draft:', err))
+  }
+
+  // fields compared in the draft recovery diff
+  const getDraftDiffFields = (draft: LocalDraft<PostDraftValues>): DraftDiffField[] => {
+    const server = getServerDraftValues(post)
+    const local = draft.values
+    // taxonomy ids as one name per line
+    const termNames = (ids: string[] | undefined, terms: { id: string; name: string }[]) =>
+      (ids || [])
+        .map((id) => terms.find((term) => term.id === id)?.name || id)
+        .sort((a, b) => a.localeCompare(b))
+        .join('\n')
+    // custom field values as "Label: value" lines
+    const customFieldLines = (values: PostFormData['custom_fields']) =>
+      customFields
+        .filter((field) => values?.[field.key] !== undefined && values[field.key] !== '')
+        .map((field) => `${field.label}: ${values?.[field.key]}`)
+        .join('\n')
+
+    return [
+      { label: 'Title', server: server.title, local: local.title },
+      { label: 'Slug', server: server.slug, local: local.slug },
+      { label: 'Status', server: server.status, local: local.status },
+      { label: 'Content', server: server.content, local: local.content, monospace: true },
+      { label: 'Excerpt', server: server.excerpt, local: local.excerpt },
+      { label: 'Featured Image', server: server.featured_image_url, local: local.featured_image_url },
+      { label: 'Categories', server: termNames(server.categoryIds, categories), local: termNames(local.categoryIds, categories) },
+      { label: 'Tags', server: termNames(server.tagIds, tags), local: termNames(local.tagIds, tags) },
+      {
+        label: 'Custom Taxonomies',
+        server: termNames(server.termIds, customTaxonomies.flatMap(({ terms }) => terms)),
+        local: termNames(local.termIds, customTaxonomies.flatMap(({ terms }) => terms)),
+      },
+      {
+        label: 'Custom Fields',
+        server: customFieldLines(server.custom_fields),
+        local: customFieldLines(local.custom_fields),
+      },
+      { label: 'Meta Title', server: server.meta_title, local: local.meta_title },
+      { label: 'Meta Description', server: server.meta_description, local: local.meta_description },
+      { label: 'Canonical URL', server: server.canonical_url, local: local.canonical_url },
+    ]
+  }
+
+  // fetch categories and tags when form mounts or company changes
+  useEffect(() => {
+    if (companyId) {
+      fetchCategories()
+      fetchTags()
+      fetchCustomTaxonomies()
+      fetchCustomFields()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [companyId])
+
+  const fetchCategories = async () => {
+    setIsLoadingCategories(true)
+    try {
+      const categoriesData = await blogService.getCategories(companyId)
+      setCategories(categoriesData)
+    } catch (err) {
+      console.error('Failed to fetch categories:', err)
+    } finally {
+      setIsLoadingCategories(false)
+    }
+  }
+
+  const fetchTags = async () => {
+    setIsLoadingTags(true)
+    try {
+      const tagsData = await blogService.getTags(companyId)
+      setTags(tagsData)
+    } catch (err) {
+      console.error('Failed to fetch tags:', err)
+    } finally {
+      setIsLoadingTags(false)
+    }
+  }
+
+  const fetchCustomTaxonomies = async () => {
+    try {
+      const taxonomies = await blogService.getTaxonomies(companyId)
+      const withTerms = await Promise.all(
+        [...taxonomies]
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(async (taxonomy) => ({ taxonomy, terms: await blogService.getTaxonomyTerms(companyId, taxonomy.id) }))
+      )
+      setCustomTaxonomies(withTerms)
+    } catch (err) {
+      console.error('Failed to fetch custom taxonomies:', err)
+    }
+  }
+
+  const fetchCustomFields = async () => {
+    try {
+      setCustomFields(await loadCustomFields(companyId))
+    } catch (err) {
+      console.error('Failed to fetch custom fields:', err)
+    }
+  }
+
+  // create a term of a flat custom taxonomy from its picker
+  const handleCreateTerm = async (taxonomy: Taxonomy, name: string) => {
+    const term = await blogService.createTaxonomyTerm(companyId, taxonomy.id, { name, slug: slugify(name) })
+    setCustomTaxonomies((current) =>
+      current.map((entry) => (entry.taxonomy.id === taxonomy.id ? { ...entry, terms: [...entry.terms, term] } : entry))
+    )
+    return term
+  }
+
+  // load featured image metadata from URL (for edit mode)
+  const loadFeaturedImageFromUrl = async (imageUrl: string) => {
+    if (!companyId) return
+
+    setIsLoadingFeaturedImage(true)
+    try {
+      // try to find the media item by URL
+      // note: this is a simplified approach - in production, you might want
+      // to store media ID in the post instead of just URL
+      const response = await mediaService.listMedia(companyId, {
+        limit: 100, // get more items to search through
+      })
+
+      // backend returns data in 'data' field
+      const mediaArray = response.data || []
+      const foundMedia = mediaArray.find((m: MediaItem) => m.file_url === imageUrl)
+      if (foundMedia) {
+        setFeaturedImage(foundMedia)
+        // fetch presigned URL for preview
+        if (foundMedia.file_type === 'image' && companyId) {
+          try {
+            const urlResponse = await mediaService.getDownloadUrl(companyId, foundMedia.file_key, 3600)
+            setFeaturedImageUrl(urlResponse.downloadUrl)
+          } catch (err) {
+            console.error('Failed to get preview URL:', err)
+            setFeaturedImageUrl(foundMedia.file_url) // fallback
+          }
+        } else {
+          setFeaturedImageUrl(foundMedia.file_url)
+        }
+      } else {
+        // if not found in media library, create a minimal MediaItem object
+        // this handles cases where the image was uploaded before media library existed
+        const fallbackMedia: MediaItem = {
+          id: '',
+          company_id: companyId,
+          file_key: '',
+          file_name: 'Featured Image',
+          file_url: imageUrl,
+          file_type: 'image',
+          mime_type: 'image/*',
+          file_size: 0,
+          width: null,
+          height: null,
+          duration: null,
+          uploaded_by: '',
+          alt_text: null,
+          created_at: '',
+          updated_at: '',
+        }
+        setFeaturedImage(fallbackMedia)
+        setFeaturedImageUrl(imageUrl) // use direct URL for fallback
+      }
+    } catch (err) {
+      console.error('Failed to load featured image:', err)
+      // still set a minimal object so the UI can display it
+      setFeaturedImage({
+        id: '',
+        company_id: companyId,
+        file_key: '',
+        file_name: 'Featured Image',
+        file_url: imageUrl,
+        file_type: 'image',
+        mime_type: 'image/*',
+        file_size: 0,
+        width: null,
+        height: null,
+        duration: null,
+        uploaded_by: '',
+        alt_text: null,
+        created_at: '',
+        updated_at: '',
+      })
+      setFeaturedImageUrl(imageUrl)
+    } finally {
+      setIsLoadingFeaturedImage(false)
+    }
+  }
+
+  const toggleCategory = (categoryId: string) => {
+    const current = selectedCategoryIds
+    if (current.includes(categoryId)) {
+      setValue('categoryIds', current.filter((id) => id !== categoryId))
+    } else {
+      setValue('categoryIds', [...current, categoryId])
+    }
+  }
+
+  // create a tag from the tag input and keep it in the local list
+  const handleCreateTag = async (name: string) => {
+    const tag = await blogService.createTag(companyId, { name, slug: slugify(name) })
+    setTags((current) => [...current, tag])
+    return tag
+  }
+
+  const setSubmitting = (value: boolean) => {
+    setIsSubmitting(value)
+    onSubmittingChange?.(value)
+  }
+
+  const onSubmit = async (data: PostFormData) => {
+    if (slugStatus === 'taken') {
+      setError('The slug is already used by another post. Please choose a different slug.')
+      return
+    }
+
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      let savedPost: BlogPost
+
+      if (isEditMode && post) {
+        // edit mode - update existing post
+        const payload: UpdateBlogPostPayload = {
+          title: data.title.trim(),
+          content: data.content.trim(),
+          status: data.status,
+        }
+
+        // scheduled posts carry their publish date; drafts clear any previous schedule
+        if (data.status === 'scheduled') {
+          payload.published_at = fromDateTimeLocalValue(data.published_at)
+        } else if (data.status === 'draft') {
+          payload.published_at = null
+        }
+
+        // include slug if provided
+        if (data.slug && data.slug.trim()) {
+          payload.slug = data.slug.trim()
+        }
+
+        // include allow_comments and breaking flags
+        payload.allow_comments = data.allow_comments ?? false
+        payload.breaking = data.breaking ?? false
+
+        // only include categoryIds if there are selected categories
+        if (data.categoryIds && data.categoryIds.length > 0) {
+          payload.categoryIds = data.categoryIds
+        } else {
+          payload.categoryIds = []
+        }
+
+        // only include tagIds if there are selected tags
+        if (data.tagIds && data.tagIds.length > 0) {
+          payload.tagIds = data.tagIds
+        } else {
+          payload.tagIds = []
+        }
+
+        // custom taxonomy terms (all taxonomies in one list)
+        payload.termIds = data.termIds || []
+
+        // include featured image URL if selected (use snake_case for backend)
+        if (featuredImage) {
+          payload.featured_image_url = featuredImage.file_url
+        } else {
+          payload.featured_image_url = null
+        }
+
+        // SEO fields - send null to clear
+        payload.excerpt = data.excerpt?.trim() || null
+        payload.meta_title = data.meta_title?.trim() || null
+        payload.meta_description = data.meta_description?.trim() || null
+        payload.canonical_url = data.canonical_url?.trim() || null
+        payload.robots_noindex = data.robots_noindex ?? false
+
+        // custom fields - values of fields without a definition are kept
+        if (customFields.length > 0) {
+          payload.custom_fields = toCustomFieldValues(customFields, data.custom_fields, post.custom_fields)
+        }
+
+        savedPost = await blogService.update(companyId, post.id, payload)
+
+        // keep the previous URL of a published post working
+        if (post.status === 'published' && savedPost.slug !== post.slug) {
+          try {
+            await blogService.createRedirect(companyId, { entity_type: 'post', entity_id: post.id, old_slug: post.slug })
+          } catch (err) {
+            // the post itself was saved - report the missing redirect without failing the save
+            console.error('Failed to create slug redirect:', err)
+            toast.error('Redirect not saved', `/${post.slug} will no longer lead to this post.`)
+          }
+        }
+      } else {
+        // create mode - create new post
+        const payload: CreateBlogPostPayload = {
+          title: data.title.trim(),
+          content: data.content.trim(),
+          status: data.status,
+        }
+
+        // include publish date for scheduled posts
+        if (data.status === 'scheduled') {
+          payload.published_at = fromDateTimeLocalValue(data.published_at)
+        }
+
+        // include slug if provided
+        if (data.slug && data.slug.trim()) {
+          payload.slug = data.slug.trim()
+        }
+
+        // include allow_comments and breaking flags
+        payload.allow_comments = data.allow_comments ?? false
+        payload.breaking = data.breaking ?? false
+
+        // only include categoryIds if there are selected categories
+        if (data.categoryIds && data.categoryIds.length > 0) {
+          payload.categoryIds = data.categoryIds
+        }
+
+        // only include tagIds if there are selected tags
+        if (data.tagIds && data.tagIds.length > 0) {
+          payload.tagIds = data.tagIds
+        }
+
+        // only include termIds if there are selected custom taxonomy terms
+        if (data.termIds && data.termIds.length > 0) {
+          payload.termIds = data.termIds
+        }
+
+        // include featured image URL if selected (use snake_case for backend)
+        if (featuredImage) {
+          payload.featured_image_url = featuredImage.file_url
+        }
+
+        // only include excerpt and SEO fields if they have values
+        if (data.excerpt && data.excerpt.trim()) {
+          payload.excerpt = data.excerpt.trim()
+        }
+        if (data.meta_title && data.meta_title.trim()) {
+          payload.meta_title = data.meta_title.trim()
+        }
+        if (data.meta_description && data.meta_description.trim()) {
+          payload.meta_description = data.meta_description.trim()
+        }
+        if (data.canonical_url && data.canonical_url.trim()) {
+          payload.canonical_url = data.canonical_url.trim()
+        }
+        payload.robots_noindex = data.robots_noindex ?? false
+
+        // custom fields (empty ones are sent as null)
+        if (customFields.length > 0) {
+          payload.custom_fields = toCustomFieldValues(customFields, data.custom_fields, null)
+        }
+
+        savedPost = await blogService.create(companyId, payload)
+      }
+
+      // the server now has everything, drop the local copy
+      lastAutosaveRef.current = null
+      draftStore.remove(draftKey).catch((err) => console.error('Failed to remove local draft:', err))
+
+      onSuccess?.(savedPost)
+    } catch (err: unknown) {
+      console.error(`Failed to ${isEditMode ? 'update' : 'create'} post:`, err)
+      if (err instanceof Error) {
+        setError(err.message)
+      } else {
+        setError(`Failed to ${isEditMode ? 'update' : 'create'} post. Please try again.`)
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleCancel = () => {
+    if (!isSubmitting) {
+      onCancel()
+    }
+  }
+
+  // handle media selection from media selector
+  const handleMediaSelect = async (media: MediaItem) => {
+    setFeaturedImage(media)
+    // fetch presigned URL for preview
+    if (media.file_type === 'image' && companyId) {
+      try {
+        const urlResponse = await mediaService.getDownloadUrl(companyId, media.file_key, 3600)
+        setFeaturedImageUrl(urlResponse.downloadUrl)
+      } catch (err) {
+        console.error('Failed to get preview URL:', err)
+        setFeaturedImageUrl(media.file_url) // fallback to direct URL
+      }
+    } else {
+      setFeaturedImageUrl(media.file_url)
+    }
+  }
+
+  const isPage = variant === 'page'
+
+  return (
+    <>
+      <form
+        onSubmit={handleSubmit(onSubmit)}
+        className={isPage ? 'flex flex-col' : 'flex-1 flex flex-col overflow-hidden'}
+      >
+        {/* Local draft recovery */}
+        {localDraft && (
+          <LocalDraftNotice
+            savedAt={localDraft.saved_at}
+            baseUpdatedAt={localDraft.base_updated_at}
+            serverUpdatedAt={post?.updated_at}
+            fields={getDraftDiffFields(localDraft)}
+            serverLabel={isEditMode ? 'Saved version' : 'Empty form'}
+            onRestore={handleRestoreDraft}
+            onDiscard={handleDiscardDraft}
+          />
+        )}
+
+        <div className={isPage ? 'flex gap-6 items-start' : 'flex-1 flex gap-6 overflow-hidden'}>
+          {/* Left Side: Title and Content */}
+          <div
+            className={
+              isPage
+                ? 'flex-1 min-w-0 flex flex-col space-y-4'
+                : 'flex-1 flex flex-col overflow-hidden space-y-4'
+            }
+          >
+            {/* Title */}
+            <div className="space-y-2">
+              <label htmlFor="title" className="text-sm font-medium text-gray-700">
+                Title <span className="text-red-500">*</span>
+              </label>
+              <Input
+                id="title"
+                type="text"
+                placeholder="Enter post title"
+                {...register('title', {
+                  onChange: (e) => {
+                    if (!isSlugEdited) {
+                      setValue('slug', slugify(e.target.value), { shouldValidate: true })
+                    }
+                  },
+                })}
+                className={errors.title ? 'border-red-500' : ''}
+              />
+              {errors.title && (
+                <p className="text-sm text-red-500">{errors.title.message}</p>
+              )}
+            </div>
+
+            {/* Content */}
+            <div
+              className={
+                isPage
+                  ? 'space-y-2 flex flex-col min-h-[60vh]'
+                  : 'space-y-2 flex-1 flex flex-col overflow-hidden'
+              }
+            >
+              <label className="text-sm font-medium text-gray-700">
+                Content <span className="text-red-500">*</span>
+              </label>
+              <Controller
+                name="content"
+                control={control}
+                render={({ field }) => (
+                  <BlockEditor
+                    value={field.value}
+                    onChange={field.onChange}
+                    hasError={!!errors.content}
+                  />
+                )}
+              />
+              {errors.content && (
+                <p className="text-sm text-red-500">{errors.content.message}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Right Side: Status, Featured Image, Taxonomy, SEO panels */}
+          <div
+            className={
+              isPage
+                ? 'w-80 shrink-0 sticky top-0'
+                : 'w-1/4 min-w-[250px] border-l border-gray-200 pl-6 flex flex-col overflow-y-auto'
+            }
+          >
+            {!isEditMode && templates.length > 0 && (
+              <Panel title="Template">
+                <div className="space-y-2">
+                  <select
+                    id="template"
+                    value={selectedTemplateId}
+                    onChange={(e) => handleApplyTemplate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="" disabled>
+                      Start from a template...
+                    </option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500">
+                    Replaces title, content, excerpt, featured image and taxonomy
+                  </p>
+                </div>
+              </Panel>
+            )}
+
+            <Panel title="Status">
+              {/* Status */}
+              <div className="space-y-2">
+                <label htmlFor="status" className="text-sm font-medium text-gray-700">
+                  Status <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="status"
+                  {...register('status')}
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.status ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                >
+                  {statusOptions.map((option) => (
+                    <option key={option} value={option}>
+                      {statusLabels[option]}
+                    </option>
+                  ))}
+                </select>
+                {errors.status && (
+                  <p className="text-sm text-red-500">{errors.status.message}</p>
+                )}
+                {!statusOptions.includes('published') && (
+                  <p className="text-xs text-gray-500">
+                    Submit the post for review to get it published
+                  </p>
+                )}
+              </div>
+
+              {/* Reviewer feedback */}
+              {post?.status === 'changes_requested' && post.review_comment && (
+                <div className="p-3 bg-orange-50 border border-orange-200 rounded-md">
+                  <p className="text-xs font-medium text-orange-800 mb-1">
+                    Changes requested{post.reviewed_by_name ? ` by ${post.reviewed_by_name}` : ''}
+                  </p>
+                  <p className="text-sm text-orange-900 whitespace-pre-wrap">{post.review_comment}</p>
+                </div>
+              )}
+
+              {/* Publish Date (scheduled posts only) */}
+              {status === 'scheduled' && (
+                <div className="space-y-2">
+                  <label htmlFor="published_at" className="text-sm font-medium text-gray-700">
+                    Publish Date <span className="text-red-500">*</span>
+                  </label>
+                  <Input
+                    id="published_at"
+                    type="datetime-local"
+                    min={toDateTimeLocalValue(new Date().toISOString())}
+                    {...register('published_at')}
+                    className={errors.published_at ? 'border-red-500' : ''}
+                  />
+                  {errors.published_at && (
+                    <p className="text-sm text-red-500">{errors.published_at.message}</p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    The post is published automatically at this time
+                  </p>
+                </div>
+              )}
+
+              {/* Slug */}
+              <div className="space-y-2">
+                <label htmlFor="slug" className="text-sm font-medium text-gray-700">
+                  Slug (Optional)
+                </label>
+                <div className="flex gap-2">
+                  <Input
+                    id="slug"
+                    type="text"
+                    placeholder="post-url-slug"
+                    {...register('slug', {
+                      // clearing the slug links it to the title again
+                      onChange: (e) => setIsSlugEdited(!!e.target.value),
+                    })}
+                    className={errors.slug || slugStatus === 'taken' ? 'border-red-500' : ''}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setValue('slug', slugify(getValues('title')), { shouldValidate: true })}
+                    disabled={!watchedTitle?.trim()}
+                    title="Generate slug from title"
+                  >
+                    Generate
+                  </Button>
+                </div>
+                {errors.slug ? (
+                  <p className="text-sm text-red-500">{errors.slug.message}</p>
+                ) : (
+                  <SlugStatusHint status={slugStatus} emptyText="Leave empty to auto-generate from title" />
+                )}
+                {willCreateRedirect && (
+                  <p className="text-xs text-gray-500">
+                    /{post?.slug} will redirect to the new slug
+                  </p>
+                )}
+              </div>
+
+              {/* Allow Comments */}
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    {...register('allow_comments')}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">
+                    Allow Comments
+                  </span>
+                </label>
+                <p className="text-xs text-gray-500 ml-6">
+                  Allow users to comment on this post
+                </p>
+              </div>
+
+              {/* Breaking News */}
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    {...register('breaking')}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">
+                    Breaking News
+                  </span>
+                </label>
+                <p className="text-xs text-gray-500 ml-6">
+                  Mark this post as breaking news
+                </p>
+              </div>
+            </Panel>
+
+            <Panel title="Excerpt">
+              <div className="space-y-2">
+                <textarea
+                  id="excerpt"
+                  rows={4}
+                  placeholder="Short summary shown in post listings"
+                  {...register('excerpt')}
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.excerpt ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                />
+                {errors.excerpt && (
+                  <p className="text-sm text-red-500">{errors.excerpt.message}</p>
+                )}
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-500">
+                    {watchedExcerpt?.trim() ? `${watchedExcerpt.trim().length} characters` : 'Leave empty to use the start of the content'}
+                  </p>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={handleGenerateExcerpt}
+                    disabled={!stripHtml(watchedContent)}
+                  >
+                    Generate
+                  </Button>
+                </div>
+              </div>
+            </Panel>
+
+            <Panel title="Featured Image">
+              {isLoadingFeaturedImage ? (
+                <p className="text-sm text-gray-500">Loading featured image...</p>
+              ) : featuredImage ? (
+                <div className="flex flex-col gap-3">
+                  {featuredImage.file_type === 'image' ? (
+                    <img
+                      src={featuredImageUrl || featuredImage.file_url}
+                      alt={featuredImage.alt_text || featuredImage.file_name}
+                      className="w-full aspect-square object-cover rounded"
+                      onError={(e) => {
+                        // fallback to file_url if presigned URL fails
+                        const target = e.target as HTMLImageElement
+                        if (target.src !== featuredImage.file_url) {
+                          target.src = featuredImage.file_url
+                        }
+                      }}
+                    />
+                  ) : (
+                    <div className="w-full aspect-square bg-gray-100 rounded flex items-center justify-center">
+                      <ImageIcon className="w-8 h-8 text-gray-400" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {featuredImage.file_name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {featuredImage.width && featuredImage.height
+                        ? `${featuredImage.width}×${featuredImage.height}`
+                        : 'Media file'}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setFeaturedImage(null)
+                      setFeaturedImageUrl(null)
+                    }}
+                    className="w-full"
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsMediaSelectorOpen(true)}
+                  className="w-full"
+                >
+                  <ImageIcon className="w-4 h-4 mr-2" />
+                  Select Featured Image
+                </Button>
+              )}
+            </Panel>
+
+            <Panel title="Taxonomy">
+              {/* Categories */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Categories (Optional)
+                </label>
+                {isLoadingCategories ? (
+                  <p className="text-sm text-gray-500">Loading categories...</p>
+                ) : categories.length === 0 ? (
+                  <p className="text-sm text-gray-500">No categories available.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto p-2 border border-gray-300 rounded-md">
+                    {categories.map((category) => (
+                      <label
+                        key={category.id}
+                        className="flex items-center gap-2 cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedCategoryIds.includes(category.id)}
+                          onChange={() => toggleCategory(category.id)}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="text-sm text-gray-700">{category.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Tags */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Tags (Optional)
+                </label>
+                {isLoadingTags ? (
+                  <p className="text-sm text-gray-500">Loading tags...</p>
+                ) : tags.length === 0 && !canCreateTags ? (
+                  <p className="text-sm text-gray-500">No tags available.</p>
+                ) : (
+                  <TagInput
+                    tags={tags}
+                    selectedIds={selectedTagIds}
+                    onChange={(tagIds) => setValue('tagIds', tagIds, { shouldDirty: true })}
+                    onCreate={canCreateTags ? handleCreateTag : undefined}
+                  />
+                )}
+              </div>
+
+              {/* Custom Taxonomies */}
+              {customTaxonomies.map(({ taxonomy, terms }) => (
+                <TaxonomyTermPicker
+                  key={taxonomy.id}
+                  taxonomy={taxonomy}
+                  terms={terms}
+                  selectedIds={selectedTermIds}
+                  onChange={(termIds) => setValue('termIds', termIds, { shouldDirty: true })}
+                  onCreate={canCreateTags ? (name) => handleCreateTerm(taxonomy, name) : undefined}
+                />
+              ))}
+            </Panel>
+
+            {customFields.length > 0 && (
+              <Panel title="Custom Fields">
+                {customFields.map((field) => (
+                  <Controller
+                    key={field.id}
+                    name={`custom_fields.${field.key}`}
+                    control={control}
+                    render={({ field: { value, onChange } }) => (
+                      <CustomFieldInput
+                        companyId={companyId}
+                        field={field}
+                        value={value}
+                        onChange={onChange}
+                        error={errors.custom_fields?.[field.key]?.message}
+                      />
+                    )}
+                  />
+                ))}
+              </Panel>
+            )}
+
+            <Panel title="SEO">
+              {/* Search Result Preview */}
+              <SerpPreview
+                title={metaTitle?.trim() || watchedTitle}
+                description={metaDescription?.trim() || watchedExcerpt?.trim() || stripHtml(watchedContent)}
+                url={`${getSiteUrl(selectedCompany)}/${watchedSlug?.trim() || 'post-url-slug'}`}
+                noindex={robotsNoindex}
+              />
+
+              {/* Meta Title */}
+              <div className="space-y-2">
+                <label htmlFor="meta_title" className="text-sm font-medium text-gray-700">
+                  Meta Title (Optional)
+                </label>
+                <Input
+                  id="meta_title"
+                  type="text"
+                  placeholder="Defaults to post title"
+                  {...register('meta_title')}
+                />
+                <LengthHint length={metaTitle?.trim().length || 0} limits={seoLimits.title} />
+              </div>
+
+              {/* Meta Description */}
+              <div className="space-y-2">
+                <label htmlFor="meta_description" className="text-sm font-medium text-gray-700">
+                  Meta Description (Optional)
+                </label>
+                <textarea
+                  id="meta_description"
+                  rows={3}
+                  placeholder="Short summary for search engines"
+                  {...register('meta_description')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <LengthHint length={metaDescription?.trim().length || 0} limits={seoLimits.description} />
+              </div>
+
+              {/* Canonical URL */}
+              <div className="space-y-2">
+                <label htmlFor="canonical_url" className="text-sm font-medium text-gray-700">
+                  Canonical URL (Optional)
+                </label>
+                <Input
+                  id="canonical_url"
+                  type="url"
+                  placeholder="https://example.com/original-article"
+                  {...register('canonical_url')}
+                  className={errors.canonical_url ? 'border-red-500' : ''}
+                />
+                {errors.canonical_url && (
+                  <p className="text-sm text-red-500">{errors.canonical_url.message}</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  Set when this post was first published elsewhere
+                </p>
+              </div>
+
+              {/* Robots noindex */}
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    {...register('robots_noindex')}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">
+                    Hide from search engines
+                  </span>
+                </label>
+                <p className="text-xs text-gray-500 ml-6">
+                  Adds a robots noindex tag to this post
+                </p>
+              </div>
+            </Panel>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-4">
+          {canSaveTemplates && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={handleSaveAsTemplate}
+              disabled={isSubmitting}
+              className="mr-auto"
+            >
+              <LayoutTemplate className="w-4 h-4 mr-2" />
+              Save as Template
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting
+              ? isEditMode
+                ? 'Updating...'
+                : 'Creating...'
+              : isEditMode
+                ? 'Update Post'
+                : 'Create Post'}
+          </Button>
+        </div>
+      </form>
+
+      {/* Media Selector Modal */}
+      <MediaSelectorModal
+        open={isMediaSelectorOpen}
+        onClose={() => setIsMediaSelectorOpen(false)}
+        onSelect={handleMediaSelect}
+        allowedTypes={['image']}
+        title="Select Featured Image"
+      />
+
+      {/* Save As Template Modal */}
+      {templateValues && (
+        <SavePostTemplateModal
+          open={!!templateValues}
+          onOpenChange={(open) => {
+            if (!open) setTemplateValues(null)
+          }}
+          companyId={companyId}
+          values={templateValues}
+          defaultName={templateValues.title}
+          onSaved={setTemplates}
+        />
+      )}
+    </>
+  )
+}
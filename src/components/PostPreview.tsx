@@ -0,0 +1,70 @@
+// PostPreview - post rendering with mobile, tablet and desktop frames
+// Wraps PostContentFrame in a device-width container so editors can check responsive layout
+import { useState } from 'react'
+import { PostContentFrame } from '@/components/PostContentFrame'
+import { Monitor, Smartphone, Tablet } from 'lucide-react'
+
+type Device = 'mobile' | 'tablet' | 'desktop'
+
+// frame widths per device (desktop fills the available space)
+const devices: { value: Device; label: string; width: string; icon: typeof Monitor }[] = [
+  { value: 'mobile', label: 'Mobile', width: '375px', icon: Smartphone },
+  { value: 'tablet', label: 'Tablet', width: '768px', icon: Tablet },
+  { value: 'desktop', label: 'Desktop', width: '100%', icon: Monitor },
+]
+
+interface PostPreviewProps {
+  title: string
+  content: string
+  featuredImageUrl?: string | null
+  categories?: { name: string }[]
+  tags?: { name: string }[]
+  theme?: string // company theme
+}
+
+export function PostPreview({ title, content, featuredImageUrl, categories, tags, theme }: PostPreviewProps) {
+  const [device, setDevice] = useState<Device>('desktop')
+  const frameWidth = devices.find((item) => item.value === device)?.width || '100%'
+
+  return (
+    <div className="flex flex-col">
+      {/* Device switcher */}
+      <div className="flex items-center justify-center gap-1 p-2 border-b border-gray-200 bg-gray-50">
+        {devices.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setDevice(value)}
+            className={`inline-flex items-center gap-1 px-3 py-1.5 rounded-md text-sm transition-colors ${
+              device === value ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500 hover:text-gray-900'
+            }`}
+            title={`${label} preview`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Device frame */}
+      <div className="flex justify-center bg-gray-100 p-4">
+        <div
+          className={`transition-all bg-white overflow-hidden ${
+            device === 'desktop' ? '' : 'border-8 border-gray-800 rounded-2xl shadow-lg'
+          }`}
+          style={{ width: frameWidth, maxWidth: '100%' }}
+        >
+          <PostContentFrame
+            title={title}
+            content={content}
+            featuredImageUrl={featuredImageUrl}
+            categories={categories}
+            tags={tags}
+            theme={theme}
+            className="w-full h-[70vh] border-0 block"
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,276 @@
+// PostRevisionsModal - browse a post's revision history
+// Left side: list of revisions. Right side: side-by-side diff of the selected revision against the current post
+// Supports one-click restore of the selected revision
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogClose,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Loader } from '@/components/ui/loader'
+import { DiffView } from '@/components/DiffView'
+import blogService, { type BlogPost, type PostRevision } from '@/services/blog/blogService'
+import { getFullPost } from '@/lib/posts'
+import { toast } from '@/lib/toast'
+import { formatDateTime } from '@/lib/utils'
+import { RotateCcw } from 'lucide-react'
+
+interface PostRevisionsModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  post: BlogPost // post to show the history of - its current version is loaded when the modal opens
+  // called with the restored post after a successful restore
+  onRestored?: (post: BlogPost) => void
+}
+
+// taxonomy terms as one name per line so the diff shows added/removed terms
+const termLines = (terms: { name: string }[] | null | undefined) =>
+  (terms || [])
+    .map((term) => term.name)
+    .sort((a, b) => a.localeCompare(b))
+    .join('\n')
+
+export function PostRevisionsModal({
+  open,
+  onOpenChange,
+  companyId,
+  post,
+  onRestored,
+}: PostRevisionsModalProps) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([])
+  const [currentPost, setCurrentPost] = useState<BlogPost | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedRevision, setSelectedRevision] = useState<PostRevision | null>(null)
+  const [isLoadingRevision, setIsLoadingRevision] = useState(false)
+  const [isConfirmingRestore, setIsConfirmingRestore] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  // fetch revisions when modal opens
+  useEffect(() => {
+    if (open) {
+      fetchRevisions()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, post.id])
+
+  const fetchRevisions = async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const [revisionsData, currentPostData] = await Promise.all([
+        blogService.listRevisions(companyId, post.id),
+        getFullPost(companyId, post.id),
+      ])
+      setRevisions(revisionsData)
+      setCurrentPost(currentPostData)
+      // select the most recent revision by default
+      if (revisionsData.length > 0) {
+        selectRevision(revisionsData[0])
+      } else {
+        setSelectedRevision(null)
+      }
+    } catch (err) {
+      console.error('Failed to fetch revisions:', err)
+      setError('Failed to load revision history. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // load the full snapshot of a revision
+  const selectRevision = async (revision: PostRevision) => {
+    setIsConfirmingRestore(false)
+    setIsLoadingRevision(true)
+    try {
+      const revisionData = await blogService.getRevision(companyId, post.id, revision.id)
+      setSelectedRevision(revisionData)
+    } catch (err) {
+      console.error('Failed to fetch revision:', err)
+      // fall back to the list entry so the user still sees something
+      setSelectedRevision(revision)
+    } finally {
+      setIsLoadingRevision(false)
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return
+
+    setIsRestoring(true)
+    try {
+      const restoredPost = await blogService.restoreRevision(companyId, post.id, selectedRevision.id)
+      toast.success('Revision restored', `"${restoredPost.title}" has been restored to the version from ${formatDateTime(selectedRevision.created_at)}.`)
+      setIsConfirmingRestore(false)
+      onRestored?.(restoredPost)
+      onOpenChange(false)
+    } catch (err) {
+      console.error('Failed to restore revision:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore revision. Please try again.'
+      toast.error('Restore failed', errorMessage)
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!isRestoring) {
+      setIsConfirmingRestore(false)
+      onOpenChange(false)
+    }
+  }
+
+  const revisionLabel = selectedRevision ? `Revision (${formatDateTime(selectedRevision.created_at)})` : 'Revision'
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-6xl h-[90vh] overflow-hidden flex flex-col">
+        <DialogClose onClose={handleClose} />
+        <DialogHeader>
+          <DialogTitle>Revision History</DialogTitle>
+          <DialogDescription>
+            Compare earlier versions of "{post.title}" with the current version and restore one if needed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader />
+          </div>
+        ) : error ? (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">This post has no earlier revisions yet.</p>
+        ) : (
+          <div className="flex-1 flex gap-6 overflow-hidden">
+            {/* Left Side: Revision list */}
+            <div className="w-64 shrink-0 border-r border-gray-200 pr-4 overflow-y-auto space-y-1">
+              {revisions.map((revision) => (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => selectRevision(revision)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
+                    selectedRevision?.id === revision.id
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <p className="font-medium">{formatDateTime(revision.created_at)}</p>
+                  <p className="text-xs text-gray-500">{revision.author_name || 'Unknown'}</p>
+                </button>
+              ))}
+            </div>
+
+            {/* Right Side: Diff */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+              {isLoadingRevision || !selectedRevision || !currentPost ? (
+                <div className="flex-1 flex items-center justify-center">
+                  <Loader size="sm" />
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between mb-4">
+                    <p className="text-sm text-gray-600">
+                      Saved by <span className="font-medium">{selectedRevision.author_name || 'Unknown'}</span>{' '}
+                      on {formatDateTime(selectedRevision.created_at)}
+                    </p>
+                    {isConfirmingRestore ? (
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-gray-700">Replace the current version?</span>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setIsConfirmingRestore(false)}
+                          disabled={isRestoring}
+                        >
+                          Cancel
+                        </Button>
+                        <Button type="button" size="sm" onClick={handleRestore} disabled={isRestoring}>
+                          {isRestoring ? 'Restoring...' : 'Restore'}
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button type="button" size="sm" onClick={() => setIsConfirmingRestore(true)}>
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Restore this revision
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+                    <DiffView
+                      label="Title"
+                      before={selectedRevision.title}
+                      after={currentPost.title}
+                      beforeLabel={revisionLabel}
+                      afterLabel="Current"
+                    />
+                    <DiffView
+                      label="Slug"
+                      before={selectedRevision.slug}
+                      after={currentPost.slug}
+                      beforeLabel={revisionLabel}
+                      afterLabel="Current"
+                    />
+                    <DiffView
+                      label="Content"
+                      before={selectedRevision.content}
+                      after={currentPost.content}
+                      beforeLabel={revisionLabel}
+                      afterLabel="Current"
+                      monospace
+                    />
+                    <DiffView
+                      label="Excerpt"
+                      before={selectedRevision.excerpt}
+                      after={currentPost.excerpt}
+                      beforeLabel={revisionLabel}
+                      afterLabel="Current"
+                    />
+                    <DiffView
+                      label="Categories"
+                      before={termLines(selectedRevision.categories)}
+                      after={termLines(currentPost.categories)}
+                      beforeLabel={revisionLabel}
+                      afterLabel="Current"
+                    />
+                    <DiffView
+                      label="Tags"
+                      before={termLines(selectedRevision.tags)}
+                      after={termLines(currentPost.tags)}
+                      beforeLabel={revisionLabel}
+                      afterLabel="Current"
+                    />
+                    <DiffView
+                      label="Meta Title"
+                      before={selectedRevision.meta_title}
+                      after={currentPost.meta_title}
+                      beforeLabel={revisionLabel}
+                      afterLabel="Current"
+                    />
+                    <DiffView
+                      label="Meta Description"
+                      before={selectedRevision.meta_description}
+                      after={currentPost.meta_description}
+                      beforeLabel={revisionLabel}
+                      afterLabel="Current"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,115 @@
+// PostTemplateLibrary - lists a company's post templates and lets managers remove them
+// Templates are created from the post form ("Save as Template")
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { DeleteConfirmationModal } from '@/components/DeleteConfirmationModal'
+import { useAuth } from '@/contexts/AuthContext'
+import { deletePostTemplate, getPostTemplates, loadPostTemplates, type PostTemplate } from '@/lib/postTemplates'
+import { toast } from '@/lib/toast'
+import { formatDate } from '@/lib/utils'
+import { LayoutTemplate, Trash2 } from 'lucide-react'
+
+interface PostTemplateLibraryProps {
+  companyId: string
+}
+
+export function PostTemplateLibrary({ companyId }: PostTemplateLibraryProps) {
+  const { user } = useAuth()
+  const [templates, setTemplates] = useState<PostTemplate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [templateToDelete, setTemplateToDelete] = useState<PostTemplate | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  // Check if user has permission to remove templates (they are stored in the company settings)
+  const canDelete = user?.permissions?.includes('company.update') ?? false
+
+  // fetch templates when company changes
+  useEffect(() => {
+    fetchTemplates()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [companyId])
+
+  const fetchTemplates = async () => {
+    setIsLoading(true)
+    try {
+      setTemplates(await loadPostTemplates(companyId))
+    } catch (err) {
+      console.error('Failed to fetch post templates:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDeleteConfirm = async () => {
+    if (!templateToDelete) return
+
+    setIsDeleting(true)
+    try {
+      const company = await deletePostTemplate(companyId, templateToDelete.id)
+      setTemplates(getPostTemplates(company))
+      toast.success('Template deleted', `"${templateToDelete.name}" has been deleted successfully.`)
+      setTemplateToDelete(null)
+    } catch (err) {
+      console.error('Failed to delete template:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete template. Please try again.'
+      toast.error('Delete failed', errorMessage)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Post Templates</CardTitle>
+        <CardDescription>
+          Reusable starting points for new posts. Save a template from the post editor with "Save as Template".
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-gray-500">No templates yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {templates.map((template) => (
+              <li key={template.id} className="flex items-center justify-between px-4 py-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <LayoutTemplate className="w-5 h-5 text-gray-400 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{template.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {template.title || 'Untitled'} · created {formatDate(template.created_at)}
+                    </p>
+                  </div>
+                </div>
+                {canDelete && (
+                  <button
+                    type="button"
+                    onClick={() => setTemplateToDelete(template)}
+                    className="text-red-600 hover:text-red-900"
+                    title="Delete template"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <DeleteConfirmationModal
+        open={!!templateToDelete}
+        onOpenChange={(open) => {
+          if (!open && !isDeleting) setTemplateToDelete(null)
+        }}
+        itemName={templateToDelete?.name || ''}
+        itemType="template"
+        onConfirm={handleDeleteConfirm}
+        isDeleting={isDeleting}
+      />
+    </Card>
+  )
+}
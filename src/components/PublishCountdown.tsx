@@ -0,0 +1,22 @@
+// PublishCountdown - live countdown to a scheduled post's publish date
+// Each instance ticks on its own so only scheduled rows re-render every second
+import { useNow } from '@/hooks/useNow'
+import { formatCountdown } from '@/lib/schedule'
+import { Clock } from 'lucide-react'
+
+interface PublishCountdownProps {
+  publishAt: string // ISO publish date
+}
+
+export function PublishCountdown({ publishAt }: PublishCountdownProps) {
+  const now = useNow(1000)
+  const countdown = formatCountdown(publishAt, now)
+
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-blue-700">
+      <Clock className="w-3 h-3" />
+      {/* the backend publishes on its own schedule, so the post can stay "scheduled" for a moment */}
+      {countdown ? `Publishes in ${countdown}` : 'Publishing now...'}
+    </span>
+  )
+}
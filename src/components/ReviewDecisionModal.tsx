@@ -0,0 +1,134 @@
+// ReviewDecisionModal - approve or request changes on a post that is in review
+// Approving publishes the post (or schedules it); requesting changes sends it back to the author with a comment
+import { useState } from 'react'
+import { CheckCircle, XCircle } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import blogService, { type BlogPost, type ReviewPostPayload } from '@/services/blog/blogService'
+import { toast } from '@/lib/toast'
+
+interface ReviewDecisionModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  post: BlogPost
+  // called with the updated post after a decision was saved
+  onReviewed?: (post: BlogPost) => void
+}
+
+export function ReviewDecisionModal({
+  open,
+  onOpenChange,
+  companyId,
+  post,
+  onReviewed,
+}: ReviewDecisionModalProps) {
+  const [comment, setComment] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [pendingDecision, setPendingDecision] = useState<ReviewPostPayload['decision'] | null>(null)
+
+  const isSubmitting = pendingDecision !== null
+
+  const handleDecision = async (decision: ReviewPostPayload['decision']) => {
+    // the author needs to know what to change
+    if (decision === 'reject' && !comment.trim()) {
+      setError('Please explain which changes are needed.')
+      return
+    }
+
+    setPendingDecision(decision)
+    setError(null)
+    try {
+      const payload: ReviewPostPayload = { decision }
+      if (comment.trim()) {
+        payload.comment = comment.trim()
+      }
+      const reviewedPost = await blogService.review(companyId, post.id, payload)
+      if (decision === 'approve') {
+        toast.success('Post approved', `"${reviewedPost.title}" has been approved.`)
+      } else {
+        toast.success('Changes requested', `"${reviewedPost.title}" has been sent back to the author.`)
+      }
+      setComment('')
+      onReviewed?.(reviewedPost)
+      onOpenChange(false)
+    } catch (err) {
+      console.error('Failed to review post:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save review. Please try again.'
+      toast.error('Review failed', errorMessage)
+    } finally {
+      setPendingDecision(null)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!isSubmitting) {
+      if (!newOpen) {
+        setComment('')
+        setError(null)
+      }
+      onOpenChange(newOpen)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl">Review post</DialogTitle>
+          <DialogDescription className="pt-2">
+            Approve "{post.title}" for publishing or send it back to {post.author_name || 'the author'} with
+            requested changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label htmlFor="review-comment" className="text-sm font-medium text-gray-700">
+            Comment
+          </label>
+          <textarea
+            id="review-comment"
+            rows={4}
+            placeholder="Notes for the author (required when requesting changes)..."
+            value={comment}
+            onChange={(e) => {
+              setComment(e.target.value)
+              setError(null)
+            }}
+            disabled={isSubmitting}
+            className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              error ? 'border-red-500' : 'border-gray-300'
+            }`}
+          />
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-3">
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={() => handleDecision('reject')}
+            disabled={isSubmitting}
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            {pendingDecision === 'reject' ? 'Sending...' : 'Request Changes'}
+          </Button>
+          <Button type="button" onClick={() => handleDecision('approve')} disabled={isSubmitting}>
+            <CheckCircle className="w-4 h-4 mr-2" />
+            {pendingDecision === 'approve' ? 'Approving...' : 'Approve'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,112 @@
+// SavePostTemplateModal - stores the current post as a reusable template
+// Templates are saved in the company settings and offered when creating a new post
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { addPostTemplate, getPostTemplates, type PostTemplate, type PostTemplateValues } from '@/lib/postTemplates'
+import { toast } from '@/lib/toast'
+
+interface SavePostTemplateModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  values: PostTemplateValues // post fields stored in the template
+  defaultName?: string
+  // called with the company's updated template list
+  onSaved?: (templates: PostTemplate[]) => void
+}
+
+export function SavePostTemplateModal({
+  open,
+  onOpenChange,
+  companyId,
+  values,
+  defaultName = '',
+  onSaved,
+}: SavePostTemplateModalProps) {
+  const [name, setName] = useState(defaultName)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Template name is required')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const company = await addPostTemplate(companyId, name, values)
+      onSaved?.(getPostTemplates(company))
+      toast.success('Template saved', `"${name.trim()}" is now available when creating posts.`)
+      onOpenChange(false)
+    } catch (err) {
+      console.error('Failed to save template:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save template. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!isSaving) {
+      onOpenChange(newOpen)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl">Save as template</DialogTitle>
+          <DialogDescription className="pt-2">
+            Title, content, excerpt, featured image, categories and tags are stored in the template.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label htmlFor="template-name" className="text-sm font-medium text-gray-700">
+            Template name <span className="text-red-500">*</span>
+          </label>
+          <Input
+            id="template-name"
+            type="text"
+            placeholder="e.g. Weekly roundup"
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value)
+              setError(null)
+            }}
+            onKeyDown={(e) => {
+              // keep Enter from submitting the post form behind the dialog
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                handleSave()
+              }
+            }}
+            className={error ? 'border-red-500' : ''}
+          />
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-3">
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,34 @@
+// SerpPreview - Google-style search result snippet for a post
+// Mirrors how search engines truncate long titles and descriptions
+import { seoLimits } from '@/lib/seo'
+import { truncateAtWord } from '@/lib/text'
+
+interface SerpPreviewProps {
+  title: string
+  description: string
+  url: string // full URL of the post
+  noindex?: boolean
+}
+
+export function SerpPreview({ title, description, url, noindex = false }: SerpPreviewProps) {
+  // breadcrumb style URL: example.com › my-post
+  const displayUrl = url.replace(/^https?:\/\//, '').split('/').filter(Boolean).join(' › ')
+
+  return (
+    <div className="p-3 border border-gray-200 rounded-md bg-white">
+      {noindex ? (
+        <p className="text-xs text-gray-500">Hidden from search engines (noindex)</p>
+      ) : (
+        <div className="font-sans">
+          <p className="text-xs text-gray-700 truncate">{displayUrl}</p>
+          <p className="text-lg leading-snug text-[#1a0dab] truncate">
+            {truncateAtWord(title || 'Untitled post', seoLimits.title.max)}
+          </p>
+          <p className="text-sm text-gray-600 line-clamp-2">
+            {description ? truncateAtWord(description, seoLimits.description.max) : 'No description available.'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
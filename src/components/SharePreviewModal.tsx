@@ -0,0 +1,129 @@
+// SharePreviewModal - creates a time-limited preview link for an unpublished post
+// Anyone with the link can view the post until it expires, without logging in
+import { useState } from 'react'
+import { formatDateTime } from '@/lib/utils'
+import { Copy, Link2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import blogService, { type BlogPost, type PreviewLink } from '@/services/blog/blogService'
+import { toast } from '@/lib/toast'
+import paths from '@/routes/paths'
+
+interface SharePreviewModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  post: BlogPost
+}
+
+// available link lifetimes (seconds)
+const expiryOptions = [
+  { value: 60 * 60, label: '1 hour' },
+  { value: 24 * 60 * 60, label: '24 hours' },
+  { value: 3 * 24 * 60 * 60, label: '3 days' },
+  { value: 7 * 24 * 60 * 60, label: '7 days' },
+]
+
+export function SharePreviewModal({ open, onOpenChange, companyId, post }: SharePreviewModalProps) {
+  const [expiresIn, setExpiresIn] = useState(expiryOptions[1].value)
+  const [link, setLink] = useState<PreviewLink | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+
+  const linkUrl = link ? `${window.location.origin}${paths.preview.build(link.token)}` : ''
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    try {
+      const previewLink = await blogService.createPreviewLink(companyId, post.id, { expires_in: expiresIn })
+      setLink(previewLink)
+    } catch (err) {
+      console.error('Failed to create preview link:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create preview link. Please try again.'
+      toast.error('Preview link failed', errorMessage)
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(linkUrl)
+      toast.success('Link copied', 'The preview link has been copied to your clipboard.')
+    } catch (err) {
+      console.error('Failed to copy link:', err)
+      toast.error('Copy failed', 'Could not copy the link to your clipboard.')
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!isCreating) {
+      if (!newOpen) {
+        setLink(null)
+      }
+      onOpenChange(newOpen)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl">Share preview</DialogTitle>
+          <DialogDescription className="pt-2">
+            Anyone with the link can view "{post.title}" as it currently looks, without logging in.
+          </DialogDescription>
+        </DialogHeader>
+
+        {link ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Input type="text" value={linkUrl} readOnly onFocus={(e) => e.target.select()} />
+              <Button type="button" variant="outline" onClick={handleCopy}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">Expires {formatDateTime(link.expires_at)}</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <label htmlFor="preview-expiry" className="text-sm font-medium text-gray-700">
+              Link expires after
+            </label>
+            <select
+              id="preview-expiry"
+              value={expiresIn}
+              onChange={(e) => setExpiresIn(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {expiryOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-3">
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isCreating}>
+            {link ? 'Done' : 'Cancel'}
+          </Button>
+          {!link && (
+            <Button type="button" onClick={handleCreate} disabled={isCreating}>
+              <Link2 className="w-4 h-4 mr-2" />
+              {isCreating ? 'Creating...' : 'Create Link'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
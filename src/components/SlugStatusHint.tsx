@@ -0,0 +1,44 @@
+// SlugStatusHint - one-line feedback below a slug input
+// Shows the result of useSlugAvailability (format problems, uniqueness check)
+import type { SlugStatus } from '@/hooks/useSlugAvailability'
+import { SLUG_FORMAT_MESSAGE } from '@/lib/slug'
+import { Check, Loader2, X } from 'lucide-react'
+
+interface SlugStatusHintProps {
+  status: SlugStatus
+  emptyText?: string // shown while the slug is empty
+}
+
+export function SlugStatusHint({ status, emptyText }: SlugStatusHintProps) {
+  switch (status) {
+    case 'checking':
+      return (
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Checking availability...
+        </p>
+      )
+    case 'available':
+      return (
+        <p className="flex items-center gap-1 text-xs text-green-600">
+          <Check className="w-3 h-3" />
+          Slug is available
+        </p>
+      )
+    case 'taken':
+      return (
+        <p className="flex items-center gap-1 text-xs text-red-600">
+          <X className="w-3 h-3" />
+          This slug is already in use
+        </p>
+      )
+    case 'invalid':
+      return <p className="text-xs text-red-600">{SLUG_FORMAT_MESSAGE}</p>
+    case 'error':
+      return <p className="text-xs text-yellow-600">Could not check availability</p>
+    case 'empty':
+      return emptyText ? <p className="text-xs text-gray-500">{emptyText}</p> : null
+    default:
+      return null
+  }
+}
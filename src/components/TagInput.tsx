@@ -0,0 +1,205 @@
+// TagInput - typeahead for picking tags (or terms of flat custom taxonomies) in the post form
+// Suggests existing tags by fuzzy match and creates a new tag on Enter when nothing matches
+import { useState, type KeyboardEvent } from 'react'
+import { Plus, X } from 'lucide-react'
+import type { Tag } from '@/services/blog/blogService'
+import { fuzzySearch, isNearDuplicate, normalizeLabel } from '@/lib/fuzzy'
+import { slugify } from '@/lib/slug'
+import { toast } from '@/lib/toast'
+
+// anything with a name and slug can be picked (tags, custom taxonomy terms)
+export type TagInputItem = Pick<Tag, 'id' | 'name' | 'slug'>
+
+interface TagInputProps {
+  tags: TagInputItem[] // all tags of the company
+  selectedIds: string[]
+  onChange: (tagIds: string[]) => void
+  // creates a tag from the typed name; omit when the user may not create tags
+  onCreate?: (name: string) => Promise<TagInputItem>
+  itemLabel?: string // what the items are called in messages (default: "tag")
+  disabled?: boolean
+}
+
+// number of suggestions shown below the input
+const SUGGESTION_LIMIT = 8
+
+export function TagInput({ tags, selectedIds, onChange, onCreate, itemLabel = 'tag', disabled = false }: TagInputProps) {
+  const [query, setQuery] = useState('')
+  const [isOpen, setIsOpen] = useState(false)
+  const [highlightedIndex, setHighlightedIndex] = useState(-1)
+  const [isCreating, setIsCreating] = useState(false)
+  // name the near-duplicate warning was shown for; a second Enter creates the tag anyway
+  const [confirmedName, setConfirmedName] = useState('')
+
+  const name = query.trim()
+  const selectedTags = selectedIds
+    .map((id) => tags.find((tag) => tag.id === id))
+    .filter((tag): tag is TagInputItem => !!tag)
+  const suggestions = name
+    ? fuzzySearch(
+        tags.filter((tag) => !selectedIds.includes(tag.id)),
+        name,
+        (tag) => tag.name
+      ).slice(0, SUGGESTION_LIMIT)
+    : []
+  // a tag with the same slug already exists, so Enter picks it instead of creating a duplicate
+  const exactMatch = name
+    ? tags.find((tag) => tag.slug === slugify(name) || tag.name.toLowerCase() === name.toLowerCase())
+    : undefined
+  const nearDuplicates = exactMatch ? [] : suggestions.filter((tag) => isNearDuplicate(tag.name, name))
+  // names need at least one letter or digit (of any script)
+  const canCreate = !!onCreate && !!name && !exactMatch && !!normalizeLabel(name)
+
+  const reset = () => {
+    setQuery('')
+    setHighlightedIndex(-1)
+    setConfirmedName('')
+  }
+
+  const selectTag = (tagId: string) => {
+    if (!selectedIds.includes(tagId)) onChange([...selectedIds, tagId])
+    reset()
+  }
+
+  const removeTag = (tagId: string) => {
+    onChange(selectedIds.filter((id) => id !== tagId))
+  }
+
+  const createTag = async () => {
+    if (!onCreate || !canCreate) return
+    setIsCreating(true)
+    try {
+      const tag = await onCreate(name)
+      onChange([...selectedIds, tag.id])
+      toast.success(`${itemLabel.charAt(0).toUpperCase()}${itemLabel.slice(1)} created`, `"${tag.name}" was added to this post.`)
+      reset()
+    } catch (err) {
+      console.error(`Failed to create ${itemLabel}:`, err)
+      toast.error(`Failed to create ${itemLabel}`, err instanceof Error ? err.message : undefined)
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setIsOpen(true)
+      setHighlightedIndex((index) => Math.min(index + 1, suggestions.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlightedIndex((index) => Math.max(index - 1, -1))
+    } else if (e.key === 'Enter') {
+      // never submit the surrounding post form from here
+      e.preventDefault()
+      if (isCreating) return
+      if (highlightedIndex >= 0 && suggestions[highlightedIndex]) {
+        selectTag(suggestions[highlightedIndex].id)
+      } else if (exactMatch) {
+        selectTag(exactMatch.id)
+      } else if (nearDuplicates.length > 0 && confirmedName !== name) {
+        setConfirmedName(name)
+      } else {
+        createTag()
+      }
+    } else if (e.key === 'Escape') {
+      if (isOpen && name) {
+        // close the suggestions without closing the post modal
+        e.preventDefault()
+        e.stopPropagation()
+        setIsOpen(false)
+      }
+    } else if (e.key === 'Backspace' && !query && selectedIds.length > 0) {
+      removeTag(selectedIds[selectedIds.length - 1])
+    }
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 p-2 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+        {selectedTags.map((tag) => (
+          <span
+            key={tag.id}
+            className="inline-flex items-center gap-1 px-2 py-0.5 text-sm bg-blue-50 text-blue-800 rounded-full"
+          >
+            {tag.name}
+            <button
+              type="button"
+              onClick={() => removeTag(tag.id)}
+              disabled={disabled}
+              className="text-blue-600 hover:text-blue-900"
+              title={`Remove ${tag.name}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setHighlightedIndex(-1)
+            setIsOpen(true)
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          disabled={disabled || isCreating}
+          placeholder={
+            selectedTags.length === 0 ? `Type to find ${onCreate ? 'or create ' : ''}${itemLabel}s...` : ''
+          }
+          className="flex-1 min-w-[140px] text-sm outline-none bg-transparent"
+        />
+      </div>
+
+      {isOpen && name && (
+        // mousedown keeps the focus in the input so the list doesn't close before the click lands
+        <div
+          className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg py-1"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {nearDuplicates.length > 0 && (
+            <p className="px-3 py-1 text-xs text-yellow-700">
+              Similar {nearDuplicates.length === 1 ? `${itemLabel} exists` : `${itemLabel}s exist`} - pick one to avoid
+              duplicates{confirmedName === name ? `, or press Enter again to create a new ${itemLabel}.` : '.'}
+            </p>
+          )}
+          {suggestions.map((tag, index) => (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => selectTag(tag.id)}
+              className={`w-full px-3 py-1.5 text-left text-sm flex items-center justify-between ${
+                index === highlightedIndex ? 'bg-blue-50 text-blue-900' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <span>{tag.name}</span>
+              <span className="text-xs text-gray-400">/{tag.slug}</span>
+            </button>
+          ))}
+          {exactMatch && selectedIds.includes(exactMatch.id) && (
+            <p className="px-3 py-1.5 text-sm text-gray-500">"{exactMatch.name}" is already added.</p>
+          )}
+          {canCreate && (
+            <button
+              type="button"
+              onClick={createTag}
+              disabled={isCreating}
+              className={`w-full px-3 py-1.5 text-left text-sm flex items-center gap-2 text-blue-700 hover:bg-gray-50 ${
+                suggestions.length > 0 ? 'border-t border-gray-100' : ''
+              }`}
+            >
+              <Plus className="w-4 h-4" />
+              {isCreating ? 'Creating...' : `Create ${itemLabel} "${name}"`}
+              {!isCreating && <span className="ml-auto text-xs text-gray-400">Enter</span>}
+            </button>
+          )}
+          {suggestions.length === 0 && !canCreate && !exactMatch && (
+            <p className="px-3 py-1.5 text-sm text-gray-500">No matching {itemLabel}s.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
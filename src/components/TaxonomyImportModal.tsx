@@ -0,0 +1,265 @@
+// TaxonomyImportModal - imports categories or tags from a CSV/JSON export
+// Steps: pick a file, review the dry run (create/update/skip per row), apply it and show a report
+import { useState } from 'react'
+import { CheckCircle, Upload } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import type { Category, Tag } from '@/services/blog/blogService'
+import { runBulk, type BulkResult } from '@/lib/bulk'
+import type { TermType } from '@/lib/termMerge'
+import {
+  createTaxonomyImportOperation,
+  detectTaxonomyFormat,
+  parseTaxonomyFile,
+  planTaxonomyImport,
+  type TaxonomyImportAction,
+  type TaxonomyImportItem,
+  type TaxonomyRecord,
+} from '@/lib/taxonomyTransfer'
+
+interface TaxonomyImportModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  type: TermType
+  terms: (Category | Tag)[] // existing terms of the type
+  // called when the dialog is closed after an import ran
+  onComplete?: () => void
+}
+
+type Phase = 'select' | 'preview' | 'running' | 'done'
+
+const actionStyles: Record<TaxonomyImportAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  skip: 'bg-gray-100 text-gray-600',
+}
+
+export function TaxonomyImportModal({ open, onOpenChange, companyId, type, terms, onComplete }: TaxonomyImportModalProps) {
+  const [phase, setPhase] = useState<Phase>('select')
+  const [fileName, setFileName] = useState('')
+  const [records, setRecords] = useState<TaxonomyRecord[]>([])
+  const [updateExisting, setUpdateExisting] = useState(true)
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [result, setResult] = useState<BulkResult<TaxonomyImportItem> | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const label = type === 'category' ? 'category' : 'tag'
+  const pluralLabel = type === 'category' ? 'categories' : 'tags'
+  // the dry run is derived from the file and the options, so toggling an option updates the preview
+  const plan = records.length > 0 ? planTaxonomyImport(type, records, terms, { updateExisting }) : []
+  const actionable = plan.filter((item) => item.action !== 'skip')
+  const counts = {
+    create: plan.filter((item) => item.action === 'create').length,
+    update: plan.filter((item) => item.action === 'update').length,
+    skip: plan.filter((item) => item.action === 'skip').length,
+  }
+  const isBusy = phase === 'running'
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    try {
+      const content = await file.text()
+      const parsed = parseTaxonomyFile(type, content, detectTaxonomyFormat(file.name, content))
+      if (parsed.length === 0) {
+        setError(`The file contains no ${pluralLabel}.`)
+        return
+      }
+      setFileName(file.name)
+      setRecords(parsed)
+      setPhase('preview')
+    } catch (err) {
+      console.error('Failed to read import file:', err)
+      setError(err instanceof Error ? err.message : 'Failed to read the file.')
+    }
+  }
+
+  const handleImport = async () => {
+    setPhase('running')
+    setError(null)
+    setProgress({ done: 0, total: actionable.length })
+    const idBySlug = new Map(terms.map((term) => [term.slug, term.id]))
+    // one at a time so parents are created before their children
+    const bulkResult = await runBulk(actionable, createTaxonomyImportOperation(companyId, type, idBySlug), {
+      concurrency: 1,
+      onProgress: (done, total) => setProgress({ done, total }),
+    })
+    setResult(bulkResult)
+    setPhase('done')
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    // keep the dialog open while requests are running
+    if (!isBusy) {
+      onOpenChange(newOpen)
+      // the list is refreshed once the report was seen
+      if (!newOpen && phase === 'done') onComplete?.()
+    }
+  }
+
+  const describe = (item: TaxonomyImportItem) => {
+    if (item.action === 'skip') return item.reason
+    if (item.action === 'update') return `Changes ${item.changes.join(', ')}`
+    return item.record.parent_slug ? `Under /${item.record.parent_slug}` : `New ${label}`
+  }
+
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl">Import {pluralLabel}</DialogTitle>
+          <DialogDescription className="pt-2">
+            Import a CSV or JSON export. {pluralLabel.charAt(0).toUpperCase() + pluralLabel.slice(1)} are matched by
+            slug: new slugs are created, existing slugs are updated or skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* File selection */}
+        {phase === 'select' && (
+          <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-gray-300 rounded-md cursor-pointer hover:border-blue-400">
+            <Upload className="w-8 h-8 text-gray-400" />
+            <span className="text-sm text-gray-700">Choose a .csv or .json file</span>
+            <span className="text-xs text-gray-500">
+              Columns: name, slug, description{type === 'category' ? ', parent_slug' : ''}
+            </span>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {/* Dry run */}
+        {phase === 'preview' && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-700">
+                <span className="font-medium">{fileName}</span>: {counts.create} to create, {counts.update} to update,{' '}
+                {counts.skip} skipped
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={updateExisting}
+                  onChange={(e) => setUpdateExisting(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Update existing {pluralLabel}
+              </label>
+            </div>
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Slug</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {plan.map((item) => (
+                    <tr key={item.row}>
+                      <td className="px-3 py-2 text-gray-400">{item.row}</td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${actionStyles[item.action]}`}>
+                          {item.action}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-gray-900">{item.record.name || '-'}</td>
+                      <td className="px-3 py-2 text-gray-500">{item.record.slug || '-'}</td>
+                      <td className="px-3 py-2 text-gray-500">{describe(item)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Progress */}
+        {(phase === 'running' || phase === 'done') && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>{phase === 'running' ? `Importing ${pluralLabel}...` : 'Finished'}</span>
+              <span>
+                {progress.done} / {progress.total}
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        )}
+
+        {/* Result report */}
+        {phase === 'done' && result && (
+          <div className="space-y-3">
+            <p className="flex items-center gap-2 text-sm text-gray-700">
+              <CheckCircle className="w-4 h-4 text-green-600" />
+              Imported {result.succeeded.length} of {actionable.length}{' '}
+              {actionable.length === 1 ? label : pluralLabel}.
+            </p>
+            {result.failed.length > 0 && (
+              <div className="max-h-60 overflow-y-auto border border-red-200 rounded-md divide-y divide-red-100">
+                {result.failed.map(({ item, error: itemError }) => (
+                  <div key={item.row} className="px-3 py-2 bg-red-50">
+                    <p className="text-sm font-medium text-gray-900">
+                      Row {item.row}: {item.record.name}
+                    </p>
+                    <p className="text-xs text-red-700">{itemError}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-3">
+          {phase === 'done' ? (
+            <Button type="button" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+          ) : (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => (phase === 'preview' ? setPhase('select') : handleOpenChange(false))}
+                disabled={isBusy}
+              >
+                {phase === 'preview' ? 'Back' : 'Cancel'}
+              </Button>
+              {phase !== 'select' && (
+                <Button type="button" onClick={handleImport} disabled={isBusy || actionable.length === 0}>
+                  {isBusy
+                    ? 'Importing...'
+                    : `Import ${actionable.length} ${actionable.length === 1 ? label : pluralLabel}`}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,71 @@
+// TaxonomyTermPicker - post form field for one custom taxonomy, generated from its definition
+// Hierarchical taxonomies show an indented checkbox list, flat ones a typeahead like the tag input
+import { useMemo } from 'react'
+import { TagInput } from '@/components/TagInput'
+import type { Taxonomy, TaxonomyTerm } from '@/services/blog/blogService'
+import { buildTree, flattenTree } from '@/lib/tree'
+
+interface TaxonomyTermPickerProps {
+  taxonomy: Taxonomy
+  terms: TaxonomyTerm[] // terms of this taxonomy
+  selectedIds: string[] // selected term ids of all taxonomies
+  onChange: (termIds: string[]) => void // receives the ids of all taxonomies
+  // creates a term in this taxonomy (flat taxonomies only); omit when the user may not create terms
+  onCreate?: (name: string) => Promise<TaxonomyTerm>
+}
+
+export function TaxonomyTermPicker({ taxonomy, terms, selectedIds, onChange, onCreate }: TaxonomyTermPickerProps) {
+  const rows = useMemo(
+    () => (taxonomy.hierarchical ? flattenTree(buildTree(terms, (a, b) => a.name.localeCompare(b.name))) : []),
+    [taxonomy.hierarchical, terms]
+  )
+
+  // the form keeps one list for all taxonomies; this field only changes its own terms
+  const termIds = new Set(terms.map((term) => term.id))
+  const ownSelectedIds = selectedIds.filter((id) => termIds.has(id))
+  const otherSelectedIds = selectedIds.filter((id) => !termIds.has(id))
+  const handleChange = (ids: string[]) => onChange([...otherSelectedIds, ...ids])
+
+  const toggleTerm = (termId: string) => {
+    handleChange(
+      ownSelectedIds.includes(termId) ? ownSelectedIds.filter((id) => id !== termId) : [...ownSelectedIds, termId]
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-700">{taxonomy.name} (Optional)</label>
+      {taxonomy.hierarchical ? (
+        rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No {taxonomy.name.toLowerCase()} terms available.</p>
+        ) : (
+          <div className="max-h-40 overflow-y-auto p-2 border border-gray-300 rounded-md space-y-1">
+            {rows.map(({ item, depth }) => (
+              <label
+                key={item.id}
+                className="flex items-center gap-2 cursor-pointer"
+                style={{ paddingLeft: `${depth * 1.25}rem` }}
+              >
+                <input
+                  type="checkbox"
+                  checked={ownSelectedIds.includes(item.id)}
+                  onChange={() => toggleTerm(item.id)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">{item.name}</span>
+              </label>
+            ))}
+          </div>
+        )
+      ) : (
+        <TagInput
+          tags={terms}
+          selectedIds={ownSelectedIds}
+          onChange={handleChange}
+          onCreate={onCreate}
+          itemLabel="term"
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+// TaxonomyTransferActions - import and CSV/JSON export buttons for the category and tag toolbars
+import { useState } from 'react'
+import { Download, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { TaxonomyImportModal } from '@/components/TaxonomyImportModal'
+import type { Company } from '@/services/company/companyService'
+import type { Category, Tag } from '@/services/blog/blogService'
+import type { TermType } from '@/lib/termMerge'
+import { exportTaxonomy, type TaxonomyFileFormat } from '@/lib/taxonomyTransfer'
+import { downloadFile } from '@/lib/download'
+
+interface TaxonomyTransferActionsProps {
+  company: Company
+  type: TermType
+  terms: (Category | Tag)[]
+  canImport: boolean
+  onImported: () => void
+}
+
+const mimeTypes: Record<TaxonomyFileFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+}
+
+export function TaxonomyTransferActions({ company, type, terms, canImport, onImported }: TaxonomyTransferActionsProps) {
+  const [isImportOpen, setIsImportOpen] = useState(false)
+
+  const handleExport = (format: TaxonomyFileFormat) => {
+    const fileName = `${company.slug}-${type === 'category' ? 'categories' : 'tags'}.${format}`
+    downloadFile(fileName, exportTaxonomy(type, terms, format), mimeTypes[format])
+  }
+
+  return (
+    <>
+      <Button type="button" variant="ghost" size="sm" onClick={() => handleExport('csv')} disabled={terms.length === 0}>
+        <Download className="w-4 h-4 mr-2" />
+        CSV
+      </Button>
+      <Button type="button" variant="ghost" size="sm" onClick={() => handleExport('json')} disabled={terms.length === 0}>
+        <Download className="w-4 h-4 mr-2" />
+        JSON
+      </Button>
+      {canImport && (
+        <Button type="button" variant="outline" size="sm" onClick={() => setIsImportOpen(true)}>
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      )}
+
+      {isImportOpen && (
+        <TaxonomyImportModal
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          companyId={company.id}
+          type={type}
+          terms={terms}
+          onComplete={onImported}
+        />
+      )}
+    </>
+  )
+}
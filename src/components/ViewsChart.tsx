@@ -0,0 +1,83 @@
+// ViewsChart - SVG line chart of views over time for the dashboard
+// Hovering a point shows its date and views (native SVG title tooltip)
+import type { AnalyticsInterval, ViewsPoint } from '@/services/analytics/analyticsService'
+import { formatBucketDate } from '@/lib/analytics'
+
+interface ViewsChartProps {
+  points: ViewsPoint[]
+  interval: AnalyticsInterval
+}
+
+// drawing area inside the SVG viewBox
+const WIDTH = 640
+const HEIGHT = 220
+const PADDING = { top: 10, right: 12, bottom: 28, left: 44 }
+const GRID_LINES = 4
+
+// round the axis maximum up to a readable step (1, 2 or 5 times a power of ten)
+function getAxisMax(max: number): number {
+  if (max <= 0) return GRID_LINES
+  const step = max / GRID_LINES
+  const magnitude = 10 ** Math.floor(Math.log10(step))
+  const niceStep = [1, 2, 5, 10].map((factor) => factor * magnitude).find((value) => value >= step) || step
+  return niceStep * GRID_LINES
+}
+
+export function ViewsChart({ points, interval }: ViewsChartProps) {
+  if (points.length === 0) {
+    return <p className="py-12 text-center text-sm text-gray-500">No views in this period.</p>
+  }
+
+  const axisMax = getAxisMax(Math.max(...points.map((point) => point.views)))
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const x = (index: number) =>
+    PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth)
+  const y = (views: number) => PADDING.top + plotHeight - (views / axisMax) * plotHeight
+
+  const line = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(point.views)}`).join(' ')
+  const area = `${line} L${x(points.length - 1)},${y(0)} L${x(0)},${y(0)} Z`
+  // label every n-th bucket so the x axis does not overlap
+  const labelEvery = Math.max(1, Math.ceil(points.length / 6))
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Views over time">
+      {/* Grid and y axis */}
+      {Array.from({ length: GRID_LINES + 1 }, (_, index) => {
+        const value = (axisMax / GRID_LINES) * index
+        return (
+          <g key={index}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} className="stroke-gray-200" />
+            <text x={PADDING.left - 8} y={y(value) + 4} textAnchor="end" className="fill-gray-500 text-[11px]">
+              {value.toLocaleString()}
+            </text>
+          </g>
+        )
+      })}
+
+      {/* X axis labels */}
+      {points.map((point, index) =>
+        index % labelEvery === 0 || index === points.length - 1 ? (
+          <text
+            key={point.date}
+            x={x(index)}
+            y={HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-gray-500 text-[11px]"
+          >
+            {formatBucketDate(point.date, interval)}
+          </text>
+        ) : null
+      )}
+
+      {/* Series */}
+      <path d={area} className="fill-blue-100" />
+      <path d={line} fill="none" className="stroke-blue-600" strokeWidth={2} strokeLinejoin="round" />
+      {points.map((point, index) => (
+        <circle key={point.date} cx={x(index)} cy={y(point.views)} r={points.length > 40 ? 2 : 3.5} className="fill-blue-600">
+          <title>{`${formatBucketDate(point.date, interval)}: ${point.views.toLocaleString()} views`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
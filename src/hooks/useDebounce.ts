@@ -0,0 +1,14 @@
+// Hook that returns a value only after it stopped changing for the given delay
+// Used to avoid firing a request on every keystroke (search boxes, slug checks)
+import { useEffect, useState } from 'react'
+
+export function useDebounce<T>(value: T, delayMs = 400) {
+  const [debouncedValue, setDebouncedValue] = useState(value)
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedValue(value), delayMs)
+    return () => window.clearTimeout(timer)
+  }, [value, delayMs])
+
+  return debouncedValue
+}
@@ -0,0 +1,14 @@
+// Hook that returns the current timestamp and re-renders on an interval
+// Used for live countdowns (e.g. scheduled posts)
+import { useEffect, useState } from 'react'
+
+export function useNow(intervalMs = 1000) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs)
+    return () => window.clearInterval(timer)
+  }, [intervalMs])
+
+  return now
+}
@@ -0,0 +1,46 @@
+// Hook that validates a slug while the user types
+// Checks the format immediately and asks the server whether the slug is free once typing paused
+import { useEffect, useState } from 'react'
+import { useDebounce } from '@/hooks/useDebounce'
+import { isValidSlug } from '@/lib/slug'
+
+export type SlugStatus = 'empty' | 'invalid' | 'unchanged' | 'checking' | 'available' | 'taken' | 'error'
+
+export function useSlugAvailability(
+  slug: string | undefined,
+  // resolves true when the slug is free (e.g. blogService.checkSlug)
+  check: (slug: string) => Promise<boolean>,
+  // slug saved on the server - keeping it needs no check
+  originalSlug?: string
+): SlugStatus {
+  const value = (slug || '').trim()
+  const debouncedValue = useDebounce(value)
+  const [result, setResult] = useState<{ slug: string; status: 'available' | 'taken' | 'error' } | null>(null)
+
+  const needsCheck = (candidate: string) => !!candidate && isValidSlug(candidate) && candidate !== originalSlug
+
+  // ask the server once the slug stopped changing
+  useEffect(() => {
+    if (!needsCheck(debouncedValue)) return
+
+    let cancelled = false
+    check(debouncedValue)
+      .then((available) => {
+        if (!cancelled) setResult({ slug: debouncedValue, status: available ? 'available' : 'taken' })
+      })
+      .catch((err) => {
+        console.error('Failed to check slug:', err)
+        if (!cancelled) setResult({ slug: debouncedValue, status: 'error' })
+      })
+
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedValue, originalSlug])
+
+  if (!value) return 'empty'
+  if (!isValidSlug(value)) return 'invalid'
+  if (value === originalSlug) return 'unchanged'
+  return result?.slug === value ? result.status : 'checking'
+}
@@ -0,0 +1,70 @@
+// Analytics helpers - date range presets for the dashboard and formatting of the figures
+import type { AnalyticsInterval, AnalyticsRange } from '@/services/analytics/analyticsService'
+
+export type DateRangePreset = '7d' | '30d' | '90d' | '12m' | 'custom'
+
+// preset buttons, in display order
+export const dateRangePresets: { value: DateRangePreset; label: string }[] = [
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: '12m', label: 'Last 12 months' },
+  { value: 'custom', label: 'Custom' },
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// local calendar date as YYYY-MM-DD (the value format of date inputs)
+export function toDateValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// range of a preset, ending today
+export function getPresetRange(preset: Exclude<DateRangePreset, 'custom'>, today = new Date()): AnalyticsRange {
+  const from = new Date(today)
+  if (preset === '12m') {
+    from.setFullYear(from.getFullYear() - 1)
+    from.setDate(from.getDate() + 1)
+  } else {
+    from.setDate(from.getDate() - (Number.parseInt(preset, 10) - 1))
+  }
+  return { from: toDateValue(from), to: toDateValue(today) }
+}
+
+// number of days in a range (both ends included)
+export function getRangeDays(range: AnalyticsRange): number {
+  const from = new Date(`${range.from}T00:00:00`)
+  const to = new Date(`${range.to}T00:00:00`)
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1
+}
+
+// bucket size that keeps the views chart readable (at most about 30 points)
+export function getRangeInterval(range: AnalyticsRange): AnalyticsInterval {
+  const days = getRangeDays(range)
+  if (days <= 31) return 'day'
+  if (days <= 190) return 'week'
+  return 'month'
+}
+
+// change against the previous period in percent (null when there is nothing to compare with)
+export function getPercentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null
+  return Math.round(((current - previous) / previous) * 100)
+}
+
+// short label of a bucket date for chart axes
+export function formatBucketDate(date: string, interval: AnalyticsInterval): string {
+  const value = new Date(`${date}T00:00:00`)
+  if (interval === 'month') return value.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+  return value.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+// file size with a binary unit (B, KB, MB, GB)
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
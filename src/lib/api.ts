@@ -7,6 +7,9 @@ import axios from 'axios'
 // you can also use environment variables: import.meta.env.VITE_API_URL
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
 
+// public pages that must not be redirected to /login when the visitor has no session
+const PUBLIC_PATH_PREFIXES = ['/preview/']
+
 // create axios instance with default config
 // withCredentials: true ensures cookies (including HTTP-only session cookies) are sent with requests
 export const apiClient = axios.create({
@@ -36,7 +39,8 @@ apiClient.interceptors.response.use(
   (error) => {
     // if 401 unauthorized, session expired or invalid
     // backend will have cleared the session cookie automatically
-    if (error.response?.status === 401) {
+    const isPublicPage = PUBLIC_PATH_PREFIXES.some((prefix) => window.location.pathname.startsWith(prefix))
+    if (error.response?.status === 401 && !isPublicPage) {
       // redirect to login will be handled by ProtectedRoute
       window.location.href = '/login'
     }
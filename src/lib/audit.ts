@@ -0,0 +1,130 @@
+// Audit log helpers - labels, links to the changed records and field diffs of the before/after snapshots
+import type { AuditAction, AuditEntityType, AuditLogEntry } from '@/services/audit/auditLogService'
+import paths from '@/routes/paths'
+import { formatDate } from '@/lib/utils'
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+}
+
+export const auditEntityLabels: Record<AuditEntityType, string> = {
+  post: 'Post',
+  category: 'Category',
+  tag: 'Tag',
+  taxonomy: 'Taxonomy',
+  taxonomy_term: 'Taxonomy term',
+  media: 'Media',
+  company: 'Company',
+  member: 'Member',
+  user: 'User',
+}
+
+// bookkeeping fields that change with every update and are left out of the diff
+const IGNORED_FIELDS = ['id', 'company_id', 'created_at', 'updated_at']
+
+// field that changed between the snapshots, serialized for DiffView
+export interface AuditFieldChange {
+  field: string
+  label: string
+  before: string
+  after: string
+  monospace: boolean // HTML content and structured values read better in a monospace font
+}
+
+// name of the record as shown in the log
+export function getAuditEntryLabel(entry: AuditLogEntry): string {
+  if (entry.entity_label) return entry.entity_label
+  const snapshot = entry.after || entry.before
+  const name = snapshot?.title || snapshot?.name || snapshot?.email
+  return typeof name === 'string' && name ? name : entry.entity_id
+}
+
+// one line summary, e.g. Deleted category "News"
+export function describeAuditEntry(entry: AuditLogEntry): string {
+  return `${auditActionLabels[entry.action]} ${auditEntityLabels[entry.entity_type].toLowerCase()} "${getAuditEntryLabel(entry)}"`
+}
+
+// page of the changed record (null when there is nothing left to show)
+export function getAuditEntityPath(entry: AuditLogEntry): string | null {
+  const isDeleted = entry.action === 'delete'
+  switch (entry.entity_type) {
+    case 'post':
+      return isDeleted ? null : paths.posts.view.build(entry.entity_id)
+    case 'category':
+      return paths.categories.list
+    case 'tag':
+      return paths.tags.list
+    case 'taxonomy':
+    case 'taxonomy_term':
+      return paths.taxonomies.list
+    case 'company':
+      return isDeleted ? null : paths.companies.overview
+    case 'member':
+      return paths.companies.members
+    case 'user':
+      return paths.users.list
+    default:
+      return null
+  }
+}
+
+// "published_at" -> "Published at"
+function toFieldLabel(field: string): string {
+  const words = field.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+// serialize a snapshot value - lists of plain values get one line each so added/removed items diff line by line
+function toDiffText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  if (Array.isArray(value) && value.every((item) => typeof item !== 'object' || item === null)) {
+    return value.map((item) => String(item)).join('\n')
+  }
+  return JSON.stringify(value, null, 2)
+}
+
+/**
+ * Lists the fields that differ between the before and after snapshots of an entry
+ * A create lists every field of the new record, a delete every field of the removed one
+ */
+export function getAuditFieldChanges(entry: AuditLogEntry): AuditFieldChange[] {
+  const before = entry.before || {}
+  const after = entry.after || {}
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+    (field) => !IGNORED_FIELDS.includes(field)
+  )
+
+  return fields
+    .map((field) => ({
+      field,
+      label: toFieldLabel(field),
+      before: toDiffText(before[field]),
+      after: toDiffText(after[field]),
+      monospace:
+        field === 'content' ||
+        [before[field], after[field]].some((value) => typeof value === 'object' && value !== null && !Array.isArray(value)),
+    }))
+    .filter((change) => change.before !== change.after)
+}
+
+/**
+ * Formats how long ago a date was: "just now", "5 minutes ago", "3 hours ago", "2 days ago"
+ * Older dates are shown as a plain date
+ */
+export function formatRelativeTime(isoString: string, now = Date.now()): string {
+  const seconds = Math.floor((now - new Date(isoString).getTime()) / 1000)
+  if (Number.isNaN(seconds)) return ''
+  if (seconds < 60) return 'just now'
+
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'} ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours} ${hours === 1 ? 'hour' : 'hours'} ago`
+  const days = Math.floor(hours / 24)
+  if (days < 7) return `${days} ${days === 1 ? 'day' : 'days'} ago`
+  return formatDate(isoString)
+}
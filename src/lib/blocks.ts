@@ -0,0 +1,276 @@
+// Block model for the post content editor
+// Posts are edited as a list of blocks and stored in BlogPost.content as HTML
+// Every top-level element carries a data-block attribute so it can be parsed back into blocks
+
+// supported block types
+export type BlockType = 'paragraph' | 'heading' | 'list' | 'quote' | 'code' | 'embed' | 'image'
+
+// heading levels available in the editor (h1 is reserved for the post title)
+export type HeadingLevel = 2 | 3 | 4
+
+export interface ParagraphBlock {
+  id: string
+  type: 'paragraph'
+  text: string // inline HTML (strong, em, a)
+}
+
+export interface HeadingBlock {
+  id: string
+  type: 'heading'
+  level: HeadingLevel
+  text: string // inline HTML
+}
+
+export interface ListBlock {
+  id: string
+  type: 'list'
+  ordered: boolean
+  items: string[] // inline HTML per list item
+}
+
+export interface QuoteBlock {
+  id: string
+  type: 'quote'
+  text: string // inline HTML
+  cite: string // optional attribution (plain text)
+}
+
+export interface CodeBlock {
+  id: string
+  type: 'code'
+  language: string
+  code: string // plain text, escaped on serialization
+}
+
+export interface EmbedBlock {
+  id: string
+  type: 'embed'
+  url: string // e.g. YouTube, Vimeo, X/Twitter URL - rendered by the public site
+  caption: string
+}
+
+export interface ImageBlock {
+  id: string
+  type: 'image'
+  url: string // media file_url from the media library
+  alt: string
+  caption: string
+}
+
+export type Block =
+  | ParagraphBlock
+  | HeadingBlock
+  | ListBlock
+  | QuoteBlock
+  | CodeBlock
+  | EmbedBlock
+  | ImageBlock
+
+// generate a client-side block id (only used as React key, never serialized)
+export function createBlockId(): string {
+  return Math.random().toString(36).slice(2, 10)
+}
+
+// create an empty block of the given type
+export function createBlock(type: BlockType): Block {
+  const id = createBlockId()
+  switch (type) {
+    case 'paragraph':
+      return { id, type, text: '' }
+    case 'heading':
+      return { id, type, level: 2, text: '' }
+    case 'list':
+      return { id, type, ordered: false, items: [''] }
+    case 'quote':
+      return { id, type, text: '', cite: '' }
+    case 'code':
+      return { id, type, language: '', code: '' }
+    case 'embed':
+      return { id, type, url: '', caption: '' }
+    case 'image':
+      return { id, type, url: '', alt: '', caption: '' }
+  }
+}
+
+// escape text for use inside HTML text nodes and attribute values
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// check if a block has no meaningful content (empty blocks are dropped on save)
+export function isBlockEmpty(block: Block): boolean {
+  switch (block.type) {
+    case 'paragraph':
+    case 'heading':
+    case 'quote':
+      return block.text.trim() === ''
+    case 'list':
+      return block.items.every((item) => item.trim() === '')
+    case 'code':
+      return block.code.trim() === ''
+    case 'embed':
+    case 'image':
+      return block.url.trim() === ''
+  }
+}
+
+// serialize a single block to HTML
+function serializeBlock(block: Block): string {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p data-block="paragraph">${block.text.trim()}</p>`
+    case 'heading':
+      return `<h${block.level} data-block="heading">${block.text.trim()}</h${block.level}>`
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul'
+      const items = block.items
+        .filter((item) => item.trim() !== '')
+        .map((item) => `<li>${item.trim()}</li>`)
+        .join('')
+      return `<${tag} data-block="list">${items}</${tag}>`
+    }
+    case 'quote': {
+      const cite = block.cite.trim() ? `<cite>${escapeHtml(block.cite.trim())}</cite>` : ''
+      return `<blockquote data-block="quote"><p>${block.text.trim()}</p>${cite}</blockquote>`
+    }
+    case 'code': {
+      const language = block.language.trim()
+      const langAttr = language ? ` class="language-${escapeHtml(language)}"` : ''
+      return `<pre data-block="code"><code${langAttr}>${escapeHtml(block.code)}</code></pre>`
+    }
+    case 'embed': {
+      const url = escapeHtml(block.url.trim())
+      const caption = block.caption.trim() ? `<figcaption>${escapeHtml(block.caption.trim())}</figcaption>` : ''
+      return `<figure data-block="embed" data-embed-url="${url}"><a href="${url}">${url}</a>${caption}</figure>`
+    }
+    case 'image': {
+      const caption = block.caption.trim() ? `<figcaption>${escapeHtml(block.caption.trim())}</figcaption>` : ''
+      return `<figure data-block="image"><img src="${escapeHtml(block.url.trim())}" alt="${escapeHtml(block.alt.trim())}" />${caption}</figure>`
+    }
+  }
+}
+
+// serialize blocks to the HTML string stored in BlogPost.content
+// empty blocks are skipped so an untouched editor serializes to an empty string
+export function serializeBlocks(blocks: Block[]): string {
+  return blocks
+    .filter((block) => !isBlockEmpty(block))
+    .map(serializeBlock)
+    .join('\n')
+}
+
+// convert a top-level DOM element into a block
+// elements without a data-block attribute (legacy HTML) are mapped by tag name
+function elementToBlock(element: Element): Block | null {
+  const id = createBlockId()
+  const tag = element.tagName.toLowerCase()
+  const kind = element.getAttribute('data-block')
+
+  if (kind === 'embed') {
+    return {
+      id,
+      type: 'embed',
+      url: element.getAttribute('data-embed-url') || element.querySelector('a')?.getAttribute('href') || '',
+      caption: element.querySelector('figcaption')?.textContent || '',
+    }
+  }
+
+  if (kind === 'image' || (tag === 'figure' && element.querySelector('img'))) {
+    const img = element.querySelector('img')
+    return {
+      id,
+      type: 'image',
+      url: img?.getAttribute('src') || '',
+      alt: img?.getAttribute('alt') || '',
+      caption: element.querySelector('figcaption')?.textContent || '',
+    }
+  }
+
+  if (tag === 'img') {
+    return {
+      id,
+      type: 'image',
+      url: element.getAttribute('src') || '',
+      alt: element.getAttribute('alt') || '',
+      caption: '',
+    }
+  }
+
+  if (tag === 'h1' || tag === 'h2' || tag === 'h3' || tag === 'h4' || tag === 'h5' || tag === 'h6') {
+    // clamp legacy heading levels into the supported range
+    const level = Math.min(4, Math.max(2, Number(tag.slice(1)))) as HeadingLevel
+    return { id, type: 'heading', level, text: element.innerHTML.trim() }
+  }
+
+  if (tag === 'ul' || tag === 'ol') {
+    const items = Array.from(element.querySelectorAll(':scope > li')).map((li) => li.innerHTML.trim())
+    return { id, type: 'list', ordered: tag === 'ol', items: items.length > 0 ? items : [''] }
+  }
+
+  if (tag === 'blockquote') {
+    const cite = element.querySelector('cite')
+    const citeText = cite?.textContent || ''
+    cite?.remove()
+    const inner = element.querySelector('p')
+    return {
+      id,
+      type: 'quote',
+      text: (inner ? inner.innerHTML : element.innerHTML).trim(),
+      cite: citeText,
+    }
+  }
+
+  if (tag === 'pre') {
+    const code = element.querySelector('code')
+    const languageClass = Array.from(code?.classList || []).find((c) => c.startsWith('language-'))
+    return {
+      id,
+      type: 'code',
+      language: languageClass ? languageClass.slice('language-'.length) : '',
+      code: (code || element).textContent || '',
+    }
+  }
+
+  // anything else (p, div, span...) becomes a paragraph with its inner HTML
+  const text = tag === 'p' || tag === 'div' ? element.innerHTML.trim() : element.outerHTML
+  return text ? { id, type: 'paragraph', text } : null
+}
+
+// parse BlogPost.content back into blocks
+// supports content written by the block editor, legacy HTML and legacy plain text
+export function parseContent(content: string): Block[] {
+  const trimmed = content.trim()
+  if (!trimmed) return []
+
+  // legacy plain text - split on blank lines into paragraphs
+  if (!/<[a-z][\s\S]*>/i.test(trimmed)) {
+    return trimmed
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean)
+      .map((paragraph) => ({
+        id: createBlockId(),
+        type: 'paragraph' as const,
+        text: escapeHtml(paragraph).replace(/\n/g, '<br />'),
+      }))
+  }
+
+  const doc = new DOMParser().parseFromString(`<body>${trimmed}</body>`, 'text/html')
+  const blocks: Block[] = []
+
+  doc.body.childNodes.forEach((node) => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const block = elementToBlock(node as Element)
+      if (block) blocks.push(block)
+    } else if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
+      // stray text between elements becomes its own paragraph
+      blocks.push({ id: createBlockId(), type: 'paragraph', text: escapeHtml(node.textContent.trim()) })
+    }
+  })
+
+  return blocks
+}
@@ -0,0 +1,57 @@
+// Bulk operation runner - applies an async operation to many items with limited concurrency
+// Failures are collected per item instead of aborting the whole run
+
+// a failed item with the reason it failed
+export interface BulkFailure<T> {
+  item: T
+  error: string
+}
+
+// result of a bulk run
+export interface BulkResult<T> {
+  succeeded: T[]
+  failed: BulkFailure<T>[]
+}
+
+interface RunBulkOptions {
+  concurrency?: number // parallel requests (default: 4)
+  onProgress?: (done: number, total: number) => void // called after every finished item
+}
+
+// extract a readable message from an unknown error
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message
+  if (typeof err === 'string') return err
+  return 'Unknown error'
+}
+
+/**
+ * Runs `operation` for every item, at most `concurrency` at a time
+ * Resolves once every item finished; never rejects
+ */
+export async function runBulk<T>(
+  items: T[],
+  operation: (item: T) => Promise<unknown>,
+  { concurrency = 4, onProgress }: RunBulkOptions = {}
+): Promise<BulkResult<T>> {
+  const result: BulkResult<T> = { succeeded: [], failed: [] }
+  let nextIndex = 0
+  let done = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const item = items[nextIndex++]
+      try {
+        await operation(item)
+        result.succeeded.push(item)
+      } catch (err) {
+        result.failed.push({ item, error: getErrorMessage(err) })
+      }
+      done++
+      onProgress?.(done, items.length)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+  return result
+}
@@ -0,0 +1,68 @@
+// Comment moderation helpers - status labels, bulk actions and moderation rule parsing
+// Bulk actions run per comment through runBulk (lib/bulk), like the post bulk actions
+import commentService, { type Comment, type CommentStatus } from '@/services/comments/commentService'
+
+export const commentStatusLabels: Record<CommentStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  spam: 'Spam',
+  trash: 'Trash',
+}
+
+export type BulkCommentAction = 'approve' | 'unapprove' | 'spam' | 'trash' | 'restore' | 'delete'
+
+// status a bulk action moves comments to (delete removes them)
+const bulkActionStatus: Record<Exclude<BulkCommentAction, 'delete'>, CommentStatus> = {
+  approve: 'approved',
+  unapprove: 'pending',
+  spam: 'spam',
+  trash: 'trash',
+  restore: 'pending',
+}
+
+// menu labels with the past tense for result messages, in display order
+export const bulkCommentActions: { value: BulkCommentAction; label: string; done: string }[] = [
+  { value: 'approve', label: 'Approve', done: 'approved' },
+  { value: 'unapprove', label: 'Unapprove', done: 'moved back to pending' },
+  { value: 'restore', label: 'Restore', done: 'restored' },
+  { value: 'spam', label: 'Mark as spam', done: 'marked as spam' },
+  { value: 'trash', label: 'Move to trash', done: 'moved to trash' },
+  { value: 'delete', label: 'Delete permanently', done: 'deleted' },
+]
+
+// actions that make sense for comments of a status tab ('all' = pending and approved)
+export function getBulkCommentActions(status: CommentStatus | 'all'): BulkCommentAction[] {
+  if (status === 'pending') return ['approve', 'spam', 'trash']
+  if (status === 'approved') return ['unapprove', 'spam', 'trash']
+  if (status === 'spam' || status === 'trash') return ['restore', 'delete']
+  return ['approve', 'unapprove', 'spam', 'trash']
+}
+
+// per-comment operation for a bulk action; comments already in the target status are skipped
+export function createBulkCommentOperation(
+  action: BulkCommentAction,
+  companyId: string
+): (comment: Comment) => Promise<unknown> {
+  if (action === 'delete') {
+    return (comment) => commentService.delete(companyId, comment.id)
+  }
+  const status = bulkActionStatus[action]
+  return async (comment) => {
+    if (comment.status === status) return
+    await commentService.update(companyId, comment.id, { status })
+  }
+}
+
+// IPv4 address or CIDR range, or a full IPv6 address or range
+const IPV4_RULE_PATTERN = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}(\/([12]?\d|3[0-2]))?$/
+const IPV6_RULE_PATTERN = /^[0-9a-f]*:[0-9a-f:]+(\/(12[0-8]|1[01]\d|[1-9]?\d))?$/i
+
+export function isValidIpRule(value: string): boolean {
+  return IPV4_RULE_PATTERN.test(value) || IPV6_RULE_PATTERN.test(value)
+}
+
+// unique, non-empty lines of a rule textarea (blocked words are compared lowercase)
+export function parseRuleLines(text: string, { lowercase = false }: { lowercase?: boolean } = {}): string[] {
+  const lines = text.split('\n').map((line) => (lowercase ? line.trim().toLowerCase() : line.trim()))
+  return [...new Set(lines.filter(Boolean))]
+}
@@ -0,0 +1,16 @@
+// Company settings - free-form per-company configuration (post templates, custom fields, ...)
+// The backend replaces the whole settings record on update, so single keys are written through here
+import companyService, { type Company } from '@/services/company/companyService'
+
+/**
+ * Replaces one key of the company settings, keeping all other keys
+ * Settings are re-fetched first so concurrent changes to other keys are not overwritten;
+ * `update` gets the freshly loaded company and returns the new value of the key
+ */
+export async function updateCompanySetting(companyId: string, key: string, update: (company: Company) => unknown) {
+  const company = await companyService.get(companyId)
+  return companyService.update({
+    id: companyId,
+    settings: { ...(company.settings || {}), [key]: update(company) },
+  })
+}
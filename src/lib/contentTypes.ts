@@ -0,0 +1,95 @@
+// Content type registry - the content types besides blog posts (static pages, events, landing pages, products)
+// Each type gets its own routes, sidebar entry and permissions ("page.view", "event.create", ...);
+// type-specific fields use the custom field definitions (lib/customFields) and are stored in entry.fields
+import type { LucideIcon } from 'lucide-react'
+import { Calendar, FileStack, Megaphone, ShoppingBag } from 'lucide-react'
+import type { CustomFieldDefinitionValues } from '@/lib/customFields'
+
+export type ContentTypeKey = 'pages' | 'events' | 'landing-pages' | 'products'
+
+// actions with their own permission per content type (like blog.view / blog.create / ...)
+export type ContentAction = 'view' | 'create' | 'update' | 'delete'
+
+export interface ContentType {
+  key: ContentTypeKey // URL segment and API collection
+  singular: string
+  plural: string
+  permission: string // permission prefix, e.g. "page" -> page.view, page.create, page.update, page.delete
+  icon: LucideIcon
+  description: string
+  fields: CustomFieldDefinitionValues[] // shown in the editor's side panel, in this order
+  listFields: string[] // keys of the fields shown as columns on the list page
+}
+
+export const contentTypes: ContentType[] = [
+  {
+    key: 'pages',
+    singular: 'Page',
+    plural: 'Pages',
+    permission: 'page',
+    icon: FileStack,
+    description: 'Static pages like "About us" or "Imprint"',
+    fields: [
+      {
+        key: 'template',
+        label: 'Template',
+        type: 'select',
+        required: false,
+        options: ['default', 'full-width', 'sidebar'],
+        help_text: 'Layout used by the site',
+      },
+      { key: 'show_in_navigation', label: 'Show in navigation', type: 'boolean', required: false },
+    ],
+    listFields: ['template'],
+  },
+  {
+    key: 'events',
+    singular: 'Event',
+    plural: 'Events',
+    permission: 'event',
+    icon: Calendar,
+    description: 'Dated events with location and registration link',
+    fields: [
+      { key: 'start_date', label: 'Start Date', type: 'date', required: true },
+      { key: 'end_date', label: 'End Date', type: 'date', required: false, help_text: 'Leave empty for one-day events' },
+      { key: 'location', label: 'Location', type: 'text', required: false, max_length: 200 },
+      { key: 'registration_url', label: 'Registration Link', type: 'text', required: false, max_length: 500 },
+    ],
+    listFields: ['start_date', 'location'],
+  },
+  {
+    key: 'landing-pages',
+    singular: 'Landing Page',
+    plural: 'Landing Pages',
+    permission: 'landing_page',
+    icon: Megaphone,
+    description: 'Campaign pages with a call to action',
+    fields: [
+      { key: 'campaign', label: 'Campaign', type: 'text', required: false, max_length: 100 },
+      { key: 'hero_image', label: 'Hero Image', type: 'media', required: false },
+      { key: 'cta_label', label: 'Button Label', type: 'text', required: false, max_length: 50 },
+      { key: 'cta_url', label: 'Button Link', type: 'text', required: false, max_length: 500 },
+    ],
+    listFields: ['campaign'],
+  },
+  {
+    key: 'products',
+    singular: 'Product',
+    plural: 'Products',
+    permission: 'product',
+    icon: ShoppingBag,
+    description: 'Products with price and stock status',
+    fields: [
+      { key: 'price', label: 'Price', type: 'number', required: true, min: 0 },
+      { key: 'sku', label: 'SKU', type: 'text', required: false, max_length: 64 },
+      { key: 'in_stock', label: 'In stock', type: 'boolean', required: false },
+      { key: 'product_image', label: 'Product Image', type: 'media', required: false },
+    ],
+    listFields: ['price', 'in_stock'],
+  },
+]
+
+// permission name for an action on a content type ("event" + "create" -> "event.create")
+export function getContentPermission(type: ContentType, action: ContentAction): string {
+  return `${type.permission}.${action}`
+}
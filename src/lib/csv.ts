@@ -0,0 +1,87 @@
+// CSV helpers (RFC 4180: comma separated, double quotes escape fields containing commas, quotes or line breaks)
+
+// cells starting with one of these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@]/
+
+// quote a field only when needed
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// prefix formula-like values with ' so spreadsheets show them as text (CSV injection)
+function escapeFormula(value: string): string {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value
+}
+
+// remove the ' added by escapeFormula when reading an exported file back
+function unescapeFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value
+}
+
+// rows of objects to CSV text; the header row lists the given columns in order
+export function toCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+  const lines = [columns.map(escapeField).join(',')]
+  rows.forEach((row) => {
+    lines.push(
+      columns.map((column) => escapeField(escapeFormula(row[column] == null ? '' : String(row[column])))).join(',')
+    )
+  })
+  return `${lines.join('\r\n')}\r\n`
+}
+
+// CSV text to rows of fields; empty lines are dropped
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // strip a UTF-8 byte order mark (added by spreadsheet exports)
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  if (inQuotes) throw new Error('The CSV file has an unclosed quote.')
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''))
+}
+
+/**
+ * Parses CSV text with a header row into objects keyed by lowercase column name
+ * Missing trailing fields become empty strings, formula escapes of exported values are removed
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsvRows(text)
+  if (!header) return []
+  const columns = header.map((column) => column.trim().toLowerCase())
+  return rows.map((fields) =>
+    Object.fromEntries(columns.map((column, index) => [column, unescapeFormula(fields[index] ?? '')]))
+  )
+}
@@ -0,0 +1,189 @@
+// Custom post fields - per-company field definitions ("source URL", "sponsor", "reading time", ...)
+// Definitions live in company.settings.custom_fields (like post templates); values in post.custom_fields by key
+import { z } from 'zod'
+import companyService, { type Company } from '@/services/company/companyService'
+import { updateCompanySetting } from '@/lib/companySettings'
+import type { CustomFieldValue } from '@/services/blog/blogService'
+
+export type CustomFieldType = 'text' | 'number' | 'boolean' | 'date' | 'select' | 'media' | 'relation'
+
+export interface CustomFieldDefinition {
+  id: string
+  key: string // property name in post.custom_fields, fixed after creation
+  label: string
+  type: CustomFieldType
+  required: boolean // not used for boolean fields
+  help_text?: string
+  options?: string[] // select: allowed values
+  min?: number | null // number: smallest allowed value
+  max?: number | null // number: largest allowed value
+  max_length?: number | null // text: longest allowed value
+  created_at: string
+}
+
+// fields edited in the builder
+export type CustomFieldDefinitionValues = Omit<CustomFieldDefinition, 'id' | 'created_at'>
+
+// value of a field while it is edited in the post form (numbers are kept as the typed text)
+export type CustomFieldFormValue = string | boolean
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  boolean: 'Yes / No',
+  date: 'Date',
+  select: 'Select',
+  media: 'Media',
+  relation: 'Related post',
+}
+
+// lowercase letters, digits and underscores, starting with a letter
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]*$/
+
+// settings key holding the field list
+const SETTINGS_KEY = 'custom_fields'
+
+// field label to key ("Source URL" -> "source_url")
+export function toFieldKey(label: string): string {
+  return label
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // drop accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '')
+}
+
+// read field definitions from company settings, ignoring malformed entries
+export function getCustomFields(company: Company | null | undefined): CustomFieldDefinition[] {
+  const stored = company?.settings?.[SETTINGS_KEY]
+  if (!Array.isArray(stored)) return []
+  return stored.filter(
+    (item): item is CustomFieldDefinition =>
+      !!item &&
+      typeof item === 'object' &&
+      typeof item.id === 'string' &&
+      typeof item.key === 'string' &&
+      item.type in customFieldTypeLabels
+  )
+}
+
+// write the field list back, keeping all other settings
+function saveCustomFields(companyId: string, update: (fields: CustomFieldDefinition[]) => CustomFieldDefinition[]) {
+  return updateCompanySetting(companyId, SETTINGS_KEY, (company) => update(getCustomFields(company)))
+}
+
+// load the current field definitions of a company
+export async function loadCustomFields(companyId: string): Promise<CustomFieldDefinition[]> {
+  return getCustomFields(await companyService.get(companyId))
+}
+
+// add a field; returns the updated company
+export function addCustomField(companyId: string, values: CustomFieldDefinitionValues) {
+  return saveCustomFields(companyId, (fields) => {
+    if (fields.some((field) => field.key === values.key)) {
+      throw new Error(`A field with the key "${values.key}" already exists.`)
+    }
+    return [...fields, { ...values, id: crypto.randomUUID(), created_at: new Date().toISOString() }]
+  })
+}
+
+// update a field (the key and type stay as they are); returns the updated company
+export function updateCustomField(companyId: string, fieldId: string, values: Partial<CustomFieldDefinitionValues>) {
+  return saveCustomFields(companyId, (fields) =>
+    fields.map((field) => (field.id === fieldId ? { ...field, ...values, key: field.key, type: field.type } : field))
+  )
+}
+
+// remove a field definition - values already stored on posts are kept; returns the updated company
+export function deleteCustomField(companyId: string, fieldId: string) {
+  return saveCustomFields(companyId, (fields) => fields.filter((field) => field.id !== fieldId))
+}
+
+// move a field one place up or down; returns the updated company
+export function moveCustomField(companyId: string, fieldId: string, direction: -1 | 1) {
+  return saveCustomFields(companyId, (fields) => {
+    const index = fields.findIndex((field) => field.id === fieldId)
+    const target = index + direction
+    if (index < 0 || target < 0 || target >= fields.length) return fields
+    const next = [...fields]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    return next
+  })
+}
+
+// validation for one field's form value
+function getFieldSchema(field: CustomFieldDefinitionValues): z.ZodType {
+  if (field.type === 'boolean') return z.boolean().optional()
+
+  return z
+    .string()
+    .optional()
+    .superRefine((raw, ctx) => {
+      const value = (raw || '').trim()
+      if (!value) {
+        if (field.required) ctx.addIssue({ code: 'custom', message: `${field.label} is required` })
+        return
+      }
+
+      if (field.type === 'text' && field.max_length && value.length > field.max_length) {
+        ctx.addIssue({ code: 'custom', message: `${field.label} must be ${field.max_length} characters or less` })
+      } else if (field.type === 'number') {
+        const number = Number(value)
+        if (!Number.isFinite(number)) {
+          ctx.addIssue({ code: 'custom', message: `${field.label} must be a number` })
+        } else if (field.min != null && number < field.min) {
+          ctx.addIssue({ code: 'custom', message: `${field.label} must be at least ${field.min}` })
+        } else if (field.max != null && number > field.max) {
+          ctx.addIssue({ code: 'custom', message: `${field.label} must be at most ${field.max}` })
+        }
+      } else if (field.type === 'date' && (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value)))) {
+        ctx.addIssue({ code: 'custom', message: `${field.label} must be a valid date` })
+      } else if (field.type === 'select' && !(field.options || []).includes(value)) {
+        ctx.addIssue({ code: 'custom', message: `${field.label} must be one of the listed options` })
+      } else if (field.type === 'media' && !z.url().safeParse(value).success) {
+        ctx.addIssue({ code: 'custom', message: `${field.label} must be a valid URL` })
+      }
+    })
+}
+
+// base shape of the form values by key - fields without a stored value are registered as undefined
+export const customFieldFormValuesSchema = z.record(z.string(), z.union([z.string(), z.boolean()]).optional())
+
+// zod schema for the custom field values of the post form, derived from the definitions
+export function buildCustomFieldsSchema(fields: CustomFieldDefinitionValues[]) {
+  return z.object(Object.fromEntries(fields.map((field) => [field.key, getFieldSchema(field)])))
+}
+
+// stored post values to form values (definitions are not needed, so the form can be filled before they load)
+export function toCustomFieldFormValues(
+  values: Record<string, CustomFieldValue> | null | undefined
+): Record<string, CustomFieldFormValue> {
+  return Object.fromEntries(
+    Object.entries(values || {}).map(([key, value]) => [
+      key,
+      typeof value === 'boolean' ? value : value == null ? '' : String(value),
+    ])
+  )
+}
+
+/**
+ * Form values to the values stored on the post
+ * Empty fields become null, numbers are parsed; values of fields without a definition are left untouched
+ */
+export function toCustomFieldValues(
+  fields: CustomFieldDefinitionValues[],
+  formValues: Record<string, unknown> | undefined,
+  storedValues: Record<string, CustomFieldValue> | null | undefined
+): Record<string, CustomFieldValue> {
+  const values: Record<string, CustomFieldValue> = { ...(storedValues || {}) }
+  fields.forEach((field) => {
+    const raw = formValues?.[field.key]
+    if (field.type === 'boolean') {
+      values[field.key] = raw === true
+      return
+    }
+    const text = typeof raw === 'string' ? raw.trim() : ''
+    values[field.key] = !text ? null : field.type === 'number' ? Number(text) : text
+  })
+  return values
+}
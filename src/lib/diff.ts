@@ -0,0 +1,102 @@
+// Line-based diff utilities
+// Used to compare post revisions (and local drafts) against the current version
+
+// a single diff operation on one line
+export interface DiffOp {
+  type: 'equal' | 'added' | 'removed'
+  value: string
+}
+
+// a row in a side-by-side diff (null = no line on that side)
+export interface DiffRow {
+  left: string | null
+  right: string | null
+  type: 'equal' | 'changed' | 'added' | 'removed'
+}
+
+// split text into lines for diffing
+// serialized post content puts every block on its own line, so blocks diff one by one
+export function toLines(text: string | null | undefined): string[] {
+  if (!text) return []
+  return text.split('\n')
+}
+
+/**
+ * Computes a line diff between two texts using longest common subsequence
+ * Returns operations in order: removed lines come from `before`, added lines from `after`
+ */
+export function diffLines(before: string | null | undefined, after: string | null | undefined): DiffOp[] {
+  const a = toLines(before)
+  const b = toLines(after)
+
+  // lcs[i][j] = length of LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', value: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', value: a[i] })
+      i++
+    } else {
+      ops.push({ type: 'added', value: b[j] })
+      j++
+    }
+  }
+  while (i < a.length) ops.push({ type: 'removed', value: a[i++] })
+  while (j < b.length) ops.push({ type: 'added', value: b[j++] })
+
+  return ops
+}
+
+/**
+ * Converts diff operations into side-by-side rows
+ * Consecutive removed/added runs are paired up so a changed line shows next to its replacement
+ */
+export function toSideBySide(ops: DiffOp[]): DiffRow[] {
+  const rows: DiffRow[] = []
+  let index = 0
+
+  while (index < ops.length) {
+    const op = ops[index]
+    if (op.type === 'equal') {
+      rows.push({ left: op.value, right: op.value, type: 'equal' })
+      index++
+      continue
+    }
+
+    // collect a run of removed lines followed by added lines
+    const removed: string[] = []
+    const added: string[] = []
+    while (index < ops.length && ops[index].type === 'removed') removed.push(ops[index++].value)
+    while (index < ops.length && ops[index].type === 'added') added.push(ops[index++].value)
+
+    const length = Math.max(removed.length, added.length)
+    for (let k = 0; k < length; k++) {
+      const left = k < removed.length ? removed[k] : null
+      const right = k < added.length ? added[k] : null
+      rows.push({
+        left,
+        right,
+        type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added',
+      })
+    }
+  }
+
+  return rows
+}
+
+// check if two texts differ at all (cheap check before rendering a diff)
+export function hasChanges(before: string | null | undefined, after: string | null | undefined): boolean {
+  return (before || '') !== (after || '')
+}
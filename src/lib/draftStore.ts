@@ -0,0 +1,79 @@
+// Local draft store - keeps unsaved editor state in IndexedDB
+// Survives page reloads and the hard redirect to /login when the session expires
+// Drafts are keyed by company and post ID ('new' for posts that were never saved)
+
+const DB_NAME = 'cms-drafts'
+const DB_VERSION = 1
+const STORE_NAME = 'post-drafts'
+
+// a locally saved draft
+export interface LocalDraft<T> {
+  key: string
+  values: T
+  saved_at: string // ISO date of the last autosave
+  base_updated_at?: string | null // server updated_at the draft was started from
+}
+
+// build the storage key for a post draft
+export function getDraftKey(companyId: string, postId?: string | null): string {
+  return `${companyId}:${postId || 'new'}`
+}
+
+// open (and create on first use) the drafts database
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'key' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// run a single request against the drafts store and close the connection afterwards
+async function withStore<R>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<R>
+): Promise<R> {
+  const db = await openDatabase()
+  try {
+    return await new Promise<R>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = run(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+const draftStore = {
+  // get a draft by key (null if none)
+  get: async <T>(key: string): Promise<LocalDraft<T> | null> => {
+    const draft = await withStore<LocalDraft<T> | undefined>('readonly', (store) => store.get(key))
+    return draft ?? null
+  },
+
+  // save (or replace) a draft
+  save: async <T>(draft: LocalDraft<T>): Promise<void> => {
+    await withStore('readwrite', (store) => store.put(draft))
+  },
+
+  // remove a draft (e.g. after a successful save)
+  remove: async (key: string): Promise<void> => {
+    await withStore('readwrite', (store) => store.delete(key))
+  },
+}
+
+export default draftStore
@@ -0,0 +1,76 @@
+// Fuzzy matching for short labels (tag and term names) - used for typeahead suggestions
+// at most this many edits apart counts as a near-duplicate ("javascript" vs "javascirpt", "color" vs "colour")
+const NEAR_DUPLICATE_DISTANCE = 2
+
+// short labels allow fewer edits, otherwise "go" and "js" would look alike
+const maxDistance = (length: number) => Math.min(NEAR_DUPLICATE_DISTANCE, Math.floor(length / 4))
+
+/**
+ * Folds a label for comparison so case, accents and punctuation don't matter
+ * Letters and digits of every script are kept ("Ünïcode" -> "unicode", "Новости" -> "новости")
+ */
+export function normalizeLabel(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // drop accents
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]/gu, '') // marks stay - some scripts need them for their vowels
+}
+
+// number of single-character insertions, deletions or substitutions between two strings
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Scores how well `text` matches `query` (higher is better, null for no match)
+ * Prefix and substring matches rank first, then characters in order ("jscr" -> "JavaScript"), then small typos
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = normalizeLabel(query)
+  const t = normalizeLabel(text)
+  if (!q) return null
+  if (t === q) return 100
+  if (t.startsWith(q)) return 90 - (t.length - q.length) / 100
+  if (t.includes(q)) return 80 - t.indexOf(q) / 100
+
+  // every query character appears in order
+  let position = 0
+  for (const char of q) {
+    position = t.indexOf(char, position) + 1
+    if (position === 0) break
+  }
+  if (position > 0) return 60 - (t.length - q.length) / 100
+
+  // small typos
+  const distance = editDistance(q, t)
+  if (distance > 0 && distance <= maxDistance(q.length)) return 50 - distance
+  return null
+}
+
+// items sorted by how well their label matches the query (non-matching items are dropped)
+export function fuzzySearch<T>(items: T[], query: string, getLabel: (item: T) => string): T[] {
+  return items
+    .map((item) => ({ item, score: fuzzyScore(query, getLabel(item)) }))
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.item)
+}
+
+// same label apart from case, punctuation or a small typo
+export function isNearDuplicate(a: string, b: string): boolean {
+  const normalizedA = normalizeLabel(a)
+  const normalizedB = normalizeLabel(b)
+  if (!normalizedA || !normalizedB) return false
+  const limit = maxDistance(Math.min(normalizedA.length, normalizedB.length))
+  return editDistance(normalizedA, normalizedB) <= limit
+}
@@ -0,0 +1,75 @@
+// Navigation menu helpers - menu items link to posts, categories, tags, pages or external URLs
+// Entity links store the id of the linked entry and are resolved to its current slug and title,
+// so menus keep working when an entry is renamed or gets a new slug
+import type { MenuItem, MenuItemType } from '@/services/company/companyService'
+import { getDescendantIds } from '@/lib/tree'
+
+// menu item types that link to an entry of the company
+export type MenuTargetType = Exclude<MenuItemType, 'url'>
+
+export const menuItemTypeLabels: Record<MenuItemType, string> = {
+  post: 'Post',
+  category: 'Category',
+  tag: 'Tag',
+  page: 'Page',
+  url: 'External URL',
+}
+
+// places of the site that render a menu
+export const menuLocationLabels: Record<string, string> = {
+  header: 'Header',
+  footer: 'Footer',
+}
+
+// entry a menu item can link to
+export interface MenuTarget {
+  id: string
+  title: string
+  slug: string
+}
+
+// linkable entries by type and id
+export type MenuTargets = Record<MenuTargetType, Map<string, MenuTarget>>
+
+// menu item with its link resolved against the current entries
+export interface ResolvedMenuItem {
+  label: string
+  href: string | null
+  broken: boolean // linked entry was deleted (or no URL is set)
+}
+
+// empty target lookup
+export function createMenuTargets(): MenuTargets {
+  return { post: new Map(), category: new Map(), tag: new Map(), page: new Map() }
+}
+
+// index entries by id (categories and tags have a name, posts and pages a title)
+export function toMenuTargetMap(entries: { id: string; slug: string; name?: string; title?: string }[]) {
+  return new Map(entries.map((entry) => [entry.id, { id: entry.id, title: entry.title ?? entry.name ?? '', slug: entry.slug }]))
+}
+
+// path of an entry on the company site (same URL scheme as the post SERP preview)
+export function getMenuTargetPath(type: MenuTargetType, slug: string): string {
+  if (type === 'category') return `/category/${slug}`
+  if (type === 'tag') return `/tag/${slug}`
+  return `/${slug}`
+}
+
+// resolve the label and link of a menu item; an empty label falls back to the entry's current title
+export function resolveMenuItem(item: MenuItem, targets: MenuTargets): ResolvedMenuItem {
+  if (item.type === 'url') {
+    return { label: item.label || item.url || '', href: item.url || null, broken: !item.url }
+  }
+
+  const target = item.target_id ? targets[item.type].get(item.target_id) : undefined
+  if (!target) {
+    return { label: item.label || `Missing ${menuItemTypeLabels[item.type].toLowerCase()}`, href: null, broken: true }
+  }
+  return { label: item.label || target.title, href: getMenuTargetPath(item.type, target.slug), broken: false }
+}
+
+// remove an item together with its submenu
+export function removeMenuItem(items: MenuItem[], id: string): MenuItem[] {
+  const removedIds = getDescendantIds(items, id).add(id)
+  return items.filter((item) => !removedIds.has(item.id))
+}
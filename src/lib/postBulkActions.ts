@@ -0,0 +1,105 @@
+// Bulk actions for the posts table
+// Each action turns into a per-post operation that runs through runBulk (lib/bulk)
+import blogService, { type BlogPost, type UpdateBlogPostPayload } from '@/services/blog/blogService'
+import type { User } from '@/contexts/AuthContext'
+import { canTransition } from '@/lib/workflow'
+import { getFullPost } from '@/lib/posts'
+
+export type BulkPostAction =
+  | 'publish'
+  | 'unpublish'
+  | 'delete'
+  | 'add_category'
+  | 'remove_category'
+  | 'add_tag'
+  | 'remove_tag'
+  | 'mark_breaking'
+  | 'unmark_breaking'
+
+// menu labels, in display order
+export const bulkPostActions: { value: BulkPostAction; label: string }[] = [
+  { value: 'publish', label: 'Publish' },
+  { value: 'unpublish', label: 'Unpublish' },
+  { value: 'add_category', label: 'Add category' },
+  { value: 'remove_category', label: 'Remove category' },
+  { value: 'add_tag', label: 'Add tag' },
+  { value: 'remove_tag', label: 'Remove tag' },
+  { value: 'mark_breaking', label: 'Mark as breaking' },
+  { value: 'unmark_breaking', label: 'Unmark as breaking' },
+  { value: 'delete', label: 'Delete' },
+]
+
+// actions that need a category or tag to be picked
+export function getBulkActionTermType(action: BulkPostAction): 'category' | 'tag' | null {
+  if (action === 'add_category' || action === 'remove_category') return 'category'
+  if (action === 'add_tag' || action === 'remove_tag') return 'tag'
+  return null
+}
+
+interface BulkOperationContext {
+  companyId: string
+  user: User | null
+  termId?: string // category or tag id for taxonomy actions
+}
+
+/**
+ * Builds the per-post operation for a bulk action
+ * Posts that already match the target state are skipped without a request
+ */
+export function createBulkPostOperation(
+  action: BulkPostAction,
+  { companyId, user, termId }: BulkOperationContext
+): (post: BlogPost) => Promise<unknown> {
+  const update = (post: BlogPost, payload: UpdateBlogPostPayload) =>
+    blogService.update(companyId, post.id, payload)
+
+  // change status if the editorial workflow allows it
+  const changeStatus = async (post: BlogPost, status: 'published' | 'draft') => {
+    if (post.status === status) return
+    if (!canTransition(user, post.status, status)) {
+      throw new Error(`You are not allowed to move this post from ${post.status} to ${status}`)
+    }
+    const payload: UpdateBlogPostPayload = { status }
+    if (status === 'draft') {
+      payload.published_at = null
+    }
+    await update(post, payload)
+  }
+
+  // add or remove an id from a list of taxonomy terms
+  const changeTerms = (terms: { id: string }[] | null | undefined, add: boolean) => {
+    if (!termId) throw new Error('No term selected')
+    const ids = (terms || []).map((term) => term.id)
+    if (add) return ids.includes(termId) ? null : [...ids, termId]
+    return ids.includes(termId) ? ids.filter((id) => id !== termId) : null
+  }
+
+  switch (action) {
+    case 'publish':
+      return (post) => changeStatus(post, 'published')
+    case 'unpublish':
+      return (post) => changeStatus(post, 'draft')
+    case 'delete':
+      return (post) => blogService.delete(companyId, post.id)
+    case 'add_category':
+    case 'remove_category':
+      return async (post) => {
+        const { categories } = await getFullPost(companyId, post.id)
+        const categoryIds = changeTerms(categories, action === 'add_category')
+        if (categoryIds) await update(post, { categoryIds })
+      }
+    case 'add_tag':
+    case 'remove_tag':
+      return async (post) => {
+        const { tags } = await getFullPost(companyId, post.id)
+        const tagIds = changeTerms(tags, action === 'add_tag')
+        if (tagIds) await update(post, { tagIds })
+      }
+    case 'mark_breaking':
+    case 'unmark_breaking':
+      return async (post) => {
+        const breaking = action === 'mark_breaking'
+        if (post.breaking !== breaking) await update(post, { breaking })
+      }
+  }
+}
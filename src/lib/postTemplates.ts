@@ -0,0 +1,58 @@
+// Post templates - reusable post skeletons stored per company
+// Kept in company.settings.post_templates so they need no dedicated backend table
+import companyService, { type Company } from '@/services/company/companyService'
+import { updateCompanySetting } from '@/lib/companySettings'
+
+export interface PostTemplate {
+  id: string
+  name: string
+  title: string
+  content: string
+  excerpt?: string
+  featured_image_url?: string | null
+  category_ids: string[]
+  tag_ids: string[]
+  created_at: string
+}
+
+// fields taken over from a post or form when saving a template
+export type PostTemplateValues = Omit<PostTemplate, 'id' | 'name' | 'created_at'>
+
+// settings key holding the template list
+const SETTINGS_KEY = 'post_templates'
+
+// read templates from company settings, ignoring malformed entries
+export function getPostTemplates(company: Company | null | undefined): PostTemplate[] {
+  const stored = company?.settings?.[SETTINGS_KEY]
+  if (!Array.isArray(stored)) return []
+  return stored.filter(
+    (item): item is PostTemplate =>
+      !!item && typeof item === 'object' && typeof item.id === 'string' && typeof item.name === 'string'
+  )
+}
+
+// write the template list back, keeping all other settings
+function saveTemplates(companyId: string, update: (templates: PostTemplate[]) => PostTemplate[]) {
+  return updateCompanySetting(companyId, SETTINGS_KEY, (company) => update(getPostTemplates(company)))
+}
+
+// load the current templates of a company
+export async function loadPostTemplates(companyId: string): Promise<PostTemplate[]> {
+  return getPostTemplates(await companyService.get(companyId))
+}
+
+// add a template; returns the updated company
+export function addPostTemplate(companyId: string, name: string, values: PostTemplateValues) {
+  const template: PostTemplate = {
+    ...values,
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    created_at: new Date().toISOString(),
+  }
+  return saveTemplates(companyId, (templates) => [...templates, template])
+}
+
+// remove a template; returns the updated company
+export function deletePostTemplate(companyId: string, templateId: string) {
+  return saveTemplates(companyId, (templates) => templates.filter((template) => template.id !== templateId))
+}
@@ -0,0 +1,22 @@
+// Post loading helpers shared by pages and bulk operations
+import blogService, { type BlogPost, type PostListParams } from '@/services/blog/blogService'
+
+// all posts matching a list filter (pages through the results)
+export async function listAllPosts(companyId: string, params: PostListParams = {}): Promise<BlogPost[]> {
+  const allPosts: BlogPost[] = []
+  let currentPage = 1
+  let totalPages = 1
+  do {
+    const response = await blogService.list(companyId, { ...params, limit: 100, page: currentPage })
+    allPosts.push(...(response.data || []))
+    totalPages = response.pagination?.totalPages || 1
+    currentPage++
+  } while (currentPage <= totalPages)
+  return allPosts
+}
+
+// complete post - list rows may be trimmed (shortened content, partial term lists),
+// so anything that copies, diffs or rewrites a post reads it through here first
+export function getFullPost(companyId: string, postId: string): Promise<BlogPost> {
+  return blogService.get(companyId, postId)
+}
@@ -0,0 +1,46 @@
+// Scheduled publishing helpers
+// Converts between ISO dates (API) and datetime-local input values, and formats countdowns
+
+// pad a number to two digits
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * Converts an ISO date string to a datetime-local input value (YYYY-MM-DDTHH:mm) in local time
+ * Returns an empty string for missing or invalid dates
+ */
+export function toDateTimeLocalValue(isoString: string | null | undefined): string {
+  if (!isoString) return ''
+  const date = new Date(isoString)
+  if (Number.isNaN(date.getTime())) return ''
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+/**
+ * Converts a datetime-local input value (interpreted in local time) to an ISO string
+ * Returns null for empty or invalid values
+ */
+export function fromDateTimeLocalValue(value: string | null | undefined): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+  return date.toISOString()
+}
+
+/**
+ * Formats the time left until a date as a short countdown: "2d 4h", "3h 12m", "5m 09s"
+ * Returns null once the date has been reached
+ */
+export function formatCountdown(targetIso: string, now: number): string | null {
+  const remaining = new Date(targetIso).getTime() - now
+  if (Number.isNaN(remaining) || remaining <= 0) return null
+
+  const totalSeconds = Math.floor(remaining / 1000)
+  const days = Math.floor(totalSeconds / 86400)
+  const hours = Math.floor((totalSeconds % 86400) / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`
+  return `${minutes}m ${pad(seconds)}s`
+}
@@ -0,0 +1,26 @@
+// SEO helpers - length guidance for meta fields and URLs for the search result preview
+import type { Company } from '@/services/company/companyService'
+
+// recommended lengths (characters) - search engines truncate longer values
+export const seoLimits = {
+  title: { min: 30, max: 60 },
+  description: { min: 70, max: 160 },
+}
+
+export type LengthStatus = 'empty' | 'short' | 'good' | 'long'
+
+// classify a meta field length against the recommended range
+export function getLengthStatus(length: number, limits: { min: number; max: number }): LengthStatus {
+  if (length === 0) return 'empty'
+  if (length < limits.min) return 'short'
+  if (length > limits.max) return 'long'
+  return 'good'
+}
+
+// public site URL for a company (without trailing slash)
+// falls back to a placeholder domain when the company has none configured
+export function getSiteUrl(company: Company | null | undefined): string {
+  const domain = company?.domain?.trim().replace(/\/+$/, '')
+  if (!domain) return 'https://example.com'
+  return /^https?:\/\//.test(domain) ? domain : `https://${domain}`
+}
@@ -0,0 +1,54 @@
+// Slug helpers - URL-friendly identifiers for posts and taxonomy terms
+import { z } from 'zod'
+
+// how many numbered variants are tried before giving up
+const MAX_SLUG_ATTEMPTS = 20
+
+// lowercase letters and digits, separated by single dashes
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+export const SLUG_FORMAT_MESSAGE = 'Use lowercase letters, numbers and single dashes only'
+
+export function isValidSlug(slug: string): boolean {
+  return SLUG_PATTERN.test(slug)
+}
+
+/**
+ * Optional slug form field (empty lets the backend generate one)
+ * The format is only checked when the slug differs from the stored one, so older slugs can be kept as they are
+ */
+export function slugSchema(storedSlug?: string | null) {
+  return z
+    .string()
+    .optional()
+    .refine((slug) => !slug || slug === storedSlug || isValidSlug(slug), SLUG_FORMAT_MESSAGE)
+}
+
+// turn any text into a lowercase, dash-separated slug ("Hello, World!" -> "hello-world")
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // drop accents
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/[\s_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Finds the first free slug for `base`, trying "base", "base-2", "base-3", ...
+ * `isAvailable` decides whether a candidate is free (e.g. a server-side uniqueness check)
+ */
+export async function findAvailableSlug(
+  base: string,
+  isAvailable: (slug: string) => Promise<boolean>
+): Promise<string> {
+  const slug = slugify(base) || 'untitled'
+  for (let attempt = 1; attempt <= MAX_SLUG_ATTEMPTS; attempt++) {
+    const candidate = attempt === 1 ? slug : `${slug}-${attempt}`
+    if (await isAvailable(candidate)) {
+      return candidate
+    }
+  }
+  throw new Error(`Could not find a free slug for "${slug}"`)
+}
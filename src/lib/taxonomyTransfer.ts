@@ -0,0 +1,273 @@
+// Taxonomy import/export - copies category trees and tag lists between companies as CSV or JSON
+// Terms are matched by slug: existing slugs are updated (or skipped), new slugs are created
+import blogService, { type Category, type Tag } from '@/services/blog/blogService'
+import { buildTree, flattenTree } from '@/lib/tree'
+import { isValidSlug, slugify } from '@/lib/slug'
+import { parseCsv, toCsv } from '@/lib/csv'
+import type { TermType } from '@/lib/termMerge'
+
+export type TaxonomyFileFormat = 'csv' | 'json'
+
+// one term in an export file; categories reference their parent by slug
+export interface TaxonomyRecord {
+  name: string
+  slug: string
+  description?: string // undefined when the file has no description column
+  parent_slug?: string | null // categories only; undefined when the file has no parent column
+}
+
+// JSON export file
+export interface TaxonomyExportFile {
+  type: TermType
+  exported_at: string
+  items: TaxonomyRecord[]
+}
+
+export type TaxonomyImportAction = 'create' | 'update' | 'skip'
+
+// what an import will do with one row of the file
+export interface TaxonomyImportItem {
+  row: number // 1-based row in the file (data rows, header excluded)
+  record: TaxonomyRecord
+  action: TaxonomyImportAction
+  existing?: Category | Tag // term with the same slug
+  changes: string[] // changed fields for updates
+  reason?: string // why a row is skipped
+}
+
+export interface TaxonomyImportOptions {
+  updateExisting: boolean // false keeps terms with matching slugs untouched
+}
+
+const CATEGORY_COLUMNS: (keyof TaxonomyRecord)[] = ['name', 'slug', 'description', 'parent_slug']
+const TAG_COLUMNS: (keyof TaxonomyRecord)[] = ['name', 'slug', 'description']
+
+// terms as export records; categories are listed parents first so an import can create them in order
+export function toTaxonomyRecords(type: TermType, terms: (Category | Tag)[]): TaxonomyRecord[] {
+  if (type === 'tag') {
+    return [...terms]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((tag) => ({ name: tag.name, slug: tag.slug, description: tag.description || '' }))
+  }
+
+  const categories = terms as Category[]
+  const slugById = new Map(categories.map((category) => [category.id, category.slug]))
+  return flattenTree(buildTree(categories, (a, b) => a.name.localeCompare(b.name))).map(({ item }) => ({
+    name: item.name,
+    slug: item.slug,
+    description: item.description || '',
+    parent_slug: (item.parent_id && slugById.get(item.parent_id)) || '',
+  }))
+}
+
+// export file content for the given format
+export function exportTaxonomy(type: TermType, terms: (Category | Tag)[], format: TaxonomyFileFormat): string {
+  const records = toTaxonomyRecords(type, terms)
+  if (format === 'csv') {
+    return toCsv(records, type === 'category' ? CATEGORY_COLUMNS : TAG_COLUMNS)
+  }
+  const file: TaxonomyExportFile = { type, exported_at: new Date().toISOString(), items: records }
+  return `${JSON.stringify(file, null, 2)}\n`
+}
+
+// detect the format from the file name, falling back to the content
+export function detectTaxonomyFormat(fileName: string, content: string): TaxonomyFileFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  if (extension === 'json' || extension === 'csv') return extension
+  return /^\s*[[{]/.test(content) ? 'json' : 'csv'
+}
+
+const optionalText = (value: unknown) => (value == null ? undefined : String(value).trim())
+
+/**
+ * Reads records from an export file (ours or a hand-made one)
+ * JSON may be an export file or a plain array; CSV needs a header row with at least a "name" column
+ */
+export function parseTaxonomyFile(type: TermType, content: string, format: TaxonomyFileFormat): TaxonomyRecord[] {
+  let rows: Record<string, unknown>[]
+  if (format === 'json') {
+    let data: unknown
+    try {
+      data = JSON.parse(content)
+    } catch {
+      throw new Error('The file is not valid JSON.')
+    }
+    const file = data as Partial<TaxonomyExportFile>
+    if (!Array.isArray(data) && file?.type && file.type !== type) {
+      const label = (termType: TermType) => (termType === 'category' ? 'categories' : 'tags')
+      throw new Error(`The file contains ${label(file.type)}, not ${label(type)}.`)
+    }
+    const items = Array.isArray(data) ? data : file?.items
+    if (!Array.isArray(items)) throw new Error('The JSON file has no list of terms.')
+    rows = items.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+  } else {
+    rows = parseCsv(content)
+    if (rows.length > 0 && !('name' in rows[0])) throw new Error('The CSV file needs a "name" column.')
+  }
+
+  return rows.map((row) => {
+    const name = optionalText(row.name) || ''
+    const record: TaxonomyRecord = {
+      name,
+      slug: optionalText(row.slug) || slugify(name),
+      description: optionalText(row.description),
+    }
+    if (type === 'category' && row.parent_slug !== undefined) record.parent_slug = optionalText(row.parent_slug) || null
+    return record
+  })
+}
+
+/**
+ * Dry run: decides per row whether it creates, updates or skips a term, without calling the API
+ * Existing slugs are never changed - a matching slug means "same term"
+ */
+export function planTaxonomyImport(
+  type: TermType,
+  records: TaxonomyRecord[],
+  existing: (Category | Tag)[],
+  { updateExisting }: TaxonomyImportOptions
+): TaxonomyImportItem[] {
+  const existingBySlug = new Map(existing.map((term) => [term.slug, term]))
+  const existingSlugById = new Map(existing.map((term) => [term.id, term.slug]))
+  const seenSlugs = new Set<string>()
+
+  const items: TaxonomyImportItem[] = records.map((record, index) => {
+    const item: TaxonomyImportItem = { row: index + 1, record, action: 'skip', changes: [] }
+    if (!record.name) return { ...item, reason: 'Name is missing' }
+    if (!isValidSlug(record.slug)) return { ...item, reason: `Invalid slug "${record.slug}"` }
+    if (seenSlugs.has(record.slug)) return { ...item, reason: 'Slug appears earlier in the file' }
+    seenSlugs.add(record.slug)
+    if (record.parent_slug === record.slug) return { ...item, reason: 'Category is its own parent' }
+
+    const match = existingBySlug.get(record.slug)
+    if (!match) return { ...item, action: 'create' }
+    if (!updateExisting) return { ...item, existing: match, reason: 'Already exists' }
+
+    const changes: string[] = []
+    if (record.name !== match.name) changes.push('name')
+    if (record.description !== undefined && record.description !== (match.description || '')) {
+      changes.push('description')
+    }
+    if (type === 'category') {
+      const parentId = (match as Category).parent_id
+      const currentParent = (parentId && existingSlugById.get(parentId)) || null
+      if (record.parent_slug !== undefined && (record.parent_slug || null) !== currentParent) changes.push('parent')
+    }
+    return changes.length > 0
+      ? { ...item, action: 'update', existing: match, changes }
+      : { ...item, existing: match, reason: 'No changes' }
+  })
+
+  if (type === 'category') checkCategoryParents(items, existing as Category[])
+  return orderParentsFirst(items)
+}
+
+// skip categories whose parent is unknown or whose parent chain would loop after the import
+function checkCategoryParents(items: TaxonomyImportItem[], existing: Category[]) {
+  const existingSlugById = new Map(existing.map((category) => [category.id, category.slug]))
+  // parent slug of every slug after the import
+  const parentBySlug = new Map<string, string | null>(
+    existing.map((category) => [
+      category.slug,
+      (category.parent_id && existingSlugById.get(category.parent_id)) || null,
+    ])
+  )
+
+  // resolve until nothing changes: skipping a row can orphan rows below it
+  let changed = true
+  while (changed) {
+    changed = false
+    const imported = items.filter((item) => item.action !== 'skip')
+    const known = new Set([...parentBySlug.keys(), ...imported.map((item) => item.record.slug)])
+    imported.forEach((item) => {
+      const parentSlug = item.record.parent_slug
+      if (parentSlug && !known.has(parentSlug)) {
+        skip(item, `Parent "${parentSlug}" does not exist`)
+        changed = true
+      }
+    })
+    if (changed) continue
+
+    const finalParents = new Map(parentBySlug)
+    imported.forEach((item) => {
+      if (item.action === 'create' || item.changes.includes('parent')) {
+        finalParents.set(item.record.slug, item.record.parent_slug || null)
+      }
+    })
+    imported.forEach((item) => {
+      if (item.action === 'skip') return
+      let current = finalParents.get(item.record.slug) || null
+      for (let steps = 0; current && steps <= finalParents.size; steps++) {
+        if (current === item.record.slug) {
+          skip(item, 'Parent chain would loop back to this category')
+          changed = true
+          break
+        }
+        current = finalParents.get(current) || null
+      }
+    })
+  }
+}
+
+function skip(item: TaxonomyImportItem, reason: string) {
+  item.action = 'skip'
+  item.changes = []
+  item.reason = reason
+}
+
+// rows whose parent comes later in the file are moved behind it (stable otherwise)
+function orderParentsFirst(items: TaxonomyImportItem[]): TaxonomyImportItem[] {
+  const bySlug = new Map(items.map((item) => [item.record.slug, item]))
+  const ordered: TaxonomyImportItem[] = []
+  const placed = new Set<TaxonomyImportItem>()
+  const place = (item: TaxonomyImportItem, depth: number) => {
+    if (placed.has(item) || depth > items.length) return
+    const parent = item.record.parent_slug ? bySlug.get(item.record.parent_slug) : undefined
+    if (parent && parent !== item) place(parent, depth + 1)
+    placed.add(item)
+    ordered.push(item)
+  }
+  items.forEach((item) => place(item, 0))
+  return ordered
+}
+
+/**
+ * Applies one planned row; `idBySlug` maps slugs to term ids and is extended with created terms
+ * Rows must run in plan order (one at a time) so parents exist before their children
+ */
+export function createTaxonomyImportOperation(
+  companyId: string,
+  type: TermType,
+  idBySlug: Map<string, string>
+): (item: TaxonomyImportItem) => Promise<unknown> {
+  const resolveParent = (parentSlug: string | null | undefined) => {
+    if (!parentSlug) return null
+    const parentId = idBySlug.get(parentSlug)
+    if (!parentId) throw new Error(`Parent "${parentSlug}" was not imported`)
+    return parentId
+  }
+
+  return async ({ action, record, existing, changes }) => {
+    if (action === 'create') {
+      const payload = { name: record.name, slug: record.slug, description: record.description || undefined }
+      const created =
+        type === 'category'
+          ? await blogService.createCategory(companyId, { ...payload, parent_id: resolveParent(record.parent_slug) })
+          : await blogService.createTag(companyId, payload)
+      idBySlug.set(created.slug || record.slug, created.id)
+    } else if (action === 'update' && existing) {
+      const payload = {
+        ...(changes.includes('name') ? { name: record.name } : {}),
+        ...(changes.includes('description') ? { description: record.description || '' } : {}),
+      }
+      if (type === 'category') {
+        await blogService.updateCategory(companyId, existing.id, {
+          ...payload,
+          ...(changes.includes('parent') ? { parent_id: resolveParent(record.parent_slug) } : {}),
+        })
+      } else {
+        await blogService.updateTag(companyId, existing.id, payload)
+      }
+    }
+  }
+}
@@ -0,0 +1,90 @@
+// Merging taxonomy terms - moves all posts from source tags/categories to a target and removes the sources
+// Posts are updated one by one through runBulk (lib/bulk); sources are only deleted when every post moved
+import blogService, { type BlogPost, type Category, type Tag } from '@/services/blog/blogService'
+import { getFullPost, listAllPosts } from '@/lib/posts'
+
+export type TermType = 'category' | 'tag'
+
+// posts affected by a merge
+export interface TermMergePreview {
+  posts: BlogPost[] // every post that has at least one source term
+  countsBySource: Record<string, number> // posts per source term
+}
+
+// load the posts of every source term (posts with several sources are counted once)
+export async function previewTermMerge(companyId: string, type: TermType, sourceIds: string[]): Promise<TermMergePreview> {
+  const postsById = new Map<string, BlogPost>()
+  const countsBySource: Record<string, number> = {}
+  for (const sourceId of sourceIds) {
+    const posts = await listAllPosts(companyId, type === 'category' ? { category: sourceId } : { tag: sourceId })
+    countsBySource[sourceId] = posts.length
+    posts.forEach((post) => postsById.set(post.id, post))
+  }
+  return { posts: Array.from(postsById.values()), countsBySource }
+}
+
+// per-post operation replacing the source terms with the target
+export function createTermReassignOperation(
+  companyId: string,
+  type: TermType,
+  sourceIds: string[],
+  targetId: string
+): (post: BlogPost) => Promise<unknown> {
+  const reassign = (terms: { id: string }[] | null | undefined) => {
+    const ids = (terms || []).map((term) => term.id).filter((id) => !sourceIds.includes(id))
+    return ids.includes(targetId) ? ids : [...ids, targetId]
+  }
+
+  return async (post) => {
+    const fullPost = await getFullPost(companyId, post.id)
+    return type === 'category'
+      ? blogService.update(companyId, post.id, { categoryIds: reassign(fullPost.categories) })
+      : blogService.update(companyId, post.id, { tagIds: reassign(fullPost.tags) })
+  }
+}
+
+/**
+ * Removes the merged source terms and keeps their slugs pointing to the target
+ * Subcategories of merged categories move under the target category
+ */
+export async function completeTermMerge(
+  companyId: string,
+  type: TermType,
+  sources: (Category | Tag)[],
+  target: Category | Tag,
+  allCategories: Category[] = []
+): Promise<void> {
+  const sourceIds = sources.map((source) => source.id)
+
+  if (type === 'category') {
+    // the target must not end up below a category that is about to be deleted
+    const byId = new Map(allCategories.map((category) => [category.id, category]))
+    let targetParentId = byId.get(target.id)?.parent_id || null
+    while (targetParentId && sourceIds.includes(targetParentId)) {
+      targetParentId = byId.get(targetParentId)?.parent_id || null
+    }
+    if (targetParentId !== (byId.get(target.id)?.parent_id || null)) {
+      await blogService.updateCategory(companyId, target.id, { parent_id: targetParentId })
+    }
+
+    const children = allCategories.filter(
+      (category) =>
+        category.parent_id &&
+        sourceIds.includes(category.parent_id) &&
+        !sourceIds.includes(category.id) &&
+        category.id !== target.id
+    )
+    for (const child of children) {
+      await blogService.updateCategory(companyId, child.id, { parent_id: target.id })
+    }
+  }
+
+  for (const source of sources) {
+    if (type === 'category') {
+      await blogService.deleteCategory(companyId, source.id)
+    } else {
+      await blogService.deleteTag(companyId, source.id)
+    }
+    await blogService.createRedirect(companyId, { entity_type: type, entity_id: target.id, old_slug: source.slug })
+  }
+}
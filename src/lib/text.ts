@@ -0,0 +1,51 @@
+// Plain text helpers for post content (HTML from the block editor)
+import { parseContent } from '@/lib/blocks'
+
+// default maximum excerpt length (characters)
+export const EXCERPT_MAX_LENGTH = 280
+
+// strip HTML tags and collapse whitespace
+export function stripHtml(html: string | null | undefined): string {
+  if (!html) return ''
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  // keep block boundaries as spaces so words from adjacent blocks don't run together
+  doc.body.querySelectorAll('[data-block], p, h1, h2, h3, h4, li, blockquote, pre, figcaption').forEach((el) => {
+    el.append(' ')
+  })
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Truncates text to at most `maxLength` characters without cutting a word in half
+ * Appends an ellipsis when the text was shortened
+ */
+export function truncateAtWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text
+  const cut = text.slice(0, maxLength - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  // fall back to a hard cut for a single very long word
+  const truncated = lastSpace > 0 ? cut.slice(0, lastSpace) : cut
+  return `${truncated.replace(/[\s.,;:!?-]+$/, '')}…`
+}
+
+/**
+ * Generates an excerpt from the first paragraphs of post content
+ * Headings, code, embeds and images are skipped; the result is plain text cut at a word boundary
+ */
+export function generateExcerpt(content: string | null | undefined, maxLength = EXCERPT_MAX_LENGTH): string {
+  if (!content) return ''
+
+  const paragraphs: string[] = []
+  let length = 0
+  for (const block of parseContent(content)) {
+    if (block.type !== 'paragraph') continue
+    const text = stripHtml(block.text)
+    if (!text) continue
+    paragraphs.push(text)
+    length += text.length + 1
+    // stop once there is enough text to fill the excerpt
+    if (length >= maxLength) break
+  }
+
+  return truncateAtWord(paragraphs.join(' '), maxLength)
+}
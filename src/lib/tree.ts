@@ -0,0 +1,153 @@
+// Tree helpers for hierarchical items linked by parent_id (categories, hierarchical taxonomies)
+// Items are kept as a flat list; these helpers derive the tree, visible rows and move updates
+
+export interface TreeItem {
+  id: string
+  parent_id?: string | null
+  position?: number | null // order among siblings (lower first)
+}
+
+export interface TreeNode<T extends TreeItem> {
+  item: T
+  depth: number // 0 for root items
+  children: TreeNode<T>[]
+}
+
+// visible row of a flattened tree
+export interface TreeRow<T extends TreeItem> {
+  item: T
+  depth: number
+  hasChildren: boolean
+}
+
+// where a dragged item should end up
+export interface TreeMoveTarget {
+  parentId: string | null
+  index: number // position among the new siblings (after removing the moved item)
+}
+
+// new parent and position of an item after a move
+export interface TreeOrderUpdate {
+  id: string
+  parent_id: string | null
+  position: number
+}
+
+// sibling order: explicit position first, then the given fallback (e.g. by name)
+function compareSiblings<T extends TreeItem>(fallback?: (a: T, b: T) => number) {
+  return (a: T, b: T) => {
+    const positionA = a.position ?? Number.MAX_SAFE_INTEGER
+    const positionB = b.position ?? Number.MAX_SAFE_INTEGER
+    if (positionA !== positionB) return positionA - positionB
+    return fallback ? fallback(a, b) : 0
+  }
+}
+
+// build the tree; items whose parent is missing are shown as roots
+// siblings follow their position unless ignorePosition is set (e.g. while sorting by a column)
+export function buildTree<T extends TreeItem>(
+  items: T[],
+  fallbackCompare?: (a: T, b: T) => number,
+  { ignorePosition = false }: { ignorePosition?: boolean } = {}
+): TreeNode<T>[] {
+  const ids = new Set(items.map((item) => item.id))
+  const childrenByParent = new Map<string | null, T[]>()
+  items.forEach((item) => {
+    const parentId = item.parent_id && ids.has(item.parent_id) ? item.parent_id : null
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) || []), item])
+  })
+
+  const compare = ignorePosition ? fallbackCompare || (() => 0) : compareSiblings(fallbackCompare)
+  // visited guards against cycles in inconsistent data
+  const visited = new Set<string>()
+  const build = (parentId: string | null, depth: number): TreeNode<T>[] =>
+    [...(childrenByParent.get(parentId) || [])]
+      .sort(compare)
+      .filter((item) => !visited.has(item.id))
+      .map((item) => {
+        visited.add(item.id)
+        return { item, depth, children: build(item.id, depth + 1) }
+      })
+
+  return build(null, 0)
+}
+
+// depth-first list of rows, skipping the children of collapsed items
+export function flattenTree<T extends TreeItem>(nodes: TreeNode<T>[], collapsedIds?: Set<string>): TreeRow<T>[] {
+  return nodes.flatMap((node) => [
+    { item: node.item, depth: node.depth, hasChildren: node.children.length > 0 },
+    ...(collapsedIds?.has(node.item.id) ? [] : flattenTree(node.children, collapsedIds)),
+  ])
+}
+
+// ids of all children, grandchildren, ... of an item
+export function getDescendantIds<T extends TreeItem>(items: T[], id: string): Set<string> {
+  const descendants = new Set<string>()
+  const queue = [id]
+  while (queue.length > 0) {
+    const parentId = queue.shift()
+    items.forEach((item) => {
+      if (item.parent_id === parentId && !descendants.has(item.id) && item.id !== id) {
+        descendants.add(item.id)
+        queue.push(item.id)
+      }
+    })
+  }
+  return descendants
+}
+
+// moving an item below itself or one of its descendants would detach a branch from the tree
+export function wouldCreateCycle<T extends TreeItem>(items: T[], id: string, newParentId: string | null): boolean {
+  if (!newParentId) return false
+  return newParentId === id || getDescendantIds(items, id).has(newParentId)
+}
+
+// target for dropping an item before, after or inside another item
+export function getDropTarget<T extends TreeItem>(
+  items: T[],
+  draggedId: string,
+  overId: string,
+  placement: 'before' | 'after' | 'inside',
+  fallbackCompare?: (a: T, b: T) => number
+): TreeMoveTarget | null {
+  const over = items.find((item) => item.id === overId)
+  if (!over || draggedId === overId) return null
+  if (placement === 'inside') {
+    return { parentId: over.id, index: Number.MAX_SAFE_INTEGER } // append as last child
+  }
+
+  const parentId = over.parent_id && items.some((item) => item.id === over.parent_id) ? over.parent_id : null
+  const siblings = items
+    .filter((item) => (item.parent_id || null) === parentId && item.id !== draggedId)
+    .sort(compareSiblings(fallbackCompare))
+  const overIndex = siblings.findIndex((item) => item.id === overId)
+  return { parentId, index: placement === 'after' ? overIndex + 1 : overIndex }
+}
+
+// parent and position updates for moving an item; every sibling at the target gets a fresh position
+export function getMoveUpdates<T extends TreeItem>(
+  items: T[],
+  id: string,
+  target: TreeMoveTarget,
+  fallbackCompare?: (a: T, b: T) => number
+): TreeOrderUpdate[] {
+  const moved = items.find((item) => item.id === id)
+  if (!moved) return []
+
+  const siblings = items
+    .filter((item) => (item.parent_id || null) === target.parentId && item.id !== id)
+    .sort(compareSiblings(fallbackCompare))
+  const index = Math.max(0, Math.min(target.index, siblings.length))
+  siblings.splice(index, 0, moved)
+
+  return siblings.map((item, position) => ({ id: item.id, parent_id: target.parentId, position }))
+}
+
+// apply order updates to the flat list (for optimistic UI updates)
+export function applyOrderUpdates<T extends TreeItem>(items: T[], updates: TreeOrderUpdate[]): T[] {
+  const updatesById = new Map(updates.map((update) => [update.id, update]))
+  return items.map((item) => {
+    const update = updatesById.get(item.id)
+    return update ? { ...item, parent_id: update.parent_id, position: update.position } : item
+  })
+}
@@ -1,5 +1,5 @@
-// Utility function for merging Tailwind CSS classes
-// This is used by shadcn/ui components to combine class names safely
+// Shared utility functions
+// cn is used by shadcn/ui components to combine class names safely; the date formatters are used across the post pages
 import { clsx, type ClassValue } from 'clsx'
 import { twMerge } from 'tailwind-merge'
 
@@ -11,3 +11,17 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// pad a number to two digits
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// format date for display: 15/01/2025
+export function formatDate(dateString: string): string {
+  const date = new Date(dateString)
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`
+}
+
+// format date and time for display: 15/01/2025 at 16:24h
+export function formatDateTime(dateString: string): string {
+  const date = new Date(dateString)
+  return `${formatDate(dateString)} at ${pad(date.getHours())}:${pad(date.getMinutes())}h`
+}
@@ -0,0 +1,82 @@
+// Editorial workflow - which post status transitions a user may perform
+// Transitions are gated with the same composable rules used by the sidebar
+import type { PostStatus } from '@/services/blog/blogService'
+import type { User } from '@/contexts/AuthContext'
+import { hasPermission, or, type Rule, type RuleContext } from '@/sidebar/sidebarRules'
+
+// human readable status labels
+export const statusLabels: Record<PostStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  changes_requested: 'Changes Requested',
+  scheduled: 'Scheduled',
+  published: 'Published',
+}
+
+const canEdit = hasPermission('blog.update')
+const canPublish = hasPermission('blog.publish')
+const canReview = hasPermission('blog.review')
+
+// allowed transitions per current status
+// keeping the same status is always allowed (e.g. editing a published post)
+// approving a post in review publishes it, so reviewers may publish from in_review without blog.publish
+const transitions: Record<PostStatus, Partial<Record<PostStatus, Rule>>> = {
+  draft: {
+    in_review: canEdit,
+    scheduled: canPublish,
+    published: canPublish,
+  },
+  changes_requested: {
+    draft: canEdit,
+    in_review: canEdit,
+    scheduled: canPublish,
+    published: canPublish,
+  },
+  in_review: {
+    draft: canEdit, // withdraw from review
+    changes_requested: canReview,
+    scheduled: or(canReview, canPublish),
+    published: or(canReview, canPublish),
+  },
+  scheduled: {
+    draft: canPublish,
+    published: canPublish,
+  },
+  published: {
+    draft: canPublish, // unpublish
+  },
+}
+
+// build the rule context for a user (same shape the sidebar uses)
+function getContext(user: User | null): RuleContext {
+  return {
+    user,
+    permissions: user?.permissions || [],
+  }
+}
+
+// check if a user may move a post from one status to another
+export function canTransition(user: User | null, from: PostStatus, to: PostStatus): boolean {
+  if (from === to) return true
+  const rule = transitions[from]?.[to]
+  return rule ? rule.evaluate(getContext(user)) : false
+}
+
+// statuses that can be picked in the post form status select
+// review states are only reached through the submit/approve/reject actions, except the current one
+export function getSelectableStatuses(user: User | null, current: PostStatus): PostStatus[] {
+  const options: PostStatus[] = ['draft', 'scheduled', 'published']
+  return (Object.keys(statusLabels) as PostStatus[]).filter(
+    (status) => status === current || (options.includes(status) && canTransition(user, current, status))
+  )
+}
+
+// check if a user may submit a post for review
+export function canSubmitForReview(user: User | null, status: PostStatus): boolean {
+  return status !== 'in_review' && canTransition(user, status, 'in_review')
+}
+
+// check if a user may approve or reject a post
+export function canReviewPost(user: User | null, status: PostStatus): boolean {
+  return status === 'in_review' && canReview.evaluate(getContext(user))
+}
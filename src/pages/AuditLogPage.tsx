@@ -0,0 +1,449 @@
+// AuditLogPage - who created, changed or deleted what within the selected company
+// Filters and page are kept in URL query params (?entity_type=post&entity_id=<id> shows the history of one record)
+import { Fragment, useState, useEffect, useRef } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import auditLogService, {
+  type AuditAction,
+  type AuditEntityType,
+  type AuditLogEntry,
+  type AuditLogParams,
+  type AuditLogResponse,
+} from '@/services/audit/auditLogService'
+import companyService, { type CompanyMember } from '@/services/company/companyService'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader } from '@/components/ui/loader'
+import { DiffView } from '@/components/DiffView'
+import { useCompany } from '@/hooks/useCompany'
+import {
+  auditActionLabels,
+  auditEntityLabels,
+  formatRelativeTime,
+  getAuditEntityPath,
+  getAuditEntryLabel,
+  getAuditFieldChanges,
+} from '@/lib/audit'
+import { formatDateTime } from '@/lib/utils'
+import { ChevronDown, ChevronRight, History, X } from 'lucide-react'
+
+// entries per page
+const PAGE_SIZE = 20
+
+const actionBadgeColors: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+}
+
+const selectClassName =
+  'px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export function AuditLogPage() {
+  const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [pagination, setPagination] = useState<AuditLogResponse['pagination'] | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [hasLoaded, setHasLoaded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // ignore responses of outdated requests (e.g. while changing filters quickly)
+  const latestRequestRef = useRef(0)
+  // members of the company for the actor filter
+  const [members, setMembers] = useState<CompanyMember[]>([])
+  // entries with their diff shown
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
+
+  // list state lives in the URL so filtered views can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams()
+  const queryString = searchParams.toString()
+  const actionFilter = (searchParams.get('action') as AuditAction | null) || ''
+  const entityTypeFilter = (searchParams.get('entity_type') as AuditEntityType | null) || ''
+  const entityIdFilter = searchParams.get('entity_id') || ''
+  const actorFilter = searchParams.get('actor') || ''
+  const fromFilter = searchParams.get('from') || ''
+  const toFilter = searchParams.get('to') || ''
+  const page = Math.max(1, Number(searchParams.get('page')) || 1)
+  const hasFilters = !!(actionFilter || entityTypeFilter || entityIdFilter || actorFilter || fromFilter || toFilter)
+
+  // fetch entries when selected company or list params change
+  useEffect(() => {
+    // wait for company context to finish loading
+    if (isLoadingCompany) {
+      return
+    }
+
+    // if no company selected, show error
+    if (!selectedCompany) {
+      setError('No company selected. Please select a company first.')
+      setIsLoading(false)
+      return
+    }
+
+    fetchEntries()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCompany, isLoadingCompany, queryString])
+
+  // load the members for the actor filter
+  useEffect(() => {
+    if (!selectedCompany) return
+    companyService
+      .getMembers(selectedCompany.id)
+      .then(setMembers)
+      .catch((err) => console.error('Failed to fetch members:', err))
+  }, [selectedCompany])
+
+  // update list query params; filter changes jump back to the first page
+  const updateParams = (changes: Record<string, string | null>, resetPage = true) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value)
+        } else {
+          next.delete(key)
+        }
+      })
+      if (resetPage) {
+        next.delete('page')
+      }
+      return next
+    })
+  }
+
+  // build API params from the URL
+  const getListParams = (): AuditLogParams => {
+    const params: AuditLogParams = { page, limit: PAGE_SIZE }
+    if (actionFilter) params.action = actionFilter
+    if (entityTypeFilter) params.entity_type = entityTypeFilter
+    if (entityIdFilter) params.entity_id = entityIdFilter
+    if (actorFilter) params.actor = actorFilter
+    if (fromFilter) params.from = fromFilter
+    if (toFilter) params.to = toFilter
+    return params
+  }
+
+  const fetchEntries = async () => {
+    if (!selectedCompany) return
+
+    const requestId = ++latestRequestRef.current
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await auditLogService.list(selectedCompany.id, getListParams())
+      if (requestId !== latestRequestRef.current) return
+      setEntries(response.data || [])
+      setPagination(response.pagination)
+    } catch (err) {
+      if (requestId !== latestRequestRef.current) return
+      console.error('Failed to fetch audit log:', err)
+      setError('Failed to load the audit log. Please try again.')
+    } finally {
+      if (requestId === latestRequestRef.current) {
+        setIsLoading(false)
+        setHasLoaded(true)
+      }
+    }
+  }
+
+  const toggleExpanded = (entryId: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(entryId)) {
+        next.delete(entryId)
+      } else {
+        next.add(entryId)
+      }
+      return next
+    })
+  }
+
+  // show every entry of the record of an entry
+  const showHistory = (entry: AuditLogEntry) => {
+    updateParams({ entity_type: entry.entity_type, entity_id: entry.entity_id, action: null })
+  }
+
+  // full-page loader only for the first load - later loads keep the filters mounted
+  if (isLoadingCompany || (isLoading && !hasLoaded)) {
+    return (
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center justify-center py-12">
+            <div className="text-center">
+              <Loader className="mx-auto mb-4" />
+              <p className="text-gray-600">Loading audit log...</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !selectedCompany) {
+    return (
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>Error</CardTitle>
+              <CardDescription>{error || 'No company selected.'}</CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  // label of the record filter chip (taken from the listed entries of that record)
+  const historyEntry = entityIdFilter ? entries.find((entry) => entry.entity_id === entityIdFilter) : undefined
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-600">Who created, changed or deleted what in {selectedCompany.name}</p>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-6 flex flex-wrap items-center gap-2">
+        <select
+          value={entityTypeFilter}
+          onChange={(e) => updateParams({ entity_type: e.target.value || null, entity_id: null })}
+          className={selectClassName}
+          aria-label="Record type"
+        >
+          <option value="">All records</option>
+          {(Object.keys(auditEntityLabels) as AuditEntityType[]).map((type) => (
+            <option key={type} value={type}>
+              {auditEntityLabels[type]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={actionFilter}
+          onChange={(e) => updateParams({ action: e.target.value || null })}
+          className={selectClassName}
+          aria-label="Action"
+        >
+          <option value="">All actions</option>
+          {(Object.keys(auditActionLabels) as AuditAction[]).map((action) => (
+            <option key={action} value={action}>
+              {auditActionLabels[action]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={actorFilter}
+          onChange={(e) => updateParams({ actor: e.target.value || null })}
+          className={selectClassName}
+          aria-label="Changed by"
+        >
+          <option value="">Anyone</option>
+          {members.map((member) => (
+            <option key={member.id} value={member.id}>
+              {member.name || member.email}
+            </option>
+          ))}
+        </select>
+        <Input
+          type="date"
+          value={fromFilter}
+          max={toFilter || undefined}
+          onChange={(e) => updateParams({ from: e.target.value || null })}
+          className="w-40"
+          aria-label="From"
+        />
+        <span className="text-gray-500">to</span>
+        <Input
+          type="date"
+          value={toFilter}
+          min={fromFilter || undefined}
+          onChange={(e) => updateParams({ to: e.target.value || null })}
+          className="w-40"
+          aria-label="To"
+        />
+        {entityIdFilter && (
+          <span className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-sm bg-blue-100 text-blue-800">
+            <History className="w-4 h-4" />
+            {historyEntry ? getAuditEntryLabel(historyEntry) : entityIdFilter}
+            <button
+              onClick={() => updateParams({ entity_id: null })}
+              className="ml-1 text-blue-600 hover:text-blue-900"
+              title="Show all records"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </span>
+        )}
+        {hasFilters && (
+          <button
+            onClick={() =>
+              updateParams({ action: null, entity_type: null, entity_id: null, actor: null, from: null, to: null })
+            }
+            className="text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Entries Table */}
+      <Card className={isLoading ? 'opacity-50' : ''}>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="pl-6 py-3 w-4" />
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    When
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Changed By
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Action
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Record
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                      {hasFilters ? 'No entries match the filters.' : 'Nothing has been changed yet.'}
+                    </td>
+                  </tr>
+                ) : (
+                  entries.map((entry) => {
+                    const isExpanded = expandedIds.has(entry.id)
+                    const entityPath = getAuditEntityPath(entry)
+                    const label = getAuditEntryLabel(entry)
+                    const changes = isExpanded ? getAuditFieldChanges(entry) : []
+
+                    return (
+                      <Fragment key={entry.id}>
+                        <tr className="hover:bg-gray-50">
+                          <td className="pl-6 py-4">
+                            <button
+                              onClick={() => toggleExpanded(entry.id)}
+                              className="text-gray-500 hover:text-gray-900"
+                              title={isExpanded ? 'Hide changes' : 'Show changes'}
+                            >
+                              {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                            </button>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">{formatDateTime(entry.created_at)}</div>
+                            <div className="text-xs text-gray-500">{formatRelativeTime(entry.created_at)}</div>
+                          </td>
+                          <td className="px-6 py-4">
+                            {entry.actor ? (
+                              <>
+                                <div className="text-sm text-gray-900">{entry.actor.name}</div>
+                                {entry.actor.email && <div className="text-xs text-gray-500">{entry.actor.email}</div>}
+                              </>
+                            ) : (
+                              <span className="text-sm text-gray-500">System</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 py-1 text-xs rounded-full ${actionBadgeColors[entry.action]}`}>
+                              {auditActionLabels[entry.action]}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="text-xs text-gray-500">{auditEntityLabels[entry.entity_type]}</div>
+                            {entityPath ? (
+                              <Link to={entityPath} className="text-sm font-medium text-gray-900 hover:text-blue-600">
+                                {label}
+                              </Link>
+                            ) : (
+                              <span className="text-sm font-medium text-gray-900">{label}</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 text-right">
+                            {entityIdFilter !== entry.entity_id && (
+                              <button
+                                onClick={() => showHistory(entry)}
+                                className="text-gray-600 hover:text-gray-900"
+                                title="Show history of this record"
+                              >
+                                <History className="w-4 h-4" />
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="bg-gray-50">
+                            <td colSpan={6} className="px-6 py-4">
+                              {changes.length === 0 ? (
+                                <p className="text-sm text-gray-500">No field changes were recorded for this entry.</p>
+                              ) : (
+                                <div className="space-y-3">
+                                  {changes.map((change) => (
+                                    <DiffView
+                                      key={change.field}
+                                      label={change.label}
+                                      before={change.before}
+                                      after={change.after}
+                                      monospace={change.monospace}
+                                    />
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          {pagination && pagination.total > 0 && (
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+              <span className="text-sm text-gray-600">
+                Showing {(pagination.page - 1) * pagination.limit + 1}-
+                {Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total} entries
+              </span>
+              {pagination.totalPages > 1 && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateParams({ page: page > 2 ? String(page - 1) : null }, false)}
+                    disabled={page <= 1 || isLoading}
+                  >
+                    Previous
+                  </Button>
+                  <span className="text-sm text-gray-600">
+                    Page {pagination.page} of {pagination.totalPages}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateParams({ page: String(page + 1) }, false)}
+                    disabled={page >= pagination.totalPages || isLoading}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
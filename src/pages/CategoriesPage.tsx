@@ -1,7 +1,8 @@
 // CategoriesPage - displays and manages categories for a company
 // Left side: Form for creating categories (35%)
-// Right side: Table displaying categories (65%)
+// Right side: Category tree (65%) - drag rows to reorder them or move them under another category
 import { useState, useEffect, useMemo } from 'react'
+import { Link } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -12,26 +13,48 @@ import { Input } from '@/components/ui/input'
 import { Loader } from '@/components/ui/loader'
 import { EditCategoryModal } from '@/components/EditCategoryModal'
 import { DeleteConfirmationModal } from '@/components/DeleteConfirmationModal'
+import { MergeTermsModal } from '@/components/MergeTermsModal'
+import { TaxonomyTransferActions } from '@/components/TaxonomyTransferActions'
+import { DeleteCategoryModal, type ChildCategoryStrategy } from '@/components/DeleteCategoryModal'
 import { useAuth } from '@/contexts/AuthContext'
 import { useCompany } from '@/hooks/useCompany'
+import { useSlugAvailability } from '@/hooks/useSlugAvailability'
+import { SlugStatusHint } from '@/components/SlugStatusHint'
+import { slugify, slugSchema } from '@/lib/slug'
 import { toast } from '@/lib/toast'
-import { Edit, Trash2, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react'
+import paths from '@/routes/paths'
+import {
+  applyOrderUpdates,
+  buildTree,
+  flattenTree,
+  getDescendantIds,
+  getDropTarget,
+  getMoveUpdates,
+  wouldCreateCycle,
+} from '@/lib/tree'
+import { Edit, Trash2, ChevronDown, ChevronRight, GripVertical, GitMerge, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react'
 
 // form schema
 const createCategorySchema = z.object({
   name: z.string().min(1, 'Name is required'),
-  slug: z.string().optional().or(z.literal('')),
+  slug: slugSchema(),
   parent_id: z.string().optional().or(z.literal('')),
   description: z.string().optional().or(z.literal('')),
 })
 
 type CreateCategoryFormData = z.infer<typeof createCategorySchema>
 
+// where a dragged row is dropped relative to the row under the cursor
+type DropPlacement = 'before' | 'inside' | 'after'
+
 // sort order type
 type SortOrder = 'asc' | 'desc' | null
 
-// sortable column type
-type SortableColumn = 'name' | 'description' | 'slug' | null
+// sortable column type - sorting applies to siblings within each level of the tree
+type SortableColumn = 'name' | 'description' | 'slug' | 'post_count' | null
+
+// siblings without an explicit position are ordered by name
+const byName = (a: Category, b: Category) => a.name.localeCompare(b.name)
 
 export function CategoriesPage() {
   const { user } = useAuth()
@@ -39,8 +62,12 @@ export function CategoriesPage() {
   const [categories, setCategories] = useState<Category[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  // tree state - collapsed categories and the current drag operation
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set())
   const [sortColumn, setSortColumn] = useState<SortableColumn>(null)
   const [sortOrder, setSortOrder] = useState<SortOrder>(null)
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<{ id: string; placement: DropPlacement } | null>(null)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [editingCategory, setEditingCategory] = useState<Category | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -48,6 +75,10 @@ export function CategoriesPage() {
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
   const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  // category a merge was started from
+  const [mergeSource, setMergeSource] = useState<Category | null>(null)
+  // the slug follows the name until it is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(false)
 
   // Check if user has permission to create categories
   const canCreate = user?.permissions?.includes('blog.create') ?? false
@@ -59,6 +90,8 @@ export function CategoriesPage() {
     handleSubmit,
     formState: { errors },
     reset,
+    watch,
+    setValue,
   } = useForm<CreateCategoryFormData>({
     resolver: zodResolver(createCategorySchema),
     defaultValues: {
@@ -69,6 +102,10 @@ export function CategoriesPage() {
     },
   })
 
+  const slugStatus = useSlugAvailability(watch('slug'), async (slug) =>
+    selectedCompany ? (await blogService.checkCategorySlug(selectedCompany.id, slug)).available : true
+  )
+
   // fetch categories when selected company changes
   useEffect(() => {
     if (selectedCompany && !isLoadingCompany) {
@@ -102,6 +139,10 @@ export function CategoriesPage() {
 
   const onSubmit = async (data: CreateCategoryFormData) => {
     if (!selectedCompany) return
+    if (slugStatus === 'taken') {
+      setError('The slug is already used by another category. Please choose a different slug.')
+      return
+    }
 
     setIsSubmitting(true)
     setError(null)
@@ -128,6 +169,7 @@ export function CategoriesPage() {
 
       // reset form and refresh list
       reset()
+      setIsSlugEdited(false)
       fetchCategories()
     } catch (err: unknown) {
       console.error('Failed to create category:', err)
@@ -162,14 +204,31 @@ export function CategoriesPage() {
   }
 
   // handle confirmed deletion
-  const handleDeleteConfirm = async () => {
+  // categories with subcategories either hand them to their own parent or delete the whole branch
+  const handleDeleteConfirm = async (strategy: ChildCategoryStrategy = 'move_up') => {
     if (!selectedCompany || !categoryToDelete) return
+    const companyId = selectedCompany.id
 
     setIsDeleting(true)
     try {
-      await blogService.deleteCategory(selectedCompany.id, categoryToDelete.id)
+      if (strategy === 'move_up') {
+        const children = categories.filter((category) => category.parent_id === categoryToDelete.id)
+        for (const child of children) {
+          await blogService.updateCategory(companyId, child.id, { parent_id: categoryToDelete.parent_id || null })
+        }
+      } else {
+        // delete the deepest categories first so no category is left without its parent
+        const descendantIds = getDescendantIds(categories, categoryToDelete.id)
+        const branch = flattenTree(buildTree(categories))
+          .filter((row) => descendantIds.has(row.item.id))
+          .reverse()
+        for (const row of branch) {
+          await blogService.deleteCategory(companyId, row.item.id)
+        }
+      }
+      await blogService.deleteCategory(companyId, categoryToDelete.id)
       toast.success('Category deleted', `"${categoryToDelete.name}" has been deleted successfully.`)
-      fetchCategories() // refresh the categories list
+      setIsDeleteModalOpen(false)
       setCategoryToDelete(null)
     } catch (err) {
       console.error('Failed to delete category:', err)
@@ -177,6 +236,7 @@ export function CategoriesPage() {
       toast.error('Delete failed', errorMessage)
     } finally {
       setIsDeleting(false)
+      fetchCategories() // refresh the tree (also after partial failures)
     }
   }
 
@@ -188,28 +248,31 @@ export function CategoriesPage() {
     }
   }
 
-  // sort categories
-  const sortedCategories = useMemo(() => {
-    if (!sortColumn || !sortOrder) return categories
+  // visible tree rows (children of collapsed categories are hidden)
+  const tree = useMemo(() => buildTree(categories, byName), [categories])
+  const sortedTree = useMemo(() => {
+    if (!sortColumn || !sortOrder) return tree
 
-    const sorted = [...categories].sort((a, b) => {
+    const compare = (a: Category, b: Category) => {
+      let comparison = 0
       if (sortColumn === 'name') {
-        const comparison = a.name.localeCompare(b.name)
-        return sortOrder === 'asc' ? comparison : -comparison
+        comparison = a.name.localeCompare(b.name)
       } else if (sortColumn === 'description') {
-        const descA = a.description || ''
-        const descB = b.description || ''
-        const comparison = descA.localeCompare(descB)
-        return sortOrder === 'asc' ? comparison : -comparison
+        comparison = (a.description || '').localeCompare(b.description || '')
       } else if (sortColumn === 'slug') {
-        const comparison = a.slug.localeCompare(b.slug)
-        return sortOrder === 'asc' ? comparison : -comparison
+        comparison = a.slug.localeCompare(b.slug)
+      } else if (sortColumn === 'post_count') {
+        comparison = (a.post_count || 0) - (b.post_count || 0)
       }
-      return 0
-    })
-
-    return sorted
-  }, [categories, sortColumn, sortOrder])
+      return sortOrder === 'asc' ? comparison : -comparison
+    }
+    return buildTree(categories, compare, { ignorePosition: true })
+  }, [categories, tree, sortColumn, sortOrder])
+  const rows = useMemo(() => flattenTree(sortedTree, collapsedIds), [sortedTree, collapsedIds])
+  // all categories in tree order, for the parent dropdown
+  const parentOptions = useMemo(() => flattenTree(tree), [tree])
+  // manual ordering only makes sense while the tree shows the saved order
+  const canDrag = canUpdate && !sortColumn
 
   // handle column sort click
   const handleSortClick = (column: SortableColumn) => {
@@ -242,13 +305,98 @@ export function CategoriesPage() {
     return <ArrowUpDown className="w-4 h-4 text-gray-400" />
   }
 
-  // get parent category name by id
-  const getParentCategoryName = (parentId: string | null | undefined) => {
-    if (!parentId) return null
-    const parent = categories.find((c) => c.id === parentId)
-    return parent?.name || null
+  const toggleCollapsed = (categoryId: string) => {
+    setCollapsedIds((current) => {
+      const next = new Set(current)
+      if (next.has(categoryId)) {
+        next.delete(categoryId)
+      } else {
+        next.add(categoryId)
+      }
+      return next
+    })
+  }
+
+  const collapseAll = () => {
+    setCollapsedIds(new Set(categories.filter((c) => categories.some((child) => child.parent_id === c.id)).map((c) => c.id)))
+  }
+
+  // top quarter of a row drops before it, bottom quarter after it, the middle makes it a child
+  const getPlacement = (e: React.DragEvent<HTMLElement>): DropPlacement => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const offset = (e.clientY - rect.top) / rect.height
+    if (offset < 0.25) return 'before'
+    if (offset > 0.75) return 'after'
+    return 'inside'
+  }
+
+  const handleDragOver = (e: React.DragEvent<HTMLElement>, categoryId: string) => {
+    if (!draggedId) return
+    e.preventDefault()
+    const placement = getPlacement(e)
+    // rows the dragged category cannot be dropped into are not highlighted
+    const target = getDropTarget(categories, draggedId, categoryId, placement, byName)
+    if (!target || wouldCreateCycle(categories, draggedId, target.parentId)) {
+      e.dataTransfer.dropEffect = 'none'
+      setDropTarget(null)
+      return
+    }
+    e.dataTransfer.dropEffect = 'move'
+    if (dropTarget?.id !== categoryId || dropTarget.placement !== placement) {
+      setDropTarget({ id: categoryId, placement })
+    }
+  }
+
+  const handleDragEnd = () => {
+    setDraggedId(null)
+    setDropTarget(null)
+  }
+
+  const handleDrop = async (e: React.DragEvent<HTMLElement>, categoryId: string) => {
+    e.preventDefault()
+    const movedId = draggedId
+    const placement = getPlacement(e)
+    handleDragEnd()
+    if (!selectedCompany || !movedId) return
+
+    const target = getDropTarget(categories, movedId, categoryId, placement, byName)
+    if (!target) return
+    if (wouldCreateCycle(categories, movedId, target.parentId)) {
+      toast.error('Invalid move', 'A category cannot be moved into one of its own subcategories.')
+      return
+    }
+
+    const updates = getMoveUpdates(categories, movedId, target, byName)
+    const previousCategories = categories
+    // show the new order right away and roll back if saving fails
+    setCategories(applyOrderUpdates(categories, updates))
+    if (target.parentId) {
+      setCollapsedIds((current) => {
+        const next = new Set(current)
+        next.delete(target.parentId as string)
+        return next
+      })
+    }
+    try {
+      await blogService.reorderCategories(selectedCompany.id, updates)
+    } catch (err) {
+      console.error('Failed to move category:', err)
+      setCategories(previousCategories)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to move category. Please try again.'
+      toast.error('Move failed', errorMessage)
+    }
   }
 
+  // drop indicator for a row
+  const getDropClassName = (categoryId: string) => {
+    if (dropTarget?.id !== categoryId) return ''
+    if (dropTarget.placement === 'before') return 'border-t-2 border-t-blue-500'
+    if (dropTarget.placement === 'after') return 'border-b-2 border-b-blue-500'
+    return 'bg-blue-50'
+  }
+
+  const categoryToDeleteDescendants = categoryToDelete ? getDescendantIds(categories, categoryToDelete.id).size : 0
+
   if (isLoadingCompany || isLoading) {
     return (
       <div className="p-8">
@@ -305,7 +453,13 @@ export function CategoriesPage() {
                       id="name"
                       type="text"
                       placeholder="Category name"
-                      {...register('name')}
+                      {...register('name', {
+                        onChange: (e) => {
+                          if (!isSlugEdited) {
+                            setValue('slug', slugify(e.target.value), { shouldValidate: true })
+                          }
+                        },
+                      })}
                       className={errors.name ? 'border-red-500' : ''}
                     />
                     {errors.name && (
@@ -322,11 +476,16 @@ export function CategoriesPage() {
                       id="slug"
                       type="text"
                       placeholder="category-slug"
-                      {...register('slug')}
-                      className={errors.slug ? 'border-red-500' : ''}
+                      {...register('slug', {
+                        // clearing the slug links it to the name again
+                        onChange: (e) => setIsSlugEdited(!!e.target.value),
+                      })}
+                      className={errors.slug || slugStatus === 'taken' ? 'border-red-500' : ''}
                     />
-                    {errors.slug && (
+                    {errors.slug ? (
                       <p className="text-sm text-red-500">{errors.slug.message}</p>
+                    ) : (
+                      <SlugStatusHint status={slugStatus} emptyText="Generated from the name" />
                     )}
                   </div>
 
@@ -343,9 +502,9 @@ export function CategoriesPage() {
                       }`}
                     >
                       <option value="">None</option>
-                      {categories.map((category) => (
-                        <option key={category.id} value={category.id}>
-                          {category.name}
+                      {parentOptions.map(({ item, depth }) => (
+                        <option key={item.id} value={item.id}>
+                          {`${'— '.repeat(depth)}${item.name}`}
                         </option>
                       ))}
                     </select>
@@ -389,10 +548,35 @@ export function CategoriesPage() {
           </div>
         )}
 
-        {/* Right side: Categories Table (70%) */}
+        {/* Right side: Category Tree (70%) */}
         <div className={canCreate ? 'flex-1' : 'w-full'}>
           <Card>
             <CardContent className="p-0">
+              {/* Tree toolbar */}
+              <div className="flex items-center justify-between px-6 py-3 border-b border-gray-200">
+                <p className="text-sm text-gray-500">
+                  {canDrag
+                    ? 'Drag a category onto another to nest it, or above/below to reorder.'
+                    : canUpdate && sortColumn
+                      ? 'Clear the column sort to reorder categories by dragging.'
+                      : `${categories.length} ${categories.length === 1 ? 'category' : 'categories'}`}
+                </p>
+                <div className="flex items-center gap-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setCollapsedIds(new Set())}>
+                    Expand all
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={collapseAll}>
+                    Collapse all
+                  </Button>
+                  <TaxonomyTransferActions
+                    company={selectedCompany}
+                    type="category"
+                    terms={categories}
+                    canImport={canCreate && canUpdate}
+                    onImported={fetchCategories}
+                  />
+                </div>
+              </div>
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead className="bg-gray-50 border-b border-gray-200">
@@ -424,6 +608,15 @@ export function CategoriesPage() {
                           {getSortIcon('slug')}
                         </button>
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <button
+                          onClick={() => handleSortClick('post_count')}
+                          className="flex items-center gap-2 hover:text-gray-700"
+                        >
+                          Posts
+                          {getSortIcon('post_count')}
+                        </button>
+                      </th>
                       {canUpdate && (
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Actions
@@ -432,26 +625,56 @@ export function CategoriesPage() {
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {sortedCategories.length === 0 ? (
+                    {rows.length === 0 ? (
                       <tr>
                         <td
-                          colSpan={canUpdate ? 4 : 3}
+                          colSpan={canUpdate ? 5 : 4}
                           className="px-6 py-8 text-center text-gray-500"
                         >
                           No categories found.
                         </td>
                       </tr>
                     ) : (
-                      sortedCategories.map((category) => (
-                        <tr key={category.id} className="hover:bg-gray-50">
+                      rows.map(({ item: category, depth, hasChildren }) => (
+                        <tr
+                          key={category.id}
+                          draggable={canDrag}
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move'
+                            setDraggedId(category.id)
+                          }}
+                          onDragOver={(e) => handleDragOver(e, category.id)}
+                          onDragLeave={() => {
+                            if (dropTarget?.id === category.id) setDropTarget(null)
+                          }}
+                          onDrop={(e) => handleDrop(e, category.id)}
+                          onDragEnd={handleDragEnd}
+                          className={`hover:bg-gray-50 ${draggedId === category.id ? 'opacity-50' : ''} ${getDropClassName(
+                            category.id
+                          )}`}
+                        >
                           {/* Name */}
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900">{category.name}</div>
-                            {category.parent_id && (
-                              <div className="text-xs text-gray-500">
-                                Parent: {getParentCategoryName(category.parent_id)}
-                              </div>
-                            )}
+                            <div className="flex items-center gap-1" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                              {canDrag && <GripVertical className="w-4 h-4 text-gray-300 cursor-grab shrink-0" />}
+                              {hasChildren ? (
+                                <button
+                                  type="button"
+                                  onClick={() => toggleCollapsed(category.id)}
+                                  className="text-gray-500 hover:text-gray-900"
+                                  title={collapsedIds.has(category.id) ? 'Expand' : 'Collapse'}
+                                >
+                                  {collapsedIds.has(category.id) ? (
+                                    <ChevronRight className="w-4 h-4" />
+                                  ) : (
+                                    <ChevronDown className="w-4 h-4" />
+                                  )}
+                                </button>
+                              ) : (
+                                <span className="w-4 shrink-0" />
+                              )}
+                              <span className="text-sm font-medium text-gray-900">{category.name}</span>
+                            </div>
                           </td>
 
                           {/* Description */}
@@ -466,6 +689,21 @@ export function CategoriesPage() {
                             <div className="text-sm text-gray-900">{category.slug}</div>
                           </td>
 
+                          {/* Post Count */}
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {category.post_count ? (
+                              <Link
+                                to={`${paths.posts.list}?category=${category.id}`}
+                                className="text-sm text-blue-600 hover:text-blue-800 hover:underline"
+                                title="Show posts in this category"
+                              >
+                                {category.post_count}
+                              </Link>
+                            ) : (
+                              <span className="text-sm text-gray-400">0</span>
+                            )}
+                          </td>
+
                           {/* Actions */}
                           {canUpdate && (
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
@@ -477,6 +715,15 @@ export function CategoriesPage() {
                                 >
                                   <Edit className="w-5 h-5" />
                                 </button>
+                                {categories.length > 1 && (
+                                  <button
+                                    onClick={() => setMergeSource(category)}
+                                    className="text-gray-600 hover:text-gray-900"
+                                    title="Merge into another category"
+                                  >
+                                    <GitMerge className="w-5 h-5" />
+                                  </button>
+                                )}
                                 <button
                                   onClick={() => handleDeleteClick(category)}
                                   className="text-red-600 hover:text-red-900"
@@ -510,8 +757,34 @@ export function CategoriesPage() {
         />
       )}
 
-      {/* Delete Confirmation Modal */}
-      {canUpdate && categoryToDelete && (
+      {/* Merge Modal */}
+      {canUpdate && mergeSource && (
+        <MergeTermsModal
+          open={!!mergeSource}
+          onOpenChange={(open) => {
+            if (!open) setMergeSource(null)
+          }}
+          companyId={selectedCompany.id}
+          type="category"
+          terms={categories}
+          initialSourceId={mergeSource.id}
+          onComplete={fetchCategories}
+        />
+      )}
+
+      {/* Delete Confirmation Modal - categories with subcategories ask what happens to them */}
+      {canUpdate && categoryToDelete && categoryToDeleteDescendants > 0 && (
+        <DeleteCategoryModal
+          open={isDeleteModalOpen}
+          onOpenChange={handleDeleteModalClose}
+          category={categoryToDelete}
+          parentName={categories.find((c) => c.id === categoryToDelete.parent_id)?.name || null}
+          descendantCount={categoryToDeleteDescendants}
+          onConfirm={handleDeleteConfirm}
+          isDeleting={isDeleting}
+        />
+      )}
+      {canUpdate && categoryToDelete && categoryToDeleteDescendants === 0 && (
         <DeleteConfirmationModal
           open={isDeleteModalOpen}
           onOpenChange={handleDeleteModalClose}
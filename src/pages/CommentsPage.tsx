@@ -0,0 +1,770 @@
+// CommentsPage - moderation queue for reader comments on posts
+// Status tabs, post filter, search and page are kept in URL query params (the post list links here with ?post=<id>)
+import { useState, useEffect, useRef } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import commentService, {
+  type Comment,
+  type CommentListParams,
+  type CommentListResponse,
+  type CommentStatus,
+} from '@/services/comments/commentService'
+import blogService from '@/services/blog/blogService'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader } from '@/components/ui/loader'
+import { DeleteConfirmationModal } from '@/components/DeleteConfirmationModal'
+import { CommentRulesModal } from '@/components/CommentRulesModal'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCompany } from '@/hooks/useCompany'
+import { useDebounce } from '@/hooks/useDebounce'
+import { runBulk } from '@/lib/bulk'
+import {
+  bulkCommentActions,
+  commentStatusLabels,
+  createBulkCommentOperation,
+  getBulkCommentActions,
+  type BulkCommentAction,
+} from '@/lib/comments'
+import { toast } from '@/lib/toast'
+import { formatDateTime } from '@/lib/utils'
+import paths from '@/routes/paths'
+import { Search, Check, X, Ban, Trash2, Undo2, Reply, ShieldBan, FileText } from 'lucide-react'
+
+// filter type - 'all' shows pending and approved comments
+type FilterType = 'all' | CommentStatus
+
+// comments per page
+const PAGE_SIZE = 20
+
+// status filter tabs
+const filterTabs: { value: FilterType; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'spam', label: 'Spam' },
+  { value: 'trash', label: 'Trash' },
+]
+
+const statusBadgeColors: Record<CommentStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  spam: 'bg-red-100 text-red-800',
+  trash: 'bg-gray-100 text-gray-800',
+}
+
+export function CommentsPage() {
+  const { user } = useAuth()
+  const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
+  const [comments, setComments] = useState<Comment[]>([])
+  const [pagination, setPagination] = useState<CommentListResponse['pagination'] | null>(null)
+  const [statusCounts, setStatusCounts] = useState<CommentListResponse['counts']>(undefined)
+  const [isLoading, setIsLoading] = useState(true)
+  const [hasLoaded, setHasLoaded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // ignore responses of outdated requests (e.g. while typing a search)
+  const latestRequestRef = useRef(0)
+  // title of the filtered post (shown in the filter chip)
+  const [filteredPost, setFilteredPost] = useState<{ id: string; title: string } | null>(null)
+  // id of the comment a status change is running for
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [isBulkRunning, setIsBulkRunning] = useState(false)
+  // inline reply state
+  const [replyingToId, setReplyingToId] = useState<string | null>(null)
+  const [replyText, setReplyText] = useState('')
+  const [isReplying, setIsReplying] = useState(false)
+  // comments waiting for the permanent delete confirmation (one row or the bulk selection)
+  const [commentsToDelete, setCommentsToDelete] = useState<Comment[] | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [isRulesModalOpen, setIsRulesModalOpen] = useState(false)
+
+  // list state lives in the URL so filtered views can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams()
+  const queryString = searchParams.toString()
+  const filter = (searchParams.get('status') as FilterType | null) || 'all'
+  const postFilter = searchParams.get('post') || ''
+  const page = Math.max(1, Number(searchParams.get('page')) || 1)
+
+  // selection of the current page - cleared whenever the list changes
+  const [selectedComments, setSelectedComments] = useState<Map<string, Comment>>(new Map())
+  const [selectionQuery, setSelectionQuery] = useState(queryString)
+  if (queryString !== selectionQuery) {
+    setSelectionQuery(queryString)
+    setSelectedComments(new Map())
+  }
+
+  // search box - typed value is debounced before it goes into the URL
+  const urlSearch = searchParams.get('search') || ''
+  const [searchInput, setSearchInput] = useState(urlSearch)
+  const [syncedSearch, setSyncedSearch] = useState(urlSearch)
+  // keep the input in sync when the URL changes from outside (back button, links)
+  if (urlSearch !== syncedSearch) {
+    setSyncedSearch(urlSearch)
+    setSearchInput(urlSearch)
+  }
+  const debouncedSearch = useDebounce(searchInput, 400)
+
+  // Check if user has permission to moderate and reply to comments
+  const canModerate = user?.permissions?.includes('blog.update') ?? false
+  // Check if user has permission to delete comments permanently
+  const canDelete = user?.permissions?.includes('blog.delete') ?? false
+
+  const postFilterTitle =
+    filteredPost?.id === postFilter
+      ? filteredPost.title
+      : comments.find((comment) => comment.post_id === postFilter)?.post_title
+  const bulkActions = bulkCommentActions.filter(
+    (action) => getBulkCommentActions(filter).includes(action.value) && (action.value !== 'delete' || canDelete)
+  )
+  const isAllOnPageSelected = comments.length > 0 && comments.every((comment) => selectedComments.has(comment.id))
+
+  // fetch comments when selected company or list params change
+  useEffect(() => {
+    // wait for company context to finish loading
+    if (isLoadingCompany) {
+      return
+    }
+
+    // if no company selected, show error
+    if (!selectedCompany) {
+      setError('No company selected. Please select a company first.')
+      setIsLoading(false)
+      return
+    }
+
+    fetchComments()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCompany, isLoadingCompany, queryString])
+
+  // look up the title of the filtered post
+  useEffect(() => {
+    if (!selectedCompany || !postFilter) return
+    blogService
+      .get(selectedCompany.id, postFilter)
+      .then((post) => setFilteredPost({ id: post.id, title: post.title }))
+      .catch((err) => console.error('Failed to fetch post:', err))
+  }, [selectedCompany, postFilter])
+
+  // push the debounced search into the URL
+  useEffect(() => {
+    if (debouncedSearch.trim() !== urlSearch) {
+      updateParams({ search: debouncedSearch.trim() || null })
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedSearch])
+
+  // update list query params; filter changes jump back to the first page
+  const updateParams = (changes: Record<string, string | null>, resetPage = true) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value)
+        } else {
+          next.delete(key)
+        }
+      })
+      if (resetPage) {
+        next.delete('page')
+      }
+      return next
+    })
+  }
+
+  // build API params from the URL
+  const getListParams = (): CommentListParams => {
+    const params: CommentListParams = { page, limit: PAGE_SIZE }
+    if (urlSearch) params.search = urlSearch
+    if (filter !== 'all') params.status = filter
+    if (postFilter) params.post = postFilter
+    return params
+  }
+
+  const fetchComments = async () => {
+    if (!selectedCompany) return
+
+    const requestId = ++latestRequestRef.current
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await commentService.list(selectedCompany.id, getListParams())
+      if (requestId !== latestRequestRef.current) return
+      setComments(response.data || [])
+      setPagination(response.pagination)
+      setStatusCounts(response.counts)
+    } catch (err) {
+      if (requestId !== latestRequestRef.current) return
+      console.error('Failed to fetch comments:', err)
+      setError('Failed to load comments. Please try again.')
+    } finally {
+      if (requestId === latestRequestRef.current) {
+        setIsLoading(false)
+        setHasLoaded(true)
+      }
+    }
+  }
+
+  // count shown next to a status tab (only when the API returned counts)
+  const getFilterCount = (tab: FilterType): number | undefined => {
+    if (statusCounts?.[tab] !== undefined) return statusCounts[tab]
+    // the total of the current list is the count of the active tab
+    return tab === filter ? pagination?.total : undefined
+  }
+
+  const toggleCommentSelection = (comment: Comment) => {
+    setSelectedComments((prev) => {
+      const next = new Map(prev)
+      if (next.has(comment.id)) {
+        next.delete(comment.id)
+      } else {
+        next.set(comment.id, comment)
+      }
+      return next
+    })
+  }
+
+  const togglePageSelection = () => {
+    setSelectedComments(isAllOnPageSelected ? new Map() : new Map(comments.map((comment) => [comment.id, comment])))
+  }
+
+  // move a single comment to another status
+  const handleStatusChange = async (comment: Comment, status: CommentStatus) => {
+    if (!selectedCompany) return
+
+    setUpdatingId(comment.id)
+    try {
+      await commentService.update(selectedCompany.id, comment.id, { status })
+      toast.success('Comment updated', `The comment by ${comment.author_name} is now ${commentStatusLabels[status].toLowerCase()}.`)
+      fetchComments() // refresh the list and counts
+    } catch (err) {
+      console.error('Failed to update comment:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update comment. Please try again.'
+      toast.error('Update failed', errorMessage)
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  // run a bulk action on the given comments and report the result
+  const runBulkAction = async (action: BulkCommentAction, selection: Comment[]) => {
+    if (!selectedCompany) return
+
+    const { done } = bulkCommentActions.find((item) => item.value === action) || { done: 'updated' }
+    const result = await runBulk(selection, createBulkCommentOperation(action, selectedCompany.id))
+    if (result.failed.length === 0) {
+      toast.success(
+        'Comments updated',
+        `${result.succeeded.length} ${result.succeeded.length === 1 ? 'comment was' : 'comments were'} ${done}.`
+      )
+    } else {
+      toast.error(
+        'Bulk action incomplete',
+        `${result.succeeded.length} ${done}, ${result.failed.length} failed: ${result.failed[0].error}`
+      )
+    }
+    setSelectedComments(new Map())
+    fetchComments() // refresh the list and counts
+  }
+
+  const handleBulkAction = async (action: BulkCommentAction) => {
+    const selection = Array.from(selectedComments.values())
+    if (action === 'delete') {
+      setCommentsToDelete(selection)
+      return
+    }
+
+    setIsBulkRunning(true)
+    try {
+      await runBulkAction(action, selection)
+    } finally {
+      setIsBulkRunning(false)
+    }
+  }
+
+  // handle confirmed permanent deletion
+  const handleDeleteConfirm = async () => {
+    if (!commentsToDelete) return
+
+    setIsDeleting(true)
+    try {
+      await runBulkAction('delete', commentsToDelete)
+      setCommentsToDelete(null)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const openReply = (comment: Comment) => {
+    setReplyingToId(comment.id)
+    setReplyText('')
+  }
+
+  const handleReplySubmit = async (comment: Comment) => {
+    if (!selectedCompany || !replyText.trim()) return
+
+    setIsReplying(true)
+    try {
+      await commentService.reply(selectedCompany.id, comment.id, replyText.trim())
+      toast.success('Reply published', `Your reply to ${comment.author_name} is live.`)
+      setReplyingToId(null)
+      setReplyText('')
+      fetchComments() // the reply shows up in the list, a pending parent is approved
+    } catch (err) {
+      console.error('Failed to reply to comment:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to publish reply. Please try again.'
+      toast.error('Reply failed', errorMessage)
+    } finally {
+      setIsReplying(false)
+    }
+  }
+
+  // full-page loader only for the first load - later loads keep the filters mounted
+  if (isLoadingCompany || (isLoading && !hasLoaded)) {
+    return (
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center justify-center py-12">
+            <div className="text-center">
+              <Loader className="mx-auto mb-4" />
+              <p className="text-gray-600">Loading comments...</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !selectedCompany) {
+    return (
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>Error</CardTitle>
+              <CardDescription>{error || 'No company selected.'}</CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  const columnCount = 4 + (canModerate ? 2 : 0)
+  const deleteLabel =
+    commentsToDelete?.length === 1
+      ? `the comment by ${commentsToDelete[0].author_name}`
+      : `${commentsToDelete?.length || 0} comments`
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Comments</h1>
+          <p className="text-gray-600">Approve, reply to or remove reader comments</p>
+        </div>
+        {canModerate && (
+          <Button variant="outline" onClick={() => setIsRulesModalOpen(true)}>
+            <ShieldBan className="w-4 h-4 mr-2" />
+            Moderation Rules
+          </Button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="mb-4 flex items-center gap-4">
+        {filterTabs.map((tab, index) => {
+          const count = getFilterCount(tab.value)
+          return (
+            <div key={tab.value} className="flex items-center gap-4">
+              {index > 0 && <span className="text-gray-300">|</span>}
+              <button
+                onClick={() => updateParams({ status: tab.value === 'all' ? null : tab.value })}
+                className={`text-sm font-medium transition-colors ${
+                  filter === tab.value ? 'text-gray-900 font-bold' : 'text-blue-600 hover:text-blue-700'
+                }`}
+              >
+                {tab.label}
+                {count !== undefined && ` (${count})`}
+              </button>
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Search and post filter */}
+      <div className="mb-6 flex items-center gap-2">
+        <div className="relative w-64">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            type="text"
+            placeholder="Search comments..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        {postFilter && (
+          <span className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-sm bg-blue-100 text-blue-800">
+            <FileText className="w-4 h-4" />
+            {postFilterTitle || 'Loading post...'}
+            <button
+              onClick={() => updateParams({ post: null })}
+              className="ml-1 text-blue-600 hover:text-blue-900"
+              title="Show comments on all posts"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </span>
+        )}
+      </div>
+
+      {/* Bulk actions */}
+      {canModerate && selectedComments.size > 0 && (
+        <div className="mb-4 flex items-center gap-4 px-4 py-3 bg-blue-50 border border-blue-200 rounded-md">
+          <span className="text-sm text-blue-900">
+            {selectedComments.size} {selectedComments.size === 1 ? 'comment' : 'comments'} selected.
+          </span>
+          <button
+            onClick={() => setSelectedComments(new Map())}
+            className="text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            Clear selection
+          </button>
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleBulkAction(e.target.value as BulkCommentAction)}
+            disabled={isBulkRunning}
+            className="ml-auto px-3 py-1.5 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">{isBulkRunning ? 'Working...' : 'Bulk actions...'}</option>
+            {bulkActions.map((item) => (
+              <option key={item.value} value={item.value}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Comments Table */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  {canModerate && (
+                    <th className="pl-6 py-3 w-4">
+                      <input
+                        type="checkbox"
+                        checked={isAllOnPageSelected}
+                        onChange={togglePageSelection}
+                        disabled={comments.length === 0}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        aria-label="Select all comments on this page"
+                      />
+                    </th>
+                  )}
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Author
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Comment
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    In Response To
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Submitted
+                  </th>
+                  {canModerate && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className={`bg-white divide-y divide-gray-200 ${isLoading ? 'opacity-50' : ''}`}>
+                {comments.length === 0 ? (
+                  <tr>
+                    <td colSpan={columnCount} className="px-6 py-8 text-center text-gray-500">
+                      No comments found.
+                    </td>
+                  </tr>
+                ) : (
+                  comments.flatMap((comment) => {
+                    const isUpdating = updatingId === comment.id
+                    const rows = [
+                      <tr
+                        key={comment.id}
+                        className={
+                          selectedComments.has(comment.id)
+                            ? 'bg-blue-50'
+                            : comment.status === 'pending'
+                              ? 'bg-yellow-50/50 hover:bg-gray-50'
+                              : 'hover:bg-gray-50'
+                        }
+                      >
+                        {/* Selection */}
+                        {canModerate && (
+                          <td className="pl-6 py-4 w-4 align-top">
+                            <input
+                              type="checkbox"
+                              checked={selectedComments.has(comment.id)}
+                              onChange={() => toggleCommentSelection(comment)}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                              aria-label={`Select comment by ${comment.author_name}`}
+                            />
+                          </td>
+                        )}
+
+                        {/* Author */}
+                        <td className="px-6 py-4 whitespace-nowrap align-top">
+                          <div className="text-sm font-medium text-gray-900">{comment.author_name}</div>
+                          {comment.author_email && <p className="text-xs text-gray-500">{comment.author_email}</p>}
+                          {comment.author_ip && (
+                            <button
+                              onClick={() => setSearchInput(comment.author_ip || '')}
+                              className="text-xs font-mono text-blue-600 hover:text-blue-800"
+                              title="Show all comments from this IP address"
+                            >
+                              {comment.author_ip}
+                            </button>
+                          )}
+                        </td>
+
+                        {/* Comment */}
+                        <td className="px-6 py-4 align-top">
+                          {comment.parent_id && (
+                            <p className="text-xs text-gray-500 mb-1">
+                              In reply to {comment.parent_author_name || 'a comment'}
+                            </p>
+                          )}
+                          <p className="text-sm text-gray-900 max-w-md whitespace-pre-line">{comment.content}</p>
+                          {filter === 'all' && (
+                            <span
+                              className={`mt-1 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                                statusBadgeColors[comment.status]
+                              }`}
+                            >
+                              {commentStatusLabels[comment.status]}
+                            </span>
+                          )}
+                        </td>
+
+                        {/* Post */}
+                        <td className="px-6 py-4 align-top">
+                          <button
+                            onClick={() => updateParams({ post: comment.post_id })}
+                            className="text-sm text-left text-blue-600 hover:text-blue-800 hover:underline"
+                            title="Show comments on this post only"
+                          >
+                            {comment.post_title || 'Untitled post'}
+                          </button>
+                          <Link
+                            to={paths.posts.view.build(comment.post_id)}
+                            className="block text-xs text-gray-500 hover:text-gray-700"
+                          >
+                            View post
+                          </Link>
+                        </td>
+
+                        {/* Submitted */}
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 align-top">
+                          {formatDateTime(comment.created_at)}
+                        </td>
+
+                        {/* Actions */}
+                        {canModerate && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium align-top">
+                            <div className="flex items-center gap-3">
+                              {comment.status === 'pending' && (
+                                <button
+                                  onClick={() => handleStatusChange(comment, 'approved')}
+                                  disabled={isUpdating}
+                                  className="text-green-600 hover:text-green-900 disabled:opacity-30"
+                                  title="Approve"
+                                >
+                                  <Check className="w-5 h-5" />
+                                </button>
+                              )}
+                              {comment.status === 'approved' && (
+                                <button
+                                  onClick={() => handleStatusChange(comment, 'pending')}
+                                  disabled={isUpdating}
+                                  className="text-yellow-600 hover:text-yellow-900 disabled:opacity-30"
+                                  title="Unapprove"
+                                >
+                                  <X className="w-5 h-5" />
+                                </button>
+                              )}
+                              {(comment.status === 'pending' || comment.status === 'approved') && (
+                                <>
+                                  <button
+                                    onClick={() => openReply(comment)}
+                                    className="text-blue-600 hover:text-blue-900"
+                                    title="Reply"
+                                  >
+                                    <Reply className="w-5 h-5" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleStatusChange(comment, 'spam')}
+                                    disabled={isUpdating}
+                                    className="text-orange-600 hover:text-orange-900 disabled:opacity-30"
+                                    title="Mark as spam"
+                                  >
+                                    <Ban className="w-5 h-5" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleStatusChange(comment, 'trash')}
+                                    disabled={isUpdating}
+                                    className="text-red-600 hover:text-red-900 disabled:opacity-30"
+                                    title="Move to trash"
+                                  >
+                                    <Trash2 className="w-5 h-5" />
+                                  </button>
+                                </>
+                              )}
+                              {(comment.status === 'spam' || comment.status === 'trash') && (
+                                <>
+                                  <button
+                                    onClick={() => handleStatusChange(comment, 'pending')}
+                                    disabled={isUpdating}
+                                    className="text-blue-600 hover:text-blue-900 disabled:opacity-30"
+                                    title={comment.status === 'spam' ? 'Not spam' : 'Restore'}
+                                  >
+                                    <Undo2 className="w-5 h-5" />
+                                  </button>
+                                  {canDelete && (
+                                    <button
+                                      onClick={() => setCommentsToDelete([comment])}
+                                      className="text-red-600 hover:text-red-900"
+                                      title="Delete permanently"
+                                    >
+                                      <Trash2 className="w-5 h-5" />
+                                    </button>
+                                  )}
+                                </>
+                              )}
+                            </div>
+                          </td>
+                        )}
+                      </tr>,
+                    ]
+
+                    // inline reply form below the comment
+                    if (replyingToId === comment.id) {
+                      rows.push(
+                        <tr key={`${comment.id}-reply`} className="bg-gray-50">
+                          <td colSpan={columnCount} className="px-6 py-4">
+                            <div className="max-w-2xl mx-auto space-y-2">
+                              <label htmlFor={`reply-${comment.id}`} className="text-sm font-medium text-gray-700">
+                                Reply to {comment.author_name}
+                              </label>
+                              <textarea
+                                id={`reply-${comment.id}`}
+                                rows={3}
+                                autoFocus
+                                value={replyText}
+                                onChange={(e) => setReplyText(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                              {comment.status === 'pending' && (
+                                <p className="text-xs text-gray-500">Replying also approves this comment.</p>
+                              )}
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setReplyingToId(null)}
+                                  disabled={isReplying}
+                                >
+                                  Cancel
+                                </Button>
+                                <Button
+                                  type="button"
+                                  size="sm"
+                                  onClick={() => handleReplySubmit(comment)}
+                                  disabled={isReplying || !replyText.trim()}
+                                >
+                                  {isReplying ? 'Publishing...' : 'Publish Reply'}
+                                </Button>
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      )
+                    }
+                    return rows
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          {pagination && pagination.total > 0 && (
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+              <span className="text-sm text-gray-600">
+                Showing {(pagination.page - 1) * pagination.limit + 1}-
+                {Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total} comments
+              </span>
+              {pagination.totalPages > 1 && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateParams({ page: page > 2 ? String(page - 1) : null }, false)}
+                    disabled={page <= 1 || isLoading}
+                  >
+                    Previous
+                  </Button>
+                  <span className="text-sm text-gray-600">
+                    Page {pagination.page} of {pagination.totalPages}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateParams({ page: String(page + 1) }, false)}
+                    disabled={page >= pagination.totalPages || isLoading}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Moderation Rules Modal */}
+      {isRulesModalOpen && (
+        <CommentRulesModal
+          open={isRulesModalOpen}
+          onOpenChange={setIsRulesModalOpen}
+          companyId={selectedCompany.id}
+          onSaved={() => toast.success('Rules saved', 'New comments are checked against the updated rules.')}
+        />
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {canDelete && commentsToDelete && (
+        <DeleteConfirmationModal
+          open={!!commentsToDelete}
+          onOpenChange={(open) => {
+            if (!open && !isDeleting) setCommentsToDelete(null)
+          }}
+          itemName={deleteLabel}
+          itemType={commentsToDelete.length === 1 ? 'comment' : 'comments'}
+          description={`Are you sure you want to permanently delete ${deleteLabel}? This action cannot be undone.`}
+          onConfirm={handleDeleteConfirm}
+          isDeleting={isDeleting}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,579 @@
+// CompanyMenusPage - navigation menus of the company site (header, footer, ...)
+// Items are nested by drag and drop and kept locally until the menu is saved;
+// links to posts, categories, tags and pages are resolved to the current slug of the linked entry
+import { useState, useEffect, useMemo } from 'react'
+import companyService, { type Menu, type MenuItem } from '@/services/company/companyService'
+import blogService, { type BlogPost } from '@/services/blog/blogService'
+import contentService, { type ContentEntry } from '@/services/content/contentService'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Loader } from '@/components/ui/loader'
+import { MenuModal } from '@/components/MenuModal'
+import { MenuItemModal, type MenuItemValues } from '@/components/MenuItemModal'
+import { DeleteConfirmationModal } from '@/components/DeleteConfirmationModal'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCompany } from '@/hooks/useCompany'
+import {
+  createMenuTargets,
+  menuItemTypeLabels,
+  menuLocationLabels,
+  removeMenuItem,
+  resolveMenuItem,
+  toMenuTargetMap,
+  type MenuTarget,
+  type MenuTargets,
+} from '@/lib/menus'
+import { toast } from '@/lib/toast'
+import { applyOrderUpdates, buildTree, flattenTree, getDropTarget, getMoveUpdates, wouldCreateCycle } from '@/lib/tree'
+import { Plus, Edit, Trash2, GripVertical, AlertTriangle, ExternalLink, CornerDownRight } from 'lucide-react'
+
+// where a dragged item lands relative to the row it is dropped on
+type DropPlacement = 'before' | 'inside' | 'after'
+
+// linked posts are loaded one by one (the post list cannot filter by id); deleted posts stay missing
+async function loadPostTargets(
+  companyId: string,
+  items: Pick<MenuItem, 'type' | 'target_id'>[],
+  known: Map<string, MenuTarget>
+) {
+  const ids = [
+    ...new Set(
+      items
+        .filter((item) => item.type === 'post' && item.target_id && !known.has(item.target_id))
+        .map((item) => item.target_id as string)
+    ),
+  ]
+  const posts = await Promise.all(ids.map((id) => blogService.get(companyId, id).catch(() => null)))
+  return toMenuTargetMap(posts.filter((post): post is BlogPost => !!post))
+}
+
+// every page can be picked as a target, so all pages are loaded (pages through the results)
+async function listAllPages(companyId: string): Promise<ContentEntry[]> {
+  const allPages: ContentEntry[] = []
+  let currentPage = 1
+  let totalPages = 1
+  do {
+    const response = await contentService.list(companyId, 'pages', { limit: 100, page: currentPage })
+    allPages.push(...(response.data || []))
+    totalPages = response.pagination?.totalPages || 1
+    currentPage++
+  } while (currentPage <= totalPages)
+  return allPages
+}
+
+// target lists need their own permissions (blog.view, page.view) - one that fails stays empty instead of failing the builder
+function loadTargetList<T>(label: string, request: Promise<T[]>): Promise<T[]> {
+  return request.catch((err) => {
+    console.error(`Failed to fetch ${label}:`, err)
+    return []
+  })
+}
+
+export function CompanyMenusPage() {
+  const { user } = useAuth()
+  const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
+  const [menus, setMenus] = useState<Menu[]>([])
+  const [selectedMenuId, setSelectedMenuId] = useState<string | null>(null)
+  // items of the selected menu including unsaved changes
+  const [items, setItems] = useState<MenuItem[]>([])
+  const [targets, setTargets] = useState<MenuTargets>(createMenuTargets)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  // create/edit menu modal state (null menu = create)
+  const [isMenuModalOpen, setIsMenuModalOpen] = useState(false)
+  const [editingMenu, setEditingMenu] = useState<Menu | null>(null)
+  // delete menu confirmation state
+  const [menuToDelete, setMenuToDelete] = useState<Menu | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  // add/edit item modal state - new items are added below newItemParentId
+  const [isItemModalOpen, setIsItemModalOpen] = useState(false)
+  const [editingItem, setEditingItem] = useState<MenuItem | null>(null)
+  const [newItemParentId, setNewItemParentId] = useState<string | null>(null)
+  // current drag operation
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<{ id: string; placement: DropPlacement } | null>(null)
+
+  // Check if user has permission to edit menus
+  const canUpdate = user?.permissions?.includes('company.update') ?? false
+
+  const selectedMenu = menus.find((menu) => menu.id === selectedMenuId) || null
+  const hasChanges = !!selectedMenu && JSON.stringify(items) !== JSON.stringify(selectedMenu.items)
+  const rows = useMemo(() => flattenTree(buildTree(items)), [items])
+  const brokenCount = items.filter((item) => resolveMenuItem(item, targets).broken).length
+
+  // fetch menus and linkable entries when selected company changes
+  useEffect(() => {
+    if (selectedCompany && !isLoadingCompany) {
+      fetchMenus()
+    } else if (!isLoadingCompany && !selectedCompany) {
+      setError('No company selected. Please select a company first.')
+      setIsLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCompany, isLoadingCompany])
+
+  const fetchMenus = async () => {
+    if (!selectedCompany) {
+      setError('No company selected.')
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const menuList = await companyService.getMenus(selectedCompany.id)
+      const [categories, tags, pages, posts] = await Promise.all([
+        loadTargetList('categories', blogService.getCategories(selectedCompany.id)),
+        loadTargetList('tags', blogService.getTags(selectedCompany.id)),
+        loadTargetList('pages', listAllPages(selectedCompany.id)),
+        loadPostTargets(selectedCompany.id, menuList.flatMap((menu) => menu.items), new Map()),
+      ])
+      setTargets({
+        post: posts,
+        category: toMenuTargetMap(categories),
+        tag: toMenuTargetMap(tags),
+        page: toMenuTargetMap(pages),
+      })
+      setMenus(menuList)
+      selectMenu(menuList[0] || null)
+    } catch (err) {
+      console.error('Failed to fetch menus:', err)
+      setError('Failed to load menus. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const selectMenu = (menu: Menu | null) => {
+    setSelectedMenuId(menu?.id || null)
+    setItems(menu?.items || [])
+  }
+
+  const openCreateMenuModal = () => {
+    setEditingMenu(null)
+    setIsMenuModalOpen(true)
+  }
+
+  const handleMenuSaved = (menu: Menu) => {
+    if (editingMenu) {
+      toast.success('Menu updated', `"${menu.name}" has been updated.`)
+      // keep unsaved item changes of the renamed menu
+      setMenus(menus.map((current) => (current.id === menu.id ? { ...menu, items: current.items } : current)))
+    } else {
+      toast.success('Menu created', `"${menu.name}" has been created.`)
+      setMenus([...menus, menu])
+      selectMenu(menu)
+    }
+  }
+
+  // handle confirmed menu deletion
+  const handleDeleteMenuConfirm = async () => {
+    if (!selectedCompany || !menuToDelete) return
+
+    setIsDeleting(true)
+    try {
+      await companyService.deleteMenu(selectedCompany.id, menuToDelete.id)
+      const remainingMenus = menus.filter((menu) => menu.id !== menuToDelete.id)
+      setMenus(remainingMenus)
+      selectMenu(remainingMenus[0] || null)
+      toast.success('Menu deleted', `"${menuToDelete.name}" has been deleted successfully.`)
+      setMenuToDelete(null)
+    } catch (err) {
+      console.error('Failed to delete menu:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete menu. Please try again.'
+      toast.error('Delete failed', errorMessage)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const openAddItemModal = (parentId: string | null) => {
+    setEditingItem(null)
+    setNewItemParentId(parentId)
+    setIsItemModalOpen(true)
+  }
+
+  const openEditItemModal = (item: MenuItem) => {
+    setEditingItem(item)
+    setIsItemModalOpen(true)
+  }
+
+  const handleItemSave = async (values: MenuItemValues) => {
+    if (editingItem) {
+      setItems(items.map((item) => (item.id === editingItem.id ? { ...item, ...values } : item)))
+    } else {
+      // new items are appended to their siblings
+      const siblings = items.filter((item) => (item.parent_id || null) === newItemParentId)
+      const position = Math.max(-1, ...siblings.map((item) => item.position ?? -1)) + 1
+      setItems([...items, { ...values, id: crypto.randomUUID(), parent_id: newItemParentId, position }])
+    }
+
+    // load a newly linked post so the item shows its title and link
+    if (selectedCompany && values.type === 'post') {
+      const posts = await loadPostTargets(selectedCompany.id, [values], targets.post)
+      if (posts.size > 0) {
+        setTargets((current) => ({ ...current, post: new Map([...current.post, ...posts]) }))
+      }
+    }
+  }
+
+  const handleSave = async () => {
+    if (!selectedCompany || !selectedMenu) return
+
+    setIsSaving(true)
+    try {
+      const savedMenu = await companyService.updateMenu(selectedCompany.id, selectedMenu.id, { items })
+      setMenus(menus.map((menu) => (menu.id === savedMenu.id ? savedMenu : menu)))
+      setItems(savedMenu.items)
+      toast.success('Menu saved', `"${savedMenu.name}" has been saved.`)
+    } catch (err) {
+      console.error('Failed to save menu:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save menu. Please try again.'
+      toast.error('Save failed', errorMessage)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // top quarter of a row drops before it, bottom quarter after it, the middle makes it a submenu item
+  const getPlacement = (e: React.DragEvent<HTMLElement>): DropPlacement => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const offset = (e.clientY - rect.top) / rect.height
+    if (offset < 0.25) return 'before'
+    if (offset > 0.75) return 'after'
+    return 'inside'
+  }
+
+  const handleDragOver = (e: React.DragEvent<HTMLElement>, itemId: string) => {
+    if (!draggedId) return
+    e.preventDefault()
+    const placement = getPlacement(e)
+    // rows the dragged item cannot be dropped into are not highlighted
+    const target = getDropTarget(items, draggedId, itemId, placement)
+    if (!target || wouldCreateCycle(items, draggedId, target.parentId)) {
+      e.dataTransfer.dropEffect = 'none'
+      setDropTarget(null)
+      return
+    }
+    e.dataTransfer.dropEffect = 'move'
+    if (dropTarget?.id !== itemId || dropTarget.placement !== placement) {
+      setDropTarget({ id: itemId, placement })
+    }
+  }
+
+  const handleDragEnd = () => {
+    setDraggedId(null)
+    setDropTarget(null)
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLElement>, itemId: string) => {
+    e.preventDefault()
+    const movedId = draggedId
+    const placement = getPlacement(e)
+    handleDragEnd()
+    if (!movedId) return
+
+    const target = getDropTarget(items, movedId, itemId, placement)
+    if (!target) return
+    if (wouldCreateCycle(items, movedId, target.parentId)) {
+      toast.error('Invalid move', 'A menu item cannot be moved into its own submenu.')
+      return
+    }
+    setItems(applyOrderUpdates(items, getMoveUpdates(items, movedId, target)))
+  }
+
+  // drop indicator for a row
+  const getDropClassName = (itemId: string) => {
+    if (dropTarget?.id !== itemId) return ''
+    if (dropTarget.placement === 'before') return 'border-t-2 border-t-blue-500'
+    if (dropTarget.placement === 'after') return 'border-b-2 border-b-blue-500'
+    return 'bg-blue-50'
+  }
+
+  if (isLoadingCompany || isLoading) {
+    return (
+      <div className="p-8">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <Loader className="mx-auto mb-4" />
+            <p className="text-gray-600">Loading menus...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !selectedCompany) {
+    return (
+      <div className="p-8">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-red-600">{error || 'No company selected. Please select a company first.'}</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Menus</h1>
+          <p className="text-gray-600">Navigation menus of {selectedCompany.name}</p>
+        </div>
+        {canUpdate && (
+          <Button onClick={openCreateMenuModal}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Menu
+          </Button>
+        )}
+      </div>
+
+      {menus.length === 0 ? (
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-center text-gray-500">No menus yet.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Menu selection - switching menus is blocked while the current one has unsaved changes */}
+          <div className="mb-4 flex items-center gap-4">
+            {menus.map((menu, index) => (
+              <div key={menu.id} className="flex items-center gap-4">
+                {index > 0 && <span className="text-gray-300">|</span>}
+                <button
+                  onClick={() => selectMenu(menu)}
+                  disabled={hasChanges && menu.id !== selectedMenuId}
+                  title={hasChanges && menu.id !== selectedMenuId ? 'Save or discard your changes first' : undefined}
+                  className={`text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    menu.id === selectedMenuId ? 'text-gray-900 font-bold' : 'text-blue-600 hover:text-blue-700'
+                  }`}
+                >
+                  {menu.name}
+                  <span className="ml-1 font-normal text-gray-500">
+                    ({menuLocationLabels[menu.location] || menu.location})
+                  </span>
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {selectedMenu && (
+            <Card>
+              <CardContent className="p-0">
+                {/* Menu toolbar */}
+                <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
+                  <div className="text-sm text-gray-600">
+                    {items.length} {items.length === 1 ? 'item' : 'items'}
+                    {brokenCount > 0 && (
+                      <span className="ml-2 inline-flex items-center gap-1 text-red-600">
+                        <AlertTriangle className="w-4 h-4" />
+                        {brokenCount} broken {brokenCount === 1 ? 'link' : 'links'}
+                      </span>
+                    )}
+                    {canUpdate && items.length > 1 && (
+                      <span className="ml-2 text-gray-400">Drag items to reorder or nest them</span>
+                    )}
+                  </div>
+                  {canUpdate && (
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => {
+                          setEditingMenu(selectedMenu)
+                          setIsMenuModalOpen(true)
+                        }}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Edit menu"
+                      >
+                        <Edit className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => setMenuToDelete(selectedMenu)}
+                        className="text-red-600 hover:text-red-900 mr-2"
+                        title="Delete menu"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                      <Button variant="outline" size="sm" onClick={() => openAddItemModal(null)}>
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Item
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setItems(selectedMenu.items)}
+                        disabled={!hasChanges || isSaving}
+                      >
+                        Discard
+                      </Button>
+                      <Button size="sm" onClick={handleSave} disabled={!hasChanges || isSaving}>
+                        {isSaving ? 'Saving...' : 'Save Menu'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Label
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Link
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Type
+                        </th>
+                        {canUpdate && (
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Actions
+                          </th>
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {rows.length === 0 ? (
+                        <tr>
+                          <td colSpan={canUpdate ? 4 : 3} className="px-6 py-8 text-center text-gray-500">
+                            This menu has no items yet.
+                          </td>
+                        </tr>
+                      ) : (
+                        rows.map(({ item, depth }) => {
+                          const resolved = resolveMenuItem(item, targets)
+                          return (
+                            <tr
+                              key={item.id}
+                              draggable={canUpdate}
+                              onDragStart={(e) => {
+                                e.dataTransfer.effectAllowed = 'move'
+                                setDraggedId(item.id)
+                              }}
+                              onDragOver={(e) => handleDragOver(e, item.id)}
+                              onDragLeave={() => {
+                                if (dropTarget?.id === item.id) setDropTarget(null)
+                              }}
+                              onDrop={(e) => handleDrop(e, item.id)}
+                              onDragEnd={handleDragEnd}
+                              className={`hover:bg-gray-50 ${draggedId === item.id ? 'opacity-50' : ''} ${getDropClassName(
+                                item.id
+                              )}`}
+                            >
+                              {/* Label */}
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="flex items-center gap-1" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                                  {canUpdate && <GripVertical className="w-4 h-4 text-gray-300 cursor-grab shrink-0" />}
+                                  <span className="text-sm font-medium text-gray-900">{resolved.label}</span>
+                                  {item.open_in_new_tab && (
+                                    <span title="Opens in a new tab">
+                                      <ExternalLink className="w-3 h-3 text-gray-400" />
+                                    </span>
+                                  )}
+                                </div>
+                              </td>
+
+                              {/* Link */}
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                {resolved.broken ? (
+                                  <span className="inline-flex items-center gap-1 text-sm text-red-600">
+                                    <AlertTriangle className="w-4 h-4" />
+                                    Broken link
+                                  </span>
+                                ) : (
+                                  <code className="text-sm text-gray-900">{resolved.href}</code>
+                                )}
+                              </td>
+
+                              {/* Type */}
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {menuItemTypeLabels[item.type]}
+                              </td>
+
+                              {/* Actions */}
+                              {canUpdate && (
+                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                                  <div className="flex items-center gap-3">
+                                    <button
+                                      onClick={() => openAddItemModal(item.id)}
+                                      className="text-gray-600 hover:text-gray-900"
+                                      title="Add submenu item"
+                                    >
+                                      <CornerDownRight className="w-5 h-5" />
+                                    </button>
+                                    <button
+                                      onClick={() => openEditItemModal(item)}
+                                      className="text-blue-600 hover:text-blue-900"
+                                      title="Edit item"
+                                    >
+                                      <Edit className="w-5 h-5" />
+                                    </button>
+                                    <button
+                                      onClick={() => setItems(removeMenuItem(items, item.id))}
+                                      className="text-red-600 hover:text-red-900"
+                                      title="Remove item and its submenu"
+                                    >
+                                      <Trash2 className="w-5 h-5" />
+                                    </button>
+                                  </div>
+                                </td>
+                              )}
+                            </tr>
+                          )
+                        })
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      {/* Create/Edit Menu Modal */}
+      {isMenuModalOpen && (
+        <MenuModal
+          open={isMenuModalOpen}
+          onOpenChange={setIsMenuModalOpen}
+          companyId={selectedCompany.id}
+          menu={editingMenu}
+          onSaved={handleMenuSaved}
+        />
+      )}
+
+      {/* Add/Edit Item Modal */}
+      {isItemModalOpen && (
+        <MenuItemModal
+          open={isItemModalOpen}
+          onOpenChange={setIsItemModalOpen}
+          companyId={selectedCompany.id}
+          targets={targets}
+          item={editingItem}
+          onSave={handleItemSave}
+        />
+      )}
+
+      {/* Delete Menu Confirmation Modal */}
+      {canUpdate && menuToDelete && (
+        <DeleteConfirmationModal
+          open={!!menuToDelete}
+          onOpenChange={(open) => {
+            if (!open && !isDeleting) setMenuToDelete(null)
+          }}
+          itemName={menuToDelete.name}
+          itemType="menu"
+          description={`"${menuToDelete.name}" and all of its items are removed from the site.`}
+          onConfirm={handleDeleteMenuConfirm}
+          isDeleting={isDeleting}
+        />
+      )}
+    </div>
+  )
+}
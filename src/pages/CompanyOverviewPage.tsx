@@ -9,6 +9,7 @@ import { useCompany } from '@/hooks/useCompany'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { PostTemplateLibrary } from '@/components/PostTemplateLibrary'
 import { apiClient } from '@/lib/api'
 import urls from '@/services/http/url'
 import { Upload, X } from 'lucide-react'
@@ -366,6 +367,10 @@ export function CompanyOverviewPage() {
             </form>
           </CardContent>
         </Card>
+
+        <div className="mt-6">
+          <PostTemplateLibrary companyId={selectedCompany.id} />
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,134 @@
+// ContentEditorPage - full-page editor for entries of one content type (pages, events, ...)
+// Rendered at paths.content.create and paths.content.edit of each registered type (see routes/index.tsx)
+import { useState, useEffect } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import contentService, { type ContentEntry } from '@/services/content/contentService'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Loader } from '@/components/ui/loader'
+import { ContentForm } from '@/components/ContentForm'
+import { useCompany } from '@/hooks/useCompany'
+import type { ContentType } from '@/lib/contentTypes'
+import { toast } from '@/lib/toast'
+import paths from '@/routes/paths'
+import { ArrowLeft } from 'lucide-react'
+
+interface ContentEditorPageProps {
+  type: ContentType
+}
+
+export function ContentEditorPage({ type }: ContentEditorPageProps) {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
+  const [entry, setEntry] = useState<ContentEntry | null>(null)
+  const [isLoading, setIsLoading] = useState(!!id)
+  const [error, setError] = useState<string | null>(null)
+
+  const isEditMode = !!id
+  const label = type.singular.toLowerCase()
+
+  // fetch entry when id or selected company changes
+  useEffect(() => {
+    // wait for company context to finish loading
+    if (isLoadingCompany) {
+      return
+    }
+
+    if (!selectedCompany) {
+      setError('No company selected. Please select a company first.')
+      setIsLoading(false)
+      return
+    }
+
+    if (id) {
+      fetchEntry(id)
+    } else {
+      // create mode - start from an empty form
+      setEntry(null)
+      setError(null)
+      setIsLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, selectedCompany, isLoadingCompany, type.key])
+
+  const fetchEntry = async (entryId: string) => {
+    if (!selectedCompany) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      setEntry(await contentService.get(selectedCompany.id, type.key, entryId))
+    } catch (err) {
+      console.error(`Failed to fetch ${label}:`, err)
+      setError(`Failed to load ${label}. It may have been deleted or belong to another company.`)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSuccess = (savedEntry: ContentEntry) => {
+    if (isEditMode) {
+      toast.success(`${type.singular} updated`, `"${savedEntry.title}" has been saved.`)
+      setEntry(savedEntry)
+    } else {
+      toast.success(`${type.singular} created`, `"${savedEntry.title}" has been created.`)
+      // switch to the edit URL so the new entry can be shared and reloaded
+      navigate(paths.content.edit.build(type.key, savedEntry.id), { replace: true })
+    }
+  }
+
+  if (isLoadingCompany || isLoading) {
+    return (
+      <div className="p-8">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <Loader className="mx-auto mb-4" />
+            <p className="text-gray-600">Loading {label}...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !selectedCompany) {
+    return (
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>Error</CardTitle>
+              <CardDescription>{error || 'No company selected.'}</CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="mb-6">
+        <Link
+          to={paths.content.list.build(type.key)}
+          className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 mb-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          All {type.plural}
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900">
+          {isEditMode ? `Edit ${type.singular}` : `Create New ${type.singular}`}
+        </h1>
+      </div>
+
+      <ContentForm
+        key={`${type.key}-${entry?.id || 'new'}`}
+        companyId={selectedCompany.id}
+        type={type}
+        entry={entry}
+        onSuccess={handleSuccess}
+        onCancel={() => navigate(paths.content.list.build(type.key))}
+      />
+    </div>
+  )
+}
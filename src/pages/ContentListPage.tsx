@@ -0,0 +1,504 @@
+// ContentListPage - displays the entries of one content type (pages, events, landing pages, products)
+// Same list behaviour as PostsPage: server-side pagination, search, status tabs and sorting kept in URL query params
+import { useState, useEffect, useRef } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import contentService, {
+  type ContentEntry,
+  type ContentListParams,
+  type ContentListResponse,
+  type ContentStatus,
+} from '@/services/content/contentService'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader } from '@/components/ui/loader'
+import { DeleteConfirmationModal } from '@/components/DeleteConfirmationModal'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCompany } from '@/hooks/useCompany'
+import { useDebounce } from '@/hooks/useDebounce'
+import { getContentPermission, type ContentType } from '@/lib/contentTypes'
+import type { CustomFieldDefinitionValues } from '@/lib/customFields'
+import type { CustomFieldValue } from '@/services/blog/blogService'
+import { toast } from '@/lib/toast'
+import { formatDate, formatDateTime } from '@/lib/utils'
+import paths from '@/routes/paths'
+import { Plus, Edit, Trash2, ArrowUpDown, ArrowUp, ArrowDown, Search } from 'lucide-react'
+
+// filter type
+type FilterType = 'all' | ContentStatus
+
+// sort order type
+type SortOrder = 'asc' | 'desc' | null
+
+// sortable column type
+type SortableColumn = 'title' | 'updated' | null
+
+// entries per page
+const PAGE_SIZE = 20
+
+// status filter tabs
+const filterTabs: { value: FilterType; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'published', label: 'Published' },
+  { value: 'draft', label: 'Draft' },
+]
+
+// sortable column -> API sort field
+const sortFields: Record<NonNullable<SortableColumn>, NonNullable<ContentListParams['sort']>> = {
+  title: 'title',
+  updated: 'updated_at',
+}
+
+const statusBadgeColors: Record<ContentStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  published: 'bg-green-100 text-green-800',
+}
+
+// type field value as table cell text
+function formatFieldValue(field: CustomFieldDefinitionValues, value: CustomFieldValue | undefined): string {
+  if (field.type === 'boolean') return value ? 'Yes' : 'No'
+  if (value == null || value === '') return '-'
+  if (field.type === 'date') return formatDate(`${value}T00:00:00`)
+  return String(value)
+}
+
+interface ContentListPageProps {
+  type: ContentType
+}
+
+export function ContentListPage({ type }: ContentListPageProps) {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
+  const [entries, setEntries] = useState<ContentEntry[]>([])
+  const [pagination, setPagination] = useState<ContentListResponse['pagination'] | null>(null)
+  const [statusCounts, setStatusCounts] = useState<ContentListResponse['counts']>(undefined)
+  const [isLoading, setIsLoading] = useState(true)
+  const [hasLoaded, setHasLoaded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // ignore responses of outdated requests (e.g. while typing a search)
+  const latestRequestRef = useRef(0)
+  // delete confirmation modal state
+  const [entryToDelete, setEntryToDelete] = useState<ContentEntry | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  // list state lives in the URL so filtered views can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams()
+  const queryString = searchParams.toString()
+  const filter = (searchParams.get('status') as FilterType | null) || 'all'
+  const sortColumn = (searchParams.get('sort') as SortableColumn) || null
+  const sortOrder: SortOrder = sortColumn ? (searchParams.get('order') === 'desc' ? 'desc' : 'asc') : null
+  const page = Math.max(1, Number(searchParams.get('page')) || 1)
+
+  // search box - typed value is debounced before it goes into the URL
+  const urlSearch = searchParams.get('search') || ''
+  const [searchInput, setSearchInput] = useState(urlSearch)
+  const [syncedSearch, setSyncedSearch] = useState(urlSearch)
+  // keep the input in sync when the URL changes from outside (back button, links)
+  if (urlSearch !== syncedSearch) {
+    setSyncedSearch(urlSearch)
+    setSearchInput(urlSearch)
+  }
+  const debouncedSearch = useDebounce(searchInput, 400)
+
+  const label = type.singular.toLowerCase()
+  const pluralLabel = type.plural.toLowerCase()
+  // type fields shown as extra columns
+  const listFields = type.listFields
+    .map((key) => type.fields.find((field) => field.key === key))
+    .filter((field): field is CustomFieldDefinitionValues => !!field)
+
+  // each content type has its own permissions (page.create, event.update, ...)
+  const canCreate = user?.permissions?.includes(getContentPermission(type, 'create')) ?? false
+  const canEdit = user?.permissions?.includes(getContentPermission(type, 'update')) ?? false
+  const canDelete = user?.permissions?.includes(getContentPermission(type, 'delete')) ?? false
+
+  // fetch entries when selected company or list params change
+  useEffect(() => {
+    // wait for company context to finish loading
+    if (isLoadingCompany) {
+      return
+    }
+
+    // if no company selected, show error
+    if (!selectedCompany) {
+      setError('No company selected. Please select a company first.')
+      setIsLoading(false)
+      return
+    }
+
+    fetchEntries()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCompany, isLoadingCompany, queryString, type.key])
+
+  // push the debounced search into the URL
+  useEffect(() => {
+    if (debouncedSearch.trim() !== urlSearch) {
+      updateParams({ search: debouncedSearch.trim() || null })
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedSearch])
+
+  // update list query params; filter changes jump back to the first page
+  const updateParams = (changes: Record<string, string | null>, resetPage = true) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value)
+        } else {
+          next.delete(key)
+        }
+      })
+      if (resetPage) {
+        next.delete('page')
+      }
+      return next
+    })
+  }
+
+  // build API params from the URL
+  const getListParams = (): ContentListParams => {
+    const params: ContentListParams = { page, limit: PAGE_SIZE }
+    if (urlSearch) params.search = urlSearch
+    if (filter !== 'all') params.status = filter
+    if (sortColumn && sortOrder) {
+      params.sort = sortFields[sortColumn]
+      params.order = sortOrder
+    }
+    return params
+  }
+
+  const fetchEntries = async () => {
+    if (!selectedCompany) return
+
+    const requestId = ++latestRequestRef.current
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await contentService.list(selectedCompany.id, type.key, getListParams())
+      if (requestId !== latestRequestRef.current) return
+      setEntries(response.data || [])
+      setPagination(response.pagination)
+      setStatusCounts(response.counts)
+    } catch (err) {
+      if (requestId !== latestRequestRef.current) return
+      console.error(`Failed to fetch ${pluralLabel}:`, err)
+      setError(`Failed to load ${pluralLabel}. Please try again.`)
+    } finally {
+      if (requestId === latestRequestRef.current) {
+        setIsLoading(false)
+        setHasLoaded(true)
+      }
+    }
+  }
+
+  // handle confirmed deletion
+  const handleDeleteConfirm = async () => {
+    if (!selectedCompany || !entryToDelete) return
+
+    setIsDeleting(true)
+    try {
+      await contentService.delete(selectedCompany.id, type.key, entryToDelete.id)
+      toast.success(`${type.singular} deleted`, `"${entryToDelete.title}" has been deleted successfully.`)
+      fetchEntries() // refresh the list
+      setEntryToDelete(null)
+    } catch (err) {
+      console.error(`Failed to delete ${label}:`, err)
+      const errorMessage = err instanceof Error ? err.message : `Failed to delete ${label}. Please try again.`
+      toast.error('Delete failed', errorMessage)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  // count shown next to a status tab (only when the API returned counts)
+  const getFilterCount = (tab: FilterType): number | undefined => {
+    if (statusCounts?.[tab] !== undefined) return statusCounts[tab]
+    // the total of the current list is the count of the active tab
+    return tab === filter ? pagination?.total : undefined
+  }
+
+  // handle column sort click
+  const handleSortClick = (column: SortableColumn) => {
+    if (sortColumn === column) {
+      // toggle sort order: asc -> desc -> null
+      if (sortOrder === 'asc') {
+        updateParams({ order: 'desc' })
+      } else if (sortOrder === 'desc') {
+        updateParams({ sort: null, order: null })
+      }
+    } else {
+      // set new column and start with asc
+      updateParams({ sort: column, order: 'asc' })
+    }
+  }
+
+  // get sort icon for column
+  const getSortIcon = (column: SortableColumn) => {
+    if (sortColumn !== column) {
+      return <ArrowUpDown className="w-4 h-4 text-gray-400" />
+    }
+    if (sortOrder === 'asc') {
+      return <ArrowUp className="w-4 h-4 text-blue-600" />
+    }
+    if (sortOrder === 'desc') {
+      return <ArrowDown className="w-4 h-4 text-blue-600" />
+    }
+    return <ArrowUpDown className="w-4 h-4 text-gray-400" />
+  }
+
+  // full-page loader only for the first load - later loads keep the filters mounted
+  if (isLoadingCompany || (isLoading && !hasLoaded)) {
+    return (
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center justify-center py-12">
+            <div className="text-center">
+              <Loader className="mx-auto mb-4" />
+              <p className="text-gray-600">Loading {pluralLabel}...</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !selectedCompany) {
+    return (
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>Error</CardTitle>
+              <CardDescription>{error || 'No company selected.'}</CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  const columnCount = 3 + listFields.length + (canEdit || canDelete ? 1 : 0)
+
+  return (
+    <div className="p-8">
+      {/* Header with Add button */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{type.plural}</h1>
+          <p className="text-gray-600">{type.description}</p>
+        </div>
+        {canCreate && (
+          <Button onClick={() => navigate(paths.content.create.build(type.key))}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add {type.singular}
+          </Button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="mb-4 flex items-center gap-4">
+        {filterTabs.map((tab, index) => {
+          const count = getFilterCount(tab.value)
+          return (
+            <div key={tab.value} className="flex items-center gap-4">
+              {index > 0 && <span className="text-gray-300">|</span>}
+              <button
+                onClick={() => updateParams({ status: tab.value === 'all' ? null : tab.value })}
+                className={`text-sm font-medium transition-colors ${
+                  filter === tab.value ? 'text-gray-900 font-bold' : 'text-blue-600 hover:text-blue-700'
+                }`}
+              >
+                {tab.label}
+                {count !== undefined && ` (${count})`}
+              </button>
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Search */}
+      <div className="mb-6 flex items-center gap-2">
+        <div className="relative w-64">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            type="text"
+            placeholder={`Search ${pluralLabel}...`}
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+      </div>
+
+      {/* Entries Table */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <button onClick={() => handleSortClick('title')} className="flex items-center gap-2 hover:text-gray-700">
+                      Title
+                      {getSortIcon('title')}
+                    </button>
+                  </th>
+                  {listFields.map((field) => (
+                    <th
+                      key={field.key}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {field.label}
+                    </th>
+                  ))}
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <button onClick={() => handleSortClick('updated')} className="flex items-center gap-2 hover:text-gray-700">
+                      Last Updated
+                      {getSortIcon('updated')}
+                    </button>
+                  </th>
+                  {(canEdit || canDelete) && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className={`bg-white divide-y divide-gray-200 ${isLoading ? 'opacity-50' : ''}`}>
+                {entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={columnCount} className="px-6 py-8 text-center text-gray-500">
+                      No {pluralLabel} found.
+                    </td>
+                  </tr>
+                ) : (
+                  entries.map((entry) => (
+                    <tr key={entry.id} className="hover:bg-gray-50">
+                      {/* Title */}
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {canEdit ? (
+                          <Link
+                            to={paths.content.edit.build(type.key, entry.id)}
+                            className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                          >
+                            {entry.title}
+                          </Link>
+                        ) : (
+                          <span className="text-sm font-medium text-gray-900">{entry.title}</span>
+                        )}
+                        <p className="text-xs text-gray-500">/{entry.slug}</p>
+                      </td>
+
+                      {/* Type fields */}
+                      {listFields.map((field) => (
+                        <td key={field.key} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatFieldValue(field, entry.fields?.[field.key])}
+                        </td>
+                      ))}
+
+                      {/* Status */}
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                            statusBadgeColors[entry.status] || 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {entry.status === 'published' ? 'Published' : 'Draft'}
+                        </span>
+                      </td>
+
+                      {/* Last Updated */}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {formatDateTime(entry.updated_at)}
+                      </td>
+
+                      {/* Actions */}
+                      {(canEdit || canDelete) && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          <div className="flex items-center gap-3">
+                            {canEdit && (
+                              <Link
+                                to={paths.content.edit.build(type.key, entry.id)}
+                                className="text-blue-600 hover:text-blue-900"
+                                title={`Edit ${label}`}
+                              >
+                                <Edit className="w-5 h-5" />
+                              </Link>
+                            )}
+                            {canDelete && (
+                              <button
+                                onClick={() => setEntryToDelete(entry)}
+                                className="text-red-600 hover:text-red-900"
+                                title={`Delete ${label}`}
+                              >
+                                <Trash2 className="w-5 h-5" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          {pagination && pagination.total > 0 && (
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+              <span className="text-sm text-gray-600">
+                Showing {(pagination.page - 1) * pagination.limit + 1}-
+                {Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total} {pluralLabel}
+              </span>
+              {pagination.totalPages > 1 && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateParams({ page: page > 2 ? String(page - 1) : null }, false)}
+                    disabled={page <= 1 || isLoading}
+                  >
+                    Previous
+                  </Button>
+                  <span className="text-sm text-gray-600">
+                    Page {pagination.page} of {pagination.totalPages}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateParams({ page: String(page + 1) }, false)}
+                    disabled={page >= pagination.totalPages || isLoading}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delete Confirmation Modal */}
+      {canDelete && entryToDelete && (
+        <DeleteConfirmationModal
+          open={!!entryToDelete}
+          onOpenChange={(open) => {
+            if (!open && !isDeleting) setEntryToDelete(null)
+          }}
+          itemName={entryToDelete.title}
+          itemType={label}
+          onConfirm={handleDeleteConfirm}
+          isDeleting={isDeleting}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,304 @@
+// CustomFieldsPage - defines the custom post fields of a company (e.g. "Source URL", "Sponsor", "Reading time")
+// Fields are shown in this order in the Custom Fields panel of the post editor
+import { useState, useEffect } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Loader } from '@/components/ui/loader'
+import { CustomFieldModal } from '@/components/CustomFieldModal'
+import { DeleteConfirmationModal } from '@/components/DeleteConfirmationModal'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCompany } from '@/hooks/useCompany'
+import {
+  customFieldTypeLabels,
+  deleteCustomField,
+  getCustomFields,
+  loadCustomFields,
+  moveCustomField,
+  type CustomFieldDefinition,
+} from '@/lib/customFields'
+import { toast } from '@/lib/toast'
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown } from 'lucide-react'
+
+// short summary of the type-specific settings
+function describeField(field: CustomFieldDefinition): string {
+  if (field.type === 'select') return (field.options || []).join(', ')
+  if (field.type === 'number') {
+    if (field.min != null && field.max != null) return `${field.min} to ${field.max}`
+    if (field.min != null) return `At least ${field.min}`
+    if (field.max != null) return `At most ${field.max}`
+  }
+  if (field.type === 'text' && field.max_length) return `Up to ${field.max_length} characters`
+  return ''
+}
+
+export function CustomFieldsPage() {
+  const { user } = useAuth()
+  const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // create/edit modal state (null field = create)
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingField, setEditingField] = useState<CustomFieldDefinition | null>(null)
+  const [movingFieldId, setMovingFieldId] = useState<string | null>(null)
+  // delete confirmation modal state
+  const [fieldToDelete, setFieldToDelete] = useState<CustomFieldDefinition | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  // Check if user has permission to edit fields (definitions are stored in the company settings)
+  const canUpdate = user?.permissions?.includes('company.update') ?? false
+
+  // fetch fields when selected company changes
+  useEffect(() => {
+    if (selectedCompany && !isLoadingCompany) {
+      fetchFields()
+    } else if (!isLoadingCompany && !selectedCompany) {
+      setError('No company selected. Please select a company first.')
+      setIsLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCompany, isLoadingCompany])
+
+  const fetchFields = async () => {
+    if (!selectedCompany) {
+      setError('No company selected.')
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      setFields(await loadCustomFields(selectedCompany.id))
+    } catch (err) {
+      console.error('Failed to fetch custom fields:', err)
+      setError('Failed to load custom fields. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const openCreateModal = () => {
+    setEditingField(null)
+    setIsModalOpen(true)
+  }
+
+  const openEditModal = (field: CustomFieldDefinition) => {
+    setEditingField(field)
+    setIsModalOpen(true)
+  }
+
+  const handleSaved = (updatedFields: CustomFieldDefinition[]) => {
+    toast.success(
+      editingField ? 'Field updated' : 'Field added',
+      editingField ? `"${editingField.label}" has been updated.` : 'The field is now shown in the post editor.'
+    )
+    setFields(updatedFields)
+  }
+
+  const handleMove = async (field: CustomFieldDefinition, direction: -1 | 1) => {
+    if (!selectedCompany) return
+
+    setMovingFieldId(field.id)
+    try {
+      setFields(getCustomFields(await moveCustomField(selectedCompany.id, field.id, direction)))
+    } catch (err) {
+      console.error('Failed to reorder custom fields:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reorder fields. Please try again.'
+      toast.error('Reorder failed', errorMessage)
+    } finally {
+      setMovingFieldId(null)
+    }
+  }
+
+  // handle confirmed deletion
+  const handleDeleteConfirm = async () => {
+    if (!selectedCompany || !fieldToDelete) return
+
+    setIsDeleting(true)
+    try {
+      setFields(getCustomFields(await deleteCustomField(selectedCompany.id, fieldToDelete.id)))
+      toast.success('Field deleted', `"${fieldToDelete.label}" has been deleted successfully.`)
+      setFieldToDelete(null)
+    } catch (err) {
+      console.error('Failed to delete custom field:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete field. Please try again.'
+      toast.error('Delete failed', errorMessage)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  if (isLoadingCompany || isLoading) {
+    return (
+      <div className="p-8">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <Loader className="mx-auto mb-4" />
+            <p className="text-gray-600">Loading custom fields...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !selectedCompany) {
+    return (
+      <div className="p-8">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-red-600">{error || 'No company selected. Please select a company first.'}</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Custom Fields</h1>
+          <p className="text-gray-600">Extra fields shown in the post editor, in this order</p>
+        </div>
+        {canUpdate && (
+          <Button onClick={openCreateModal}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Field
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Label
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Key
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Required
+                  </th>
+                  {canUpdate && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {fields.length === 0 ? (
+                  <tr>
+                    <td colSpan={canUpdate ? 5 : 4} className="px-6 py-8 text-center text-gray-500">
+                      No custom fields yet.
+                    </td>
+                  </tr>
+                ) : (
+                  fields.map((field, index) => (
+                    <tr key={field.id} className="hover:bg-gray-50">
+                      {/* Label */}
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{field.label}</div>
+                        {field.help_text && <p className="text-sm text-gray-500">{field.help_text}</p>}
+                      </td>
+
+                      {/* Key */}
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <code className="text-sm text-gray-900">{field.key}</code>
+                      </td>
+
+                      {/* Type */}
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-gray-900">{customFieldTypeLabels[field.type]}</div>
+                        {describeField(field) && <p className="text-xs text-gray-500">{describeField(field)}</p>}
+                      </td>
+
+                      {/* Required */}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {field.required ? 'Yes' : 'No'}
+                      </td>
+
+                      {/* Actions */}
+                      {canUpdate && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          <div className="flex items-center gap-3">
+                            <button
+                              onClick={() => handleMove(field, -1)}
+                              disabled={index === 0 || !!movingFieldId}
+                              className="text-gray-600 hover:text-gray-900 disabled:opacity-30 disabled:cursor-not-allowed"
+                              title="Move up"
+                            >
+                              <ArrowUp className="w-5 h-5" />
+                            </button>
+                            <button
+                              onClick={() => handleMove(field, 1)}
+                              disabled={index === fields.length - 1 || !!movingFieldId}
+                              className="text-gray-600 hover:text-gray-900 disabled:opacity-30 disabled:cursor-not-allowed"
+                              title="Move down"
+                            >
+                              <ArrowDown className="w-5 h-5" />
+                            </button>
+                            <button
+                              onClick={() => openEditModal(field)}
+                              className="text-blue-600 hover:text-blue-900"
+                              title="Edit field"
+                            >
+                              <Edit className="w-5 h-5" />
+                            </button>
+                            <button
+                              onClick={() => setFieldToDelete(field)}
+                              className="text-red-600 hover:text-red-900"
+                              title="Delete field"
+                            >
+                              <Trash2 className="w-5 h-5" />
+                            </button>
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Field Modal */}
+      {isModalOpen && (
+        <CustomFieldModal
+          open={isModalOpen}
+          onOpenChange={setIsModalOpen}
+          companyId={selectedCompany.id}
+          fields={fields}
+          field={editingField}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {canUpdate && fieldToDelete && (
+        <DeleteConfirmationModal
+          open={!!fieldToDelete}
+          onOpenChange={(open) => {
+            if (!open && !isDeleting) setFieldToDelete(null)
+          }}
+          itemName={fieldToDelete.label}
+          itemType="field"
+          description={`"${fieldToDelete.label}" is removed from the post editor. Values already saved on posts are kept.`}
+          onConfirm={handleDeleteConfirm}
+          isDeleting={isDeleting}
+        />
+      )}
+    </div>
+  )
+}
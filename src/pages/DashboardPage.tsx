@@ -1,142 +1,468 @@
 // Dashboard page component
-// Main admin dashboard with stats cards, recent posts, and activity
+// Analytics of the selected company for a date range: KPIs, views over time, posts by status and top posts
+// Recent activity is the latest part of the audit log (not limited to the date range, only shown to users who can see the log)
+// Every card loads on its own - a failed request (or a missing permission) only empties that card
+// The date range is kept in URL query params (?range=30d or ?range=custom&from=...&to=...)
 // Note: Sidebar is handled by DashboardLayout, this is just the content
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useState, useEffect, useRef } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import analyticsService, {
+  type AnalyticsRange,
+  type AnalyticsSummary,
+  type TopPost,
+  type ViewsPoint,
+} from '@/services/analytics/analyticsService'
+import auditLogService, { type AuditLogEntry } from '@/services/audit/auditLogService'
+import blogService, { type BlogPost, type PostStatus } from '@/services/blog/blogService'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Loader } from '@/components/ui/loader'
+import { BarList } from '@/components/BarList'
+import { ViewsChart } from '@/components/ViewsChart'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCompany } from '@/hooks/useCompany'
+import {
+  dateRangePresets,
+  formatBytes,
+  getPercentChange,
+  getPresetRange,
+  getRangeInterval,
+  type DateRangePreset,
+} from '@/lib/analytics'
+import { describeAuditEntry, formatRelativeTime } from '@/lib/audit'
+import { formatDate } from '@/lib/utils'
+import { statusLabels } from '@/lib/workflow'
+import paths from '@/routes/paths'
+import { FileText, Eye, Users, HardDrive } from 'lucide-react'
+
+// bar colors per post status (same colors as the status badges of the posts table)
+const statusBarColors: Record<PostStatus, string> = {
+  draft: 'bg-gray-400',
+  in_review: 'bg-yellow-400',
+  changes_requested: 'bg-orange-400',
+  scheduled: 'bg-blue-400',
+  published: 'bg-green-500',
+}
+
+// statuses with their own tab on the posts page
+const linkedStatuses: PostStatus[] = ['draft', 'in_review', 'scheduled', 'published']
+
+// value of a settled request, null when it failed (the card then shows that its data is unavailable)
+function getSettledValue<T>(result: PromiseSettledResult<T>, label: string): T | null {
+  if (result.status === 'fulfilled') return result.value
+  console.error(`Failed to fetch ${label}:`, result.reason)
+  return null
+}
+
+// placeholder for a card whose data could not be loaded
+function UnavailableText() {
+  return <p className="py-6 text-center text-sm text-gray-500">Not available.</p>
+}
 
 export function DashboardPage() {
-  // TODO: Replace with actual data from the API. Currently using sample data(hardcoded).
-  // sample data for dashboard
-  const stats = [
-    {
-      title: 'Total Posts',
-      value: '24',
-      change: '+3 this week',
-      icon: (
-        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-        </svg>
-      ),
-    },
-    {
-      title: 'Total Users',
-      value: '12',
-      change: '+2 this month',
-      icon: (
-        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
-        </svg>
-      ),
-    },
-    {
-      title: 'Page Views',
-      value: '1,234',
-      change: '+12% from last week',
-      icon: (
-        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-        </svg>
-      ),
-    },
-    {
-      title: 'Engagement',
-      value: '89%',
-      change: '+5% from last month',
-      icon: (
-        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-        </svg>
-      ),
-    },
-  ]
-
-  const recentPosts = [
-    { title: 'Getting Started with React', date: 'Jan 5, 2026', status: 'Published' },
-    { title: 'Advanced TypeScript Patterns', date: 'Jan 4, 2026', status: 'Draft' },
-    { title: 'Building Scalable APIs', date: 'Jan 3, 2026', status: 'Published' },
-  ]
-
-  const recentActivity = [
-    { action: 'New user registered', user: 'john@example.com', time: '2 hours ago' },
-    { action: 'Post published', user: 'admin@example.com', time: '5 hours ago' },
-    { action: 'Settings updated', user: 'admin@example.com', time: '1 day ago' },
-  ]
+  const { user } = useAuth()
+  const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
+  // card data - null while unavailable (request failed or not permitted)
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null)
+  const [views, setViews] = useState<ViewsPoint[] | null>(null)
+  const [topPosts, setTopPosts] = useState<TopPost[] | null>(null)
+  const [recentPosts, setRecentPosts] = useState<BlogPost[] | null>(null)
+  const [recentActivity, setRecentActivity] = useState<AuditLogEntry[] | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [hasLoaded, setHasLoaded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // ignore responses of outdated requests (e.g. while switching ranges quickly)
+  const latestRequestRef = useRef(0)
+  const latestActivityRequestRef = useRef(0)
+
+  // Check if user has permission to see posts (recent posts card)
+  const canViewPosts = user?.permissions?.includes('blog.view') ?? false
+  // Check if user has permission to see the audit log (recent activity card)
+  const canViewActivity = user?.permissions?.includes('company.update') ?? false
+
+  // date range lives in the URL so a view can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams()
+  const rangeParam = searchParams.get('range') as DateRangePreset | null
+  const preset = dateRangePresets.some((item) => item.value === rangeParam) ? (rangeParam as DateRangePreset) : '30d'
+  const customFrom = searchParams.get('from') || ''
+  const customTo = searchParams.get('to') || ''
+  // custom ranges are only used once both dates are set and in order
+  const range: AnalyticsRange | null =
+    preset === 'custom'
+      ? customFrom && customTo && customFrom <= customTo
+        ? { from: customFrom, to: customTo }
+        : null
+      : getPresetRange(preset)
+  const interval = range ? getRangeInterval(range) : 'day'
+
+  // fetch analytics when selected company or range changes
+  useEffect(() => {
+    // wait for company context to finish loading
+    if (isLoadingCompany) {
+      return
+    }
+
+    if (!selectedCompany) {
+      setError('No company selected. Please select a company first.')
+      setIsLoading(false)
+      return
+    }
+
+    if (range) {
+      fetchAnalytics(range)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCompany, isLoadingCompany, range?.from, range?.to])
+
+  // fetch recent activity when selected company changes - it does not depend on the range
+  useEffect(() => {
+    if (isLoadingCompany || !selectedCompany || !canViewActivity) {
+      return
+    }
+    fetchRecentActivity()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCompany, isLoadingCompany, canViewActivity])
+
+  const fetchAnalytics = async (currentRange: AnalyticsRange) => {
+    if (!selectedCompany) return
+
+    const requestId = ++latestRequestRef.current
+    setIsLoading(true)
+    setError(null)
+    const companyId = selectedCompany.id
+    const [summaryResult, viewsResult, topPostsResult, recentPostsResult] = await Promise.allSettled([
+      analyticsService.getSummary(companyId, currentRange),
+      analyticsService.getViews(companyId, currentRange, getRangeInterval(currentRange)),
+      analyticsService.getTopPosts(companyId, currentRange),
+      canViewPosts
+        ? blogService.list(companyId, { limit: 5, sort: 'updated_at', order: 'desc' }).then((response) => response.data || [])
+        : Promise.resolve(null),
+    ])
+    if (requestId !== latestRequestRef.current) return
+
+    setSummary(getSettledValue(summaryResult, 'analytics summary'))
+    setViews(getSettledValue(viewsResult, 'views'))
+    setTopPosts(getSettledValue(topPostsResult, 'top posts'))
+    setRecentPosts(getSettledValue(recentPostsResult, 'recent posts'))
+    setIsLoading(false)
+    setHasLoaded(true)
+  }
+
+  const fetchRecentActivity = async () => {
+    if (!selectedCompany) return
+
+    const requestId = ++latestActivityRequestRef.current
+    try {
+      const response = await auditLogService.list(selectedCompany.id, { limit: 5 })
+      if (requestId !== latestActivityRequestRef.current) return
+      setRecentActivity(response.data || [])
+    } catch (err) {
+      if (requestId !== latestActivityRequestRef.current) return
+      console.error('Failed to fetch recent activity:', err)
+      setRecentActivity(null)
+    }
+  }
+
+  // switch the range; a custom range starts from the range shown so far
+  const handlePresetChange = (value: DateRangePreset) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      next.set('range', value)
+      if (value === 'custom' && range) {
+        next.set('from', range.from)
+        next.set('to', range.to)
+      } else if (value !== 'custom') {
+        next.delete('from')
+        next.delete('to')
+      }
+      return next
+    })
+  }
+
+  const handleCustomDateChange = (key: 'from' | 'to', value: string) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      if (value) {
+        next.set(key, value)
+      } else {
+        next.delete(key)
+      }
+      return next
+    })
+  }
+
+  // full-page loader only for the first load - later loads keep the range selection mounted
+  if (isLoadingCompany || (isLoading && !hasLoaded && !!range)) {
+    return (
+      <div className="p-8">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <Loader className="mx-auto mb-4" />
+            <p className="text-gray-600">Loading dashboard...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !selectedCompany) {
+    return (
+      <div className="p-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Error</CardTitle>
+            <CardDescription>{error || 'No company selected.'}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    )
+  }
+
+  const viewsChange = summary ? getPercentChange(summary.views.total, summary.views.previous_total) : null
+  const storageLimit = summary?.media.limit_bytes || null
+  const storagePercent = summary && storageLimit ? Math.min(100, (summary.media.total_bytes / storageLimit) * 100) : null
+
+  const stats = summary
+    ? [
+        {
+          title: 'Total Posts',
+          value: summary.posts.total.toLocaleString(),
+          change: `${summary.posts.published_in_range} published in this period`,
+          icon: <FileText className="w-6 h-6" />,
+        },
+        {
+          title: 'Page Views',
+          value: summary.views.total.toLocaleString(),
+          change:
+            viewsChange === null
+              ? 'No views in the previous period'
+              : `${viewsChange >= 0 ? '+' : ''}${viewsChange}% from the previous period`,
+          icon: <Eye className="w-6 h-6" />,
+        },
+        {
+          title: 'Members',
+          value: summary.members.total.toLocaleString(),
+          change: `+${summary.members.joined_in_range} joined in this period`,
+          icon: <Users className="w-6 h-6" />,
+        },
+        {
+          title: 'Media Storage',
+          value: formatBytes(summary.media.total_bytes),
+          change: storageLimit
+            ? `${summary.media.count} files, ${formatBytes(storageLimit)} available in total`
+            : `${summary.media.count} files`,
+          icon: <HardDrive className="w-6 h-6" />,
+        },
+      ]
+    : []
+
+  const statusItems = summary
+    ? (Object.keys(statusLabels) as PostStatus[])
+        .filter((status) => summary.posts.by_status[status])
+        .map((status) => ({
+          key: status,
+          label: statusLabels[status],
+          value: summary.posts.by_status[status] || 0,
+          href: linkedStatuses.includes(status) ? `${paths.posts.list}?status=${status}` : undefined,
+          color: statusBarColors[status],
+        }))
+    : []
 
   return (
     <div className="p-8">
       {/* page header */}
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Dashboard</h1>
-        <p className="text-gray-600">Welcome to your CMS dashboard overview.</p>
-      </div>
+      <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Dashboard</h1>
+          <p className="text-gray-600">Analytics of {selectedCompany.name}</p>
+        </div>
 
-      {/* stats cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-            {stats.map((stat) => (
-              <Card key={stat.title}>
-                <CardHeader className="flex flex-row items-center justify-between pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-600">
-                    {stat.title}
-                  </CardTitle>
-                  <div className="text-gray-400">{stat.icon}</div>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold">{stat.value}</div>
-                  <p className="text-xs text-gray-500 mt-1">{stat.change}</p>
-                </CardContent>
-              </Card>
+        {/* date range selection */}
+        <div className="flex flex-wrap items-center gap-2">
+          {preset === 'custom' && (
+            <>
+              <Input
+                type="date"
+                value={customFrom}
+                max={customTo || undefined}
+                onChange={(e) => handleCustomDateChange('from', e.target.value)}
+                className="w-40"
+                aria-label="From"
+              />
+              <span className="text-gray-500">to</span>
+              <Input
+                type="date"
+                value={customTo}
+                min={customFrom || undefined}
+                onChange={(e) => handleCustomDateChange('to', e.target.value)}
+                className="w-40"
+                aria-label="To"
+              />
+            </>
+          )}
+          <select
+            value={preset}
+            onChange={(e) => handlePresetChange(e.target.value as DateRangePreset)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {dateRangePresets.map((item) => (
+              <option key={item.value} value={item.value}>
+                {item.label}
+              </option>
             ))}
-          </div>
+          </select>
+        </div>
+      </div>
+
+      {!range && (
+        <p className="mb-6 text-sm text-gray-600">Select a start and end date to see the analytics of a custom period.</p>
+      )}
+
+      <div className={isLoading ? 'opacity-50' : ''}>
+        {/* stats cards */}
+        {!summary && (
+          <Card className="mb-8">
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Key figures are not available.</p>
+            </CardContent>
+          </Card>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+          {stats.map((stat) => (
+            <Card key={stat.title}>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600">
+                  {stat.title}
+                </CardTitle>
+                <div className="text-gray-400">{stat.icon}</div>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stat.value}</div>
+                <p className="text-xs text-gray-500 mt-1">{stat.change}</p>
+                {stat.title === 'Media Storage' && storagePercent !== null && (
+                  <div className="mt-2 h-2 rounded-full bg-gray-100">
+                    <div
+                      className={`h-2 rounded-full ${storagePercent > 90 ? 'bg-red-500' : 'bg-blue-500'}`}
+                      style={{ width: `${storagePercent}%` }}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* charts */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+          {/* views over time */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Views Over Time</CardTitle>
+              <CardDescription>Views per {interval}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {views ? <ViewsChart points={views} interval={interval} /> : <UnavailableText />}
+            </CardContent>
+          </Card>
+
+          {/* posts by status */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Posts by Status</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {summary ? <BarList items={statusItems} emptyText="No posts yet." /> : <UnavailableText />}
+            </CardContent>
+          </Card>
+        </div>
 
-          {/* recent posts and activity */}
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {/* recent posts */}
+        {/* top posts, recent posts and activity */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* top posts */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Posts</CardTitle>
+              <CardDescription>Most viewed in this period</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {topPosts ? (
+                <BarList
+                  items={topPosts.map((post) => ({
+                    key: post.id,
+                    label: post.title,
+                    value: post.views,
+                    href: canViewPosts ? paths.posts.view.build(post.id) : undefined,
+                  }))}
+                />
+              ) : (
+                <UnavailableText />
+              )}
+            </CardContent>
+          </Card>
+
+          {/* recent posts */}
+          {canViewPosts && (
             <Card>
               <CardHeader>
                 <CardTitle>Recent Posts</CardTitle>
               </CardHeader>
               <CardContent>
+                {!recentPosts && <UnavailableText />}
                 <div className="space-y-4">
-                  {recentPosts.map((post, index) => (
-                    <div key={index} className="flex items-center justify-between pb-4 border-b last:border-0 last:pb-0">
-                      <div>
-                        <p className="font-medium text-gray-900">{post.title}</p>
-                        <p className="text-sm text-gray-500">{post.date}</p>
+                  {recentPosts?.length === 0 && <p className="text-sm text-gray-500">No posts yet.</p>}
+                  {recentPosts?.map((post) => (
+                    <div key={post.id} className="flex items-center justify-between gap-4 pb-4 border-b last:border-0 last:pb-0">
+                      <div className="min-w-0">
+                        <Link
+                          to={paths.posts.view.build(post.id)}
+                          className="block truncate font-medium text-gray-900 hover:text-blue-600"
+                        >
+                          {post.title}
+                        </Link>
+                        <p className="text-sm text-gray-500">{formatDate(post.updated_at)}</p>
                       </div>
                       <span
-                        className={`px-2 py-1 text-xs rounded-full ${
-                          post.status === 'Published'
+                        className={`shrink-0 px-2 py-1 text-xs rounded-full ${
+                          post.status === 'published'
                             ? 'bg-green-100 text-green-800'
                             : 'bg-orange-100 text-orange-800'
                         }`}
                       >
-                        {post.status}
+                        {statusLabels[post.status] || post.status}
                       </span>
                     </div>
                   ))}
                 </div>
               </CardContent>
             </Card>
+          )}
 
-            {/* recent activity */}
+          {/* recent activity */}
+          {canViewActivity && (
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle>Recent Activity</CardTitle>
+                <Link to={paths.companies.auditLog} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+                  View all
+                </Link>
               </CardHeader>
               <CardContent>
+                {!recentActivity && <UnavailableText />}
                 <div className="space-y-4">
-                  {recentActivity.map((activity, index) => (
-                    <div key={index} className="pb-4 border-b last:border-0 last:pb-0">
-                      <p className="font-medium text-gray-900">{activity.action}</p>
-                      <p className="text-sm text-gray-500">{activity.user}</p>
-                      <p className="text-xs text-gray-400 mt-1">{activity.time}</p>
+                  {recentActivity?.length === 0 && <p className="text-sm text-gray-500">Nothing has been changed yet.</p>}
+                  {recentActivity?.map((entry) => (
+                    <div key={entry.id} className="pb-4 border-b last:border-0 last:pb-0">
+                      <p className="font-medium text-gray-900">{describeAuditEntry(entry)}</p>
+                      <p className="text-sm text-gray-500">{entry.actor?.name || 'System'}</p>
+                      <p className="text-xs text-gray-400 mt-1">{formatRelativeTime(entry.created_at)}</p>
                     </div>
                   ))}
                 </div>
               </CardContent>
             </Card>
-          </div>
+          )}
+        </div>
+      </div>
     </div>
   )
 }
-
@@ -0,0 +1,221 @@
+// PostEditorPage - full-page editor for creating and editing posts
+// Rendered at paths.posts.create and paths.posts.edit so drafts can be deep-linked
+// Reuses PostForm (same form as PostModal) in its page layout
+import { useState, useEffect } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import blogService, { type BlogPost } from '@/services/blog/blogService'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Loader } from '@/components/ui/loader'
+import { PostForm } from '@/components/PostForm'
+import { PostRevisionsModal } from '@/components/PostRevisionsModal'
+import { ReviewDecisionModal } from '@/components/ReviewDecisionModal'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCompany } from '@/hooks/useCompany'
+import { toast } from '@/lib/toast'
+import { canReviewPost, canSubmitForReview } from '@/lib/workflow'
+import paths from '@/routes/paths'
+import { ArrowLeft, ClipboardCheck, Eye, History, Link2, Send } from 'lucide-react'
+
+export function PostEditorPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
+  const [post, setPost] = useState<BlogPost | null>(null)
+  const [isLoading, setIsLoading] = useState(!!id)
+  const [error, setError] = useState<string | null>(null)
+  const [isRevisionsModalOpen, setIsRevisionsModalOpen] = useState(false)
+  const [isReviewModalOpen, setIsReviewModalOpen] = useState(false)
+  const [isSubmittingForReview, setIsSubmittingForReview] = useState(false)
+
+  const isEditMode = !!id
+
+  // fetch post when id or selected company changes
+  useEffect(() => {
+    // wait for company context to finish loading
+    if (isLoadingCompany) {
+      return
+    }
+
+    if (!selectedCompany) {
+      setError('No company selected. Please select a company first.')
+      setIsLoading(false)
+      return
+    }
+
+    if (id) {
+      fetchPost(id)
+    } else {
+      // create mode - start from an empty form
+      setPost(null)
+      setError(null)
+      setIsLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, selectedCompany, isLoadingCompany])
+
+  const fetchPost = async (postId: string) => {
+    if (!selectedCompany) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const postData = await blogService.get(selectedCompany.id, postId)
+      setPost(postData)
+    } catch (err) {
+      console.error('Failed to fetch post:', err)
+      setError('Failed to load post. It may have been deleted or belong to another company.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSuccess = (savedPost: BlogPost) => {
+    if (isEditMode) {
+      toast.success('Post updated', `"${savedPost.title}" has been saved.`)
+      setPost(savedPost)
+    } else {
+      toast.success('Post created', `"${savedPost.title}" has been created.`)
+      // switch to the edit URL so the new draft can be shared and reloaded
+      navigate(paths.posts.edit.build(savedPost.id), { replace: true })
+    }
+  }
+
+  const handleCancel = () => {
+    navigate(paths.posts.list)
+  }
+
+  // submit the saved post for review
+  const handleSubmitForReview = async () => {
+    if (!selectedCompany || !post) return
+
+    setIsSubmittingForReview(true)
+    try {
+      const submittedPost = await blogService.submitForReview(selectedCompany.id, post.id)
+      toast.success('Submitted for review', `"${submittedPost.title}" is waiting for review.`)
+      setPost(submittedPost)
+    } catch (err) {
+      console.error('Failed to submit post for review:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to submit post for review. Please try again.'
+      toast.error('Submit failed', errorMessage)
+    } finally {
+      setIsSubmittingForReview(false)
+    }
+  }
+
+  // copy the current editor URL so it can be shared in chat
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast.success('Link copied', 'The editor link has been copied to your clipboard.')
+    } catch (err) {
+      console.error('Failed to copy link:', err)
+      toast.error('Copy failed', 'Could not copy the link to your clipboard.')
+    }
+  }
+
+  if (isLoadingCompany || isLoading) {
+    return (
+      <div className="p-8">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <Loader className="mx-auto mb-4" />
+            <p className="text-gray-600">Loading post...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !selectedCompany) {
+    return (
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>Error</CardTitle>
+              <CardDescription>{error || 'No company selected.'}</CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <Link
+            to={paths.posts.list}
+            className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 mb-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            All Posts
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">
+            {isEditMode ? 'Edit Post' : 'Create New Post'}
+          </h1>
+        </div>
+        {isEditMode && post && (
+          <div className="flex items-center gap-2">
+            {canSubmitForReview(user, post.status) && (
+              <Button type="button" onClick={handleSubmitForReview} disabled={isSubmittingForReview}>
+                <Send className="w-4 h-4 mr-2" />
+                {isSubmittingForReview ? 'Submitting...' : 'Submit for Review'}
+              </Button>
+            )}
+            {canReviewPost(user, post.status) && (
+              <Button type="button" onClick={() => setIsReviewModalOpen(true)}>
+                <ClipboardCheck className="w-4 h-4 mr-2" />
+                Review
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={() => setIsRevisionsModalOpen(true)}>
+              <History className="w-4 h-4 mr-2" />
+              History
+            </Button>
+            <Button type="button" variant="outline" onClick={handleCopyLink}>
+              <Link2 className="w-4 h-4 mr-2" />
+              Copy Link
+            </Button>
+            <Button type="button" variant="outline" onClick={() => navigate(paths.posts.view.build(post.id))}>
+              <Eye className="w-4 h-4 mr-2" />
+              View
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <PostForm
+        companyId={selectedCompany.id}
+        post={post}
+        onSuccess={handleSuccess}
+        onCancel={handleCancel}
+        variant="page"
+      />
+
+      {/* Revision History and Review Modals */}
+      {isEditMode && post && (
+        <>
+          <PostRevisionsModal
+            open={isRevisionsModalOpen}
+            onOpenChange={setIsRevisionsModalOpen}
+            companyId={selectedCompany.id}
+            post={post}
+            onRestored={setPost}
+          />
+          <ReviewDecisionModal
+            open={isReviewModalOpen}
+            onOpenChange={setIsReviewModalOpen}
+            companyId={selectedCompany.id}
+            post={post}
+            onReviewed={setPost}
+          />
+        </>
+      )}
+    </div>
+  )
+}
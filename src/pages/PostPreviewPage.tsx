@@ -0,0 +1,91 @@
+// PostPreviewPage - public preview of an unpublished post
+// Rendered at paths.preview; access is granted by a time-limited token instead of a session
+import { useState, useEffect } from 'react'
+import { useParams } from 'react-router-dom'
+import blogService, { type SharedPostPreview } from '@/services/blog/blogService'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Loader } from '@/components/ui/loader'
+import { PostPreview } from '@/components/PostPreview'
+import { formatDateTime } from '@/lib/utils'
+import { Eye } from 'lucide-react'
+
+export function PostPreviewPage() {
+  const { token } = useParams<{ token: string }>()
+  const [preview, setPreview] = useState<SharedPostPreview | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // resolve the preview token
+  useEffect(() => {
+    if (token) {
+      fetchPreview(token)
+    }
+  }, [token])
+
+  const fetchPreview = async (previewToken: string) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const previewData = await blogService.getSharedPreview(previewToken)
+      setPreview(previewData)
+    } catch (err) {
+      console.error('Failed to load preview:', err)
+      setError('This preview link is invalid or has expired. Ask the editor for a new link.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <Loader className="mx-auto mb-4" />
+          <p className="text-gray-600">Loading preview...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !preview) {
+    return (
+      <div className="p-8">
+        <div className="max-w-xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview unavailable</CardTitle>
+              <CardDescription>{error || 'Preview not found.'}</CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  const { post, company } = preview
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Preview banner */}
+      <div className="flex items-center justify-between px-6 py-3 bg-yellow-50 border-b border-yellow-200">
+        <div className="flex items-center gap-3">
+          {company.logo_url && <img src={company.logo_url} alt={company.name} className="h-8 w-auto" />}
+          <p className="flex items-center gap-2 text-sm text-yellow-900">
+            <Eye className="w-4 h-4" />
+            Preview of an unpublished post from <span className="font-medium">{company.name}</span>
+          </p>
+        </div>
+        <p className="text-sm text-yellow-800">Link expires {formatDateTime(preview.expires_at)}</p>
+      </div>
+
+      <PostPreview
+        title={post.title}
+        content={post.content}
+        featuredImageUrl={post.featured_image_url}
+        categories={post.categories || []}
+        tags={post.tags || []}
+        theme={company.theme}
+      />
+    </div>
+  )
+}
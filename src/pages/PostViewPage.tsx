@@ -0,0 +1,265 @@
+// PostViewPage - read-only view of a single post
+// Rendered at paths.posts.view: rendered content on the left, post details on the right
+import { useState, useEffect } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import blogService, { type BlogPost, type SlugRedirect } from '@/services/blog/blogService'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Loader } from '@/components/ui/loader'
+import { PostPreview } from '@/components/PostPreview'
+import { SharePreviewModal } from '@/components/SharePreviewModal'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCompany } from '@/hooks/useCompany'
+import { statusLabels } from '@/lib/workflow'
+import { formatDateTime } from '@/lib/utils'
+import paths from '@/routes/paths'
+import { ArrowLeft, Edit, Share2 } from 'lucide-react'
+
+export function PostViewPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
+  const [post, setPost] = useState<BlogPost | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isShareOpen, setIsShareOpen] = useState(false)
+  // old slugs that still lead to this post
+  const [redirects, setRedirects] = useState<SlugRedirect[]>([])
+
+  // Check if user has permission to edit posts
+  const canEdit = user?.permissions?.includes('blog.update') ?? false
+
+  // fetch post when id or selected company changes
+  useEffect(() => {
+    if (isLoadingCompany) {
+      return
+    }
+
+    if (!selectedCompany) {
+      setError('No company selected. Please select a company first.')
+      setIsLoading(false)
+      return
+    }
+
+    if (id) {
+      fetchPost(id)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, selectedCompany, isLoadingCompany])
+
+  const fetchPost = async (postId: string) => {
+    if (!selectedCompany) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const postData = await blogService.get(selectedCompany.id, postId)
+      setPost(postData)
+      // redirects are secondary information - the post is shown even if they fail to load
+      blogService
+        .listRedirects(selectedCompany.id, { entity_type: 'post', entity_id: postId })
+        .then(setRedirects)
+        .catch((err) => console.error('Failed to fetch redirects:', err))
+    } catch (err) {
+      console.error('Failed to fetch post:', err)
+      setError('Failed to load post. It may have been deleted or belong to another company.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (isLoadingCompany || isLoading) {
+    return (
+      <div className="p-8">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <Loader className="mx-auto mb-4" />
+            <p className="text-gray-600">Loading post...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !post) {
+    return (
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>Error</CardTitle>
+              <CardDescription>{error || 'Post not found.'}</CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <Link
+            to={paths.posts.list}
+            className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 mb-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            All Posts
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">{post.title}</h1>
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            {post.status !== 'published' && (
+              <Button type="button" variant="outline" onClick={() => setIsShareOpen(true)}>
+                <Share2 className="w-4 h-4 mr-2" />
+                Share Preview
+              </Button>
+            )}
+            <Button type="button" onClick={() => navigate(paths.posts.edit.build(post.id))}>
+              <Edit className="w-4 h-4 mr-2" />
+              Edit Post
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-6 items-start">
+        {/* Left Side: Rendered content */}
+        <Card className="flex-1 min-w-0 overflow-hidden">
+          <CardContent className="p-0">
+            <PostPreview
+              title={post.title}
+              content={post.content}
+              featuredImageUrl={post.featured_image_url}
+              categories={post.categories || []}
+              tags={post.tags || []}
+              theme={selectedCompany?.theme}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Right Side: Details */}
+        <div className="w-80 shrink-0 space-y-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Status</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm text-gray-700">
+              <p>
+                <span className="font-medium">Status:</span> {statusLabels[post.status] || post.status}
+              </p>
+              {post.published_at && (
+                <p>
+                  <span className="font-medium">{post.status === 'scheduled' ? 'Scheduled for:' : 'Published:'}</span>{' '}
+                  {formatDateTime(post.published_at)}
+                </p>
+              )}
+              <p>
+                <span className="font-medium">Author:</span> {post.author_name || 'Unknown'}
+              </p>
+              <p>
+                <span className="font-medium">Slug:</span> {post.slug}
+              </p>
+              <p>
+                <span className="font-medium">Views:</span> {post.views || 0}
+              </p>
+              <p>
+                <span className="font-medium">Last updated:</span> {formatDateTime(post.updated_at)}
+              </p>
+              {post.review_comment && (
+                <p>
+                  <span className="font-medium">
+                    Review{post.reviewed_by_name ? ` (${post.reviewed_by_name})` : ''}:
+                  </span>{' '}
+                  {post.review_comment}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Taxonomy</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-1">
+                {(post.categories || []).length === 0 ? (
+                  <span className="text-sm text-gray-500">No categories</span>
+                ) : (
+                  post.categories.map((category) => (
+                    <span
+                      key={category.id}
+                      className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                    >
+                      {category.name}
+                    </span>
+                  ))
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {(post.tags || []).length === 0 ? (
+                  <span className="text-sm text-gray-500">No tags</span>
+                ) : (
+                  post.tags.map((tag) => (
+                    <span
+                      key={tag.id}
+                      className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                    >
+                      {tag.name}
+                    </span>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">SEO</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm text-gray-700">
+              <p>
+                <span className="font-medium">Meta title:</span> {post.meta_title || '-'}
+              </p>
+              <p>
+                <span className="font-medium">Meta description:</span> {post.meta_description || '-'}
+              </p>
+              <p className="break-all">
+                <span className="font-medium">Canonical URL:</span> {post.canonical_url || '-'}
+              </p>
+              <p>
+                <span className="font-medium">Search engines:</span> {post.robots_noindex ? 'Hidden (noindex)' : 'Indexed'}
+              </p>
+              {redirects.length > 0 && (
+                <div>
+                  <span className="font-medium">Redirects from:</span>
+                  <ul className="mt-1 space-y-0.5">
+                    {redirects.map((redirect) => (
+                      <li key={redirect.id} className="break-all text-gray-600">
+                        /{redirect.old_slug}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Share Preview Modal */}
+      {isShareOpen && selectedCompany && (
+        <SharePreviewModal
+          open={isShareOpen}
+          onOpenChange={setIsShareOpen}
+          companyId={selectedCompany.id}
+          post={post}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,19 +1,42 @@
 // PostsPage - displays all posts for a company
-// Shows posts in a table format with filters, sorting, and actions
-import { useState, useEffect, useMemo } from 'react'
-import blogService, { type BlogPost } from '@/services/blog/blogService'
+// Shows posts in a table format with server-side pagination, search, filters, sorting, and actions
+// List state (page, filters, sort) is kept in URL query params so filtered views can be bookmarked
+import { useState, useEffect, useRef } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import blogService, {
+  type BlogPost,
+  type Category,
+  type PostListParams,
+  type PostListResponse,
+  type PostStatus,
+  type Tag,
+} from '@/services/blog/blogService'
+import companyService, { type CompanyMember } from '@/services/company/companyService'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { Loader } from '@/components/ui/loader'
 import { PostModal } from '@/components/PostModal'
 import { DeleteConfirmationModal } from '@/components/DeleteConfirmationModal'
+import { PostRevisionsModal } from '@/components/PostRevisionsModal'
+import { PublishCountdown } from '@/components/PublishCountdown'
+import { ReviewDecisionModal } from '@/components/ReviewDecisionModal'
+import { BulkPostActionModal } from '@/components/BulkPostActionModal'
 import { useAuth } from '@/contexts/AuthContext'
 import { useCompany } from '@/hooks/useCompany'
+import { useDebounce } from '@/hooks/useDebounce'
 import { toast } from '@/lib/toast'
-import { Plus, Edit, Trash2, ArrowUpDown, ArrowUp, ArrowDown, User } from 'lucide-react'
+import { canReviewPost, canSubmitForReview, statusLabels } from '@/lib/workflow'
+import { truncateAtWord } from '@/lib/text'
+import { findAvailableSlug } from '@/lib/slug'
+import { bulkPostActions, type BulkPostAction } from '@/lib/postBulkActions'
+import { getFullPost, listAllPosts } from '@/lib/posts'
+import { formatDateTime } from '@/lib/utils'
+import paths from '@/routes/paths'
+import { Plus, Edit, Trash2, ArrowUpDown, ArrowUp, ArrowDown, User, Maximize2, History, Send, ClipboardCheck, Search, Copy } from 'lucide-react'
 
 // filter type
-type FilterType = 'all' | 'published' | 'draft'
+type FilterType = 'all' | 'published' | 'scheduled' | 'in_review' | 'draft'
 
 // sort order type
 type SortOrder = 'asc' | 'desc' | null
@@ -21,15 +44,88 @@ type SortOrder = 'asc' | 'desc' | null
 // sortable column type
 type SortableColumn = 'title' | 'date' | null
 
+// localStorage key for the optional excerpt column
+const SHOW_EXCERPT_STORAGE_KEY = 'posts_show_excerpt'
+
+// posts per page
+const PAGE_SIZE = 20
+
+// status filter tabs
+const filterTabs: { value: FilterType; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'published', label: 'Published' },
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'in_review', label: 'In Review' },
+  { value: 'draft', label: 'Draft' },
+]
+
+// sortable column -> API sort field
+const sortFields: Record<NonNullable<SortableColumn>, NonNullable<PostListParams['sort']>> = {
+  title: 'title',
+  date: 'published_at',
+}
+
+// filter query params (besides status) - used to detect and clear active filters
+const filterParamKeys = ['search', 'category', 'tag', 'term', 'author', 'from', 'to']
+
 export function PostsPage() {
   const { user } = useAuth()
+  const navigate = useNavigate()
   const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
   const [posts, setPosts] = useState<BlogPost[]>([])
+  const [pagination, setPagination] = useState<PostListResponse['pagination'] | null>(null)
+  const [statusCounts, setStatusCounts] = useState<PostListResponse['counts']>(undefined)
   const [isLoading, setIsLoading] = useState(true)
+  const [hasLoaded, setHasLoaded] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [filter, setFilter] = useState<FilterType>('all')
-  const [sortColumn, setSortColumn] = useState<SortableColumn>(null)
-  const [sortOrder, setSortOrder] = useState<SortOrder>(null)
+  // ignore responses of outdated requests (e.g. while typing a search)
+  const latestRequestRef = useRef(0)
+  // options for the filter selects
+  const [categories, setCategories] = useState<Category[]>([])
+  const [tags, setTags] = useState<Tag[]>([])
+  const [authors, setAuthors] = useState<CompanyMember[]>([])
+
+  // list state lives in the URL so filtered views can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams()
+  const queryString = searchParams.toString()
+  const statusParam = searchParams.get('status') as FilterType | null
+  const filter = filterTabs.some((tab) => tab.value === statusParam) ? (statusParam as FilterType) : 'all'
+  const sortColumn = (searchParams.get('sort') as SortableColumn) || null
+  const sortOrder: SortOrder = sortColumn ? (searchParams.get('order') === 'desc' ? 'desc' : 'asc') : null
+  const page = Math.max(1, Number(searchParams.get('page')) || 1)
+  const categoryFilter = searchParams.get('category') || ''
+  const tagFilter = searchParams.get('tag') || ''
+  // custom taxonomy term (set by the post count links on the taxonomy pages)
+  const termFilter = searchParams.get('term') || ''
+  const authorFilter = searchParams.get('author') || ''
+  const dateFrom = searchParams.get('from') || ''
+  const dateTo = searchParams.get('to') || ''
+  const hasActiveFilters = filterParamKeys.some((key) => searchParams.has(key))
+
+  // bulk selection - kept across pages, cleared when filters or sorting change
+  const [selectedPosts, setSelectedPosts] = useState<Map<string, BlogPost>>(new Map())
+  const [selectAllMatching, setSelectAllMatching] = useState(false)
+  const [bulkAction, setBulkAction] = useState<BulkPostAction | null>(null)
+  const selectionParams = new URLSearchParams(searchParams)
+  selectionParams.delete('page')
+  const selectionKey = selectionParams.toString()
+  const [selectionFilterKey, setSelectionFilterKey] = useState(selectionKey)
+  if (selectionKey !== selectionFilterKey) {
+    setSelectionFilterKey(selectionKey)
+    setSelectedPosts(new Map())
+    setSelectAllMatching(false)
+  }
+
+  // search box - typed value is debounced before it goes into the URL
+  const urlSearch = searchParams.get('search') || ''
+  const [searchInput, setSearchInput] = useState(urlSearch)
+  const [syncedSearch, setSyncedSearch] = useState(urlSearch)
+  // keep the input in sync when the URL changes from outside (back button, links)
+  if (urlSearch !== syncedSearch) {
+    setSyncedSearch(urlSearch)
+    setSearchInput(urlSearch)
+  }
+  const debouncedSearch = useDebounce(searchInput, 400)
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [editingPost, setEditingPost] = useState<BlogPost | null>(null)
@@ -37,9 +133,18 @@ export function PostsPage() {
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
   const [postToDelete, setPostToDelete] = useState<BlogPost | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  // revision history modal state
+  const [revisionsPost, setRevisionsPost] = useState<BlogPost | null>(null)
+  // review decision modal state
+  const [reviewingPost, setReviewingPost] = useState<BlogPost | null>(null)
+  // id of the post currently being submitted for review
+  const [submittingPostId, setSubmittingPostId] = useState<string | null>(null)
+  const [duplicatingPostId, setDuplicatingPostId] = useState<string | null>(null)
   // track which post rows have expanded categories/tags
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set())
   const [expandedTags, setExpandedTags] = useState<Set<string>>(new Set())
+  // optional excerpt column (remembered across visits)
+  const [showExcerpt, setShowExcerpt] = useState(() => localStorage.getItem(SHOW_EXCERPT_STORAGE_KEY) === '1')
 
   // Check if user has permission to create posts
   const canCreate = user?.permissions?.includes('blog.create') ?? false
@@ -72,7 +177,66 @@ export function PostsPage() {
     // fetch posts for the selected company
     fetchPosts()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedCompany, isLoadingCompany])
+  }, [selectedCompany, isLoadingCompany, queryString])
+
+  // load filter options when the company changes
+  useEffect(() => {
+    if (!selectedCompany?.id) return
+    const companyId = selectedCompany.id
+
+    blogService.getCategories(companyId).then(setCategories).catch((err) => {
+      console.error('Failed to fetch categories:', err)
+    })
+    blogService.getTags(companyId).then(setTags).catch((err) => {
+      console.error('Failed to fetch tags:', err)
+    })
+    // members may not be visible to every role - the author filter is hidden then
+    companyService.getMembers(companyId).then(setAuthors).catch(() => setAuthors([]))
+  }, [selectedCompany])
+
+  // push the debounced search into the URL
+  useEffect(() => {
+    if (debouncedSearch.trim() !== urlSearch) {
+      updateParams({ search: debouncedSearch.trim() || null })
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedSearch])
+
+  // update list query params; filter changes jump back to the first page
+  const updateParams = (changes: Record<string, string | null>, resetPage = true) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value)
+        } else {
+          next.delete(key)
+        }
+      })
+      if (resetPage) {
+        next.delete('page')
+      }
+      return next
+    })
+  }
+
+  // build API params from the URL
+  const getListParams = (): PostListParams => {
+    const params: PostListParams = { page, limit: PAGE_SIZE }
+    if (urlSearch) params.search = urlSearch
+    if (filter !== 'all') params.status = filter
+    if (categoryFilter) params.category = categoryFilter
+    if (tagFilter) params.tag = tagFilter
+    if (termFilter) params.term = termFilter
+    if (authorFilter) params.author = authorFilter
+    if (dateFrom) params.date_from = dateFrom
+    if (dateTo) params.date_to = dateTo
+    if (sortColumn && sortOrder) {
+      params.sort = sortFields[sortColumn]
+      params.order = sortOrder
+    }
+    return params
+  }
 
   const fetchPosts = async () => {
     if (!selectedCompany) {
@@ -88,19 +252,27 @@ export function PostsPage() {
       return
     }
 
+    const requestId = ++latestRequestRef.current
     setIsLoading(true)
     setError(null)
     try {
-      // Fetch posts for the selected company
-      // Endpoint: GET /companies/:companyId/posts
+      // Fetch a page of posts for the selected company
+      // Endpoint: GET /companies/:companyId/posts?page=&limit=&search=&status=...
       const companyId = selectedCompany.id
-      const postsData = await blogService.list(companyId)
-      setPosts(postsData)
+      const response = await blogService.list(companyId, getListParams())
+      if (requestId !== latestRequestRef.current) return
+      setPosts(response.data || [])
+      setPagination(response.pagination)
+      setStatusCounts(response.counts)
     } catch (err) {
+      if (requestId !== latestRequestRef.current) return
       console.error('Failed to fetch posts:', err)
       setError('Failed to load posts. Please try again.')
     } finally {
-      setIsLoading(false)
+      if (requestId === latestRequestRef.current) {
+        setIsLoading(false)
+        setHasLoaded(true)
+      }
     }
   }
 
@@ -155,6 +327,115 @@ export function PostsPage() {
     }
   }
 
+  // toggle the excerpt column and remember the choice
+  const handleShowExcerptChange = (show: boolean) => {
+    setShowExcerpt(show)
+    localStorage.setItem(SHOW_EXCERPT_STORAGE_KEY, show ? '1' : '0')
+  }
+
+  // bulk selection helpers
+  const isAllOnPageSelected = posts.length > 0 && posts.every((post) => selectedPosts.has(post.id))
+  const selectedCount = selectAllMatching ? pagination?.total || 0 : selectedPosts.size
+
+  const togglePostSelection = (post: BlogPost) => {
+    setSelectAllMatching(false)
+    setSelectedPosts((prev) => {
+      const next = new Map(prev)
+      if (next.has(post.id)) {
+        next.delete(post.id)
+      } else {
+        next.set(post.id, post)
+      }
+      return next
+    })
+  }
+
+  const togglePageSelection = () => {
+    setSelectAllMatching(false)
+    setSelectedPosts((prev) => {
+      const next = new Map(prev)
+      posts.forEach((post) => {
+        if (isAllOnPageSelected) {
+          next.delete(post.id)
+        } else {
+          next.set(post.id, post)
+        }
+      })
+      return next
+    })
+  }
+
+  const clearSelection = () => {
+    setSelectedPosts(new Map())
+    setSelectAllMatching(false)
+  }
+
+  // resolve the selected posts for a bulk action
+  // "select all matching" loads every page of the current filters
+  const loadSelectedPosts = async (): Promise<BlogPost[]> => {
+    if (!selectAllMatching) return Array.from(selectedPosts.values())
+    if (!selectedCompany) return []
+    return listAllPosts(selectedCompany.id, getListParams())
+  }
+
+  // copy a post into a new draft with a unique slug
+  const handleDuplicate = async (post: BlogPost) => {
+    if (!selectedCompany) return
+    const companyId = selectedCompany.id
+
+    setDuplicatingPostId(post.id)
+    try {
+      const source = await getFullPost(companyId, post.id)
+      const slug = await findAvailableSlug(`${source.slug || source.title}-copy`, async (candidate) => {
+        const { available } = await blogService.checkSlug(companyId, candidate)
+        return available
+      })
+      const copy = await blogService.create(companyId, {
+        title: `${source.title} (Copy)`,
+        slug,
+        content: source.content,
+        status: 'draft',
+        excerpt: source.excerpt || null,
+        featured_image_url: source.featured_image_url || null,
+        categoryIds: (source.categories || []).map((category) => category.id),
+        tagIds: (source.tags || []).map((tag) => tag.id),
+        termIds: (source.terms || []).map((term) => term.id),
+        allow_comments: source.allow_comments,
+        breaking: source.breaking,
+        meta_title: source.meta_title || null,
+        meta_description: source.meta_description || null,
+        robots_noindex: source.robots_noindex,
+        custom_fields: source.custom_fields || undefined,
+      })
+      toast.success('Post duplicated', `"${copy.title}" was created as a draft.`)
+      fetchPosts() // refresh the posts list
+    } catch (err) {
+      console.error('Failed to duplicate post:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to duplicate post. Please try again.'
+      toast.error('Duplicate failed', errorMessage)
+    } finally {
+      setDuplicatingPostId(null)
+    }
+  }
+
+  // submit a post for review
+  const handleSubmitForReview = async (post: BlogPost) => {
+    if (!selectedCompany) return
+
+    setSubmittingPostId(post.id)
+    try {
+      await blogService.submitForReview(selectedCompany.id, post.id)
+      toast.success('Submitted for review', `"${post.title}" is waiting for review.`)
+      fetchPosts() // refresh the posts list
+    } catch (err) {
+      console.error('Failed to submit post for review:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to submit post for review. Please try again.'
+      toast.error('Submit failed', errorMessage)
+    } finally {
+      setSubmittingPostId(null)
+    }
+  }
+
   // toggle categories expansion for a specific post
   const toggleCategoriesExpansion = (postId: string) => {
     setExpandedCategories((prev) => {
@@ -195,19 +476,8 @@ export function PostsPage() {
     return Math.min(6, tags.length)
   }
 
-  // format date for display: 15/01/2025 at 16:24h
-  const formatPublishedDate = (dateString: string) => {
-    const date = new Date(dateString)
-    const day = String(date.getDate()).padStart(2, '0')
-    const month = String(date.getMonth() + 1).padStart(2, '0')
-    const year = date.getFullYear()
-    const hours = String(date.getHours()).padStart(2, '0')
-    const minutes = String(date.getMinutes()).padStart(2, '0')
-    return `${day}/${month}/${year} at ${hours}:${minutes}h`
-  }
-
   // get status badge
-  const getStatusBadge = (status: string | undefined, publishedAt?: string) => {
+  const getStatusBadge = (status: PostStatus | undefined, publishedAt?: string) => {
     if (!status) {
       return (
         <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium w-fit bg-gray-100 text-gray-800">
@@ -216,74 +486,52 @@ export function PostsPage() {
       )
     }
     const isPublished = status.toLowerCase() === 'published'
+    const isScheduled = status.toLowerCase() === 'scheduled'
+    const badgeColors: Record<PostStatus, string> = {
+      draft: 'bg-gray-100 text-gray-800',
+      in_review: 'bg-yellow-100 text-yellow-800',
+      changes_requested: 'bg-orange-100 text-orange-800',
+      scheduled: 'bg-blue-100 text-blue-800',
+      published: 'bg-green-100 text-green-800',
+    }
     return (
       <div className="flex flex-col gap-1">
         <span
           className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium w-fit ${
-            isPublished
-              ? 'bg-green-100 text-green-800'
-              : 'bg-gray-100 text-gray-800'
+            badgeColors[status] || 'bg-gray-100 text-gray-800'
           }`}
         >
-          {status}
+          {statusLabels[status] || status}
         </span>
-        {isPublished && publishedAt && (
+        {(isPublished || isScheduled) && publishedAt && (
           <span className="text-xs text-gray-500">
-            {formatPublishedDate(publishedAt)}
+            {formatDateTime(publishedAt)}
           </span>
         )}
+        {isScheduled && publishedAt && <PublishCountdown publishAt={publishedAt} />}
       </div>
     )
   }
 
-  // filter posts by status
-  const filteredPosts = useMemo(() => {
-    if (filter === 'all') return posts
-    return posts.filter((post) => post.status.toLowerCase() === filter)
-  }, [posts, filter])
-
-  // sort posts
-  const sortedPosts = useMemo(() => {
-    if (!sortColumn || !sortOrder) return filteredPosts
-
-    const sorted = [...filteredPosts].sort((a, b) => {
-      if (sortColumn === 'title') {
-        const comparison = a.title.localeCompare(b.title)
-        return sortOrder === 'asc' ? comparison : -comparison
-      } else if (sortColumn === 'date') {
-        // sort by published_at if available, otherwise by created_at
-        const dateA = a.published_at ? new Date(a.published_at).getTime() : new Date(a.created_at).getTime()
-        const dateB = b.published_at ? new Date(b.published_at).getTime() : new Date(b.created_at).getTime()
-        return sortOrder === 'asc' ? dateA - dateB : dateB - dateA
-      }
-      return 0
-    })
-
-    return sorted
-  }, [filteredPosts, sortColumn, sortOrder])
-
-  // calculate filter counts
-  const filterCounts = useMemo(() => {
-    const all = posts.length
-    const published = posts.filter((p) => p.status?.toLowerCase() === 'published').length
-    const draft = posts.filter((p) => p.status?.toLowerCase() === 'draft').length
-    return { all, published, draft }
-  }, [posts])
+  // count shown next to a status tab (only when the API returned counts)
+  const getFilterCount = (tab: FilterType): number | undefined => {
+    if (statusCounts?.[tab] !== undefined) return statusCounts[tab]
+    // the total of the current list is the count of the active tab
+    return tab === filter ? pagination?.total : undefined
+  }
 
   // handle column sort click
   const handleSortClick = (column: SortableColumn) => {
     if (sortColumn === column) {
       // toggle sort order: asc -> desc -> null
       if (sortOrder === 'asc') {
-        setSortOrder('desc')
+        updateParams({ order: 'desc' })
       } else if (sortOrder === 'desc') {
-        setSortOrder(null)
-        setSortColumn(null)
+        updateParams({ sort: null, order: null })
       }
     } else {
       // set new column and start with asc
-      setSortColumn(column)
-      setSortOrder('asc')
+      updateParams({ sort: column, order: 'asc' })
     }
   }
 
@@ -301,7 +549,8 @@ export function PostsPage() {
     return <ArrowUpDown className="w-4 h-4 text-gray-400" />
   }
 
-  if (isLoadingCompany || isLoading) {
+  // full-page loader only for the first load - later loads keep the filters mounted
+  if (isLoadingCompany || (isLoading && !hasLoaded)) {
     return (
       <div className="p-8">
         <div className="max-w-7xl mx-auto">
@@ -355,49 +604,171 @@ export function PostsPage() {
         <div className="flex items-center justify-between mb-6">
           <h1 className="text-3xl font-bold text-gray-900">Posts</h1>
           {canCreate && (
-            <Button onClick={() => setIsCreateModalOpen(true)}>
-              <Plus className="w-4 h-4 mr-2" />
-              Add Post
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => navigate(paths.posts.create)}>
+                <Maximize2 className="w-4 h-4 mr-2" />
+                Full Editor
+              </Button>
+              <Button onClick={() => setIsCreateModalOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Post
+              </Button>
+            </div>
           )}
         </div>
 
         {/* Filters */}
-        <div className="mb-6 flex items-center gap-4">
-          <button
-            onClick={() => setFilter('all')}
-            className={`text-sm font-medium transition-colors ${
-              filter === 'all'
-                ? 'text-gray-900 font-bold'
-                : 'text-blue-600 hover:text-blue-700'
-            }`}
-          >
-            All ({filterCounts.all})
-          </button>
-          <span className="text-gray-300">|</span>
-          <button
-            onClick={() => setFilter('published')}
-            className={`text-sm font-medium transition-colors ${
-              filter === 'published'
-                ? 'text-gray-900 font-bold'
-                : 'text-blue-600 hover:text-blue-700'
-            }`}
+        <div className="mb-4 flex items-center gap-4">
+          {filterTabs.map((tab, index) => {
+            const count = getFilterCount(tab.value)
+            return (
+              <div key={tab.value} className="flex items-center gap-4">
+                {index > 0 && <span className="text-gray-300">|</span>}
+                <button
+                  onClick={() => updateParams({ status: tab.value === 'all' ? null : tab.value })}
+                  className={`text-sm font-medium transition-colors ${
+                    filter === tab.value
+                      ? 'text-gray-900 font-bold'
+                      : 'text-blue-600 hover:text-blue-700'
+                  }`}
+                >
+                  {tab.label}
+                  {count !== undefined && ` (${count})`}
+                </button>
+              </div>
+            )
+          })}
+          <label className="ml-auto flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showExcerpt}
+              onChange={(e) => handleShowExcerptChange(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Show excerpts
+          </label>
+        </div>
+
+        {/* Search and filters */}
+        <div className="mb-6 flex flex-wrap items-center gap-2">
+          <div className="relative w-64">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              type="text"
+              placeholder="Search posts..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <select
+            value={categoryFilter}
+            onChange={(e) => updateParams({ category: e.target.value || null })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
-            Published ({filterCounts.published})
-          </button>
-          <span className="text-gray-300">|</span>
-          <button
-            onClick={() => setFilter('draft')}
-            className={`text-sm font-medium transition-colors ${
-              filter === 'draft'
-                ? 'text-gray-900 font-bold'
-                : 'text-blue-600 hover:text-blue-700'
-            }`}
+            <option value="">All Categories</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={tagFilter}
+            onChange={(e) => updateParams({ tag: e.target.value || null })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
-            Draft ({filterCounts.draft})
-          </button>
+            <option value="">All Tags</option>
+            {tags.map((tag) => (
+              <option key={tag.id} value={tag.id}>
+                {tag.name}
+              </option>
+            ))}
+          </select>
+          {authors.length > 0 && (
+            <select
+              value={authorFilter}
+              onChange={(e) => updateParams({ author: e.target.value || null })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Authors</option>
+              {authors.map((author) => (
+                <option key={author.id} value={author.id}>
+                  {author.name || author.email}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="flex items-center gap-1 text-sm text-gray-600">
+            <input
+              type="date"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => updateParams({ from: e.target.value || null })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="From date"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => updateParams({ to: e.target.value || null })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="To date"
+            />
+          </div>
+          {hasActiveFilters && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setSearchInput('')
+                updateParams(Object.fromEntries(filterParamKeys.map((key) => [key, null])))
+              }}
+            >
+              Clear filters
+            </Button>
+          )}
         </div>
 
+        {/* Bulk selection bar */}
+        {canEdit && selectedCount > 0 && (
+          <div className="mb-4 flex flex-wrap items-center gap-3 px-4 py-3 bg-blue-50 border border-blue-200 rounded-md">
+            <span className="text-sm text-blue-900">
+              {selectAllMatching
+                ? `All ${selectedCount} posts matching this view are selected.`
+                : `${selectedCount} ${selectedCount === 1 ? 'post' : 'posts'} selected.`}
+            </span>
+            {!selectAllMatching && isAllOnPageSelected && pagination && pagination.total > posts.length && (
+              <button
+                onClick={() => setSelectAllMatching(true)}
+                className="text-sm font-medium text-blue-600 hover:text-blue-700"
+              >
+                Select all {pagination.total} matching posts
+              </button>
+            )}
+            <button onClick={clearSelection} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+              Clear selection
+            </button>
+            <select
+              value=""
+              onChange={(e) => setBulkAction((e.target.value as BulkPostAction) || null)}
+              className="ml-auto px-3 py-1.5 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Bulk actions...</option>
+              {bulkPostActions
+                .filter((item) => item.value !== 'delete' || canDelete)
+                .map((item) => (
+                  <option key={item.value} value={item.value}>
+                    {item.label}
+                  </option>
+                ))}
+            </select>
+          </div>
+        )}
+
         {/* Posts Table */}
         <Card>
           <CardContent className="p-0">
@@ -405,6 +776,18 @@ export function PostsPage() {
               <table className="w-full">
                 <thead className="bg-gray-50 border-b border-gray-200">
                   <tr>
+                    {canEdit && (
+                      <th className="pl-6 py-3 w-4">
+                        <input
+                          type="checkbox"
+                          checked={isAllOnPageSelected}
+                          onChange={togglePageSelection}
+                          disabled={posts.length === 0}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          aria-label="Select all posts on this page"
+                        />
+                      </th>
+                    )}
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       <button
                         onClick={() => handleSortClick('title')}
@@ -414,6 +797,11 @@ export function PostsPage() {
                         {getSortIcon('title')}
                       </button>
                     </th>
+                    {showExcerpt && (
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Excerpt
+                      </th>
+                    )}
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Author
                     </th>
@@ -426,6 +814,9 @@ export function PostsPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Views
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Comments
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       <button
                         onClick={() => handleSortClick('date')}
@@ -442,15 +833,15 @@ export function PostsPage() {
                     )}
                   </tr>
                 </thead>
-                <tbody className="bg-white divide-y divide-gray-200">
-                  {sortedPosts.length === 0 ? (
+                <tbody className={`bg-white divide-y divide-gray-200 ${isLoading ? 'opacity-50' : ''}`}>
+                  {posts.length === 0 ? (
                     <tr>
-                      <td colSpan={canEdit ? 7 : 6} className="px-6 py-8 text-center text-gray-500">
+                      <td colSpan={7 + (canEdit ? 2 : 0) + (showExcerpt ? 1 : 0)} className="px-6 py-8 text-center text-gray-500">
                         No posts found.
                       </td>
                     </tr>
                   ) : (
-                    sortedPosts.map((post) => {
+                    posts.map((post) => {
                       const isCategoriesExpanded = expandedCategories.has(post.id)
                       const isTagsExpanded = expandedTags.has(post.id)
                       // safely handle null/undefined categories and tags
@@ -462,12 +853,45 @@ export function PostsPage() {
                       const showTagsMore = tags.length > initialTagCount
 
                       return (
-                        <tr key={post.id} className="hover:bg-gray-50">
+                        <tr
+                          key={post.id}
+                          className={selectAllMatching || selectedPosts.has(post.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}
+                        >
+                          {/* Selection */}
+                          {canEdit && (
+                            <td className="pl-6 py-4 w-4">
+                              <input
+                                type="checkbox"
+                                checked={selectAllMatching || selectedPosts.has(post.id)}
+                                onChange={() => togglePostSelection(post)}
+                                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                aria-label={`Select "${post.title}"`}
+                              />
+                            </td>
+                          )}
                           {/* Title */}
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900">{post.title}</div>
+                            <Link
+                              to={paths.posts.view.build(post.id)}
+                              className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                            >
+                              {post.title}
+                            </Link>
                           </td>
 
+                          {/* Excerpt */}
+                          {showExcerpt && (
+                            <td className="px-6 py-4">
+                              {post.excerpt ? (
+                                <p className="text-sm text-gray-600 max-w-xs" title={post.excerpt}>
+                                  {truncateAtWord(post.excerpt, 120)}
+                                </p>
+                              ) : (
+                                <span className="text-sm text-gray-400">-</span>
+                              )}
+                            </td>
+                          )}
+
                           {/* Author */}
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="flex items-center gap-2">
@@ -532,6 +956,21 @@ export function PostsPage() {
                             <span className="text-sm text-gray-900">{post.views || 0}</span>
                           </td>
 
+                          {/* Comments */}
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {post.comment_count ? (
+                              <Link
+                                to={`${paths.comments.list}?post=${post.id}`}
+                                className="text-sm text-blue-600 hover:text-blue-800 hover:underline"
+                                title="Show comments on this post"
+                              >
+                                {post.comment_count}
+                              </Link>
+                            ) : (
+                              <span className="text-sm text-gray-400">0</span>
+                            )}
+                          </td>
+
                           {/* Status */}
                           <td className="px-6 py-4 whitespace-nowrap">
                             {getStatusBadge(post.status, post.published_at || undefined)}
@@ -548,6 +987,49 @@ export function PostsPage() {
                                 >
                                   <Edit className="w-5 h-5" />
                                 </button>
+                                <Link
+                                  to={paths.posts.edit.build(post.id)}
+                                  className="text-gray-600 hover:text-gray-900"
+                                  title="Open in full editor"
+                                >
+                                  <Maximize2 className="w-5 h-5" />
+                                </Link>
+                                <button
+                                  onClick={() => setRevisionsPost(post)}
+                                  className="text-gray-600 hover:text-gray-900"
+                                  title="Revision history"
+                                >
+                                  <History className="w-5 h-5" />
+                                </button>
+                                {canCreate && (
+                                  <button
+                                    onClick={() => handleDuplicate(post)}
+                                    disabled={duplicatingPostId === post.id}
+                                    className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                                    title="Duplicate post"
+                                  >
+                                    <Copy className="w-5 h-5" />
+                                  </button>
+                                )}
+                                {canSubmitForReview(user, post.status) && (
+                                  <button
+                                    onClick={() => handleSubmitForReview(post)}
+                                    disabled={submittingPostId === post.id}
+                                    className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                                    title="Submit for review"
+                                  >
+                                    <Send className="w-5 h-5" />
+                                  </button>
+                                )}
+                                {canReviewPost(user, post.status) && (
+                                  <button
+                                    onClick={() => setReviewingPost(post)}
+                                    className="text-yellow-600 hover:text-yellow-800"
+                                    title="Review post"
+                                  >
+                                    <ClipboardCheck className="w-5 h-5" />
+                                  </button>
+                                )}
                                 {canDelete && (
                                   <button
                                     onClick={() => handleDeleteClick(post)}
@@ -567,6 +1049,41 @@ export function PostsPage() {
                 </tbody>
               </table>
             </div>
+
+            {/* Pagination */}
+            {pagination && pagination.total > 0 && (
+              <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+                <span className="text-sm text-gray-600">
+                  Showing {(pagination.page - 1) * pagination.limit + 1}-
+                  {Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total} posts
+                </span>
+                {pagination.totalPages > 1 && (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateParams({ page: page > 2 ? String(page - 1) : null }, false)}
+                      disabled={page <= 1 || isLoading}
+                    >
+                      Previous
+                    </Button>
+                    <span className="text-sm text-gray-600">
+                      Page {pagination.page} of {pagination.totalPages}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateParams({ page: String(page + 1) }, false)}
+                      disabled={page >= pagination.totalPages || isLoading}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -590,6 +1107,52 @@ export function PostsPage() {
           post={editingPost || null}
         />
 
+        {/* Revision History Modal */}
+        {canEdit && revisionsPost && (
+          <PostRevisionsModal
+            open={!!revisionsPost}
+            onOpenChange={(open) => {
+              if (!open) setRevisionsPost(null)
+            }}
+            companyId={selectedCompany.id}
+            post={revisionsPost}
+            onRestored={() => fetchPosts()}
+          />
+        )}
+
+        {/* Review Decision Modal */}
+        {reviewingPost && (
+          <ReviewDecisionModal
+            open={!!reviewingPost}
+            onOpenChange={(open) => {
+              if (!open) setReviewingPost(null)
+            }}
+            companyId={selectedCompany.id}
+            post={reviewingPost}
+            onReviewed={() => fetchPosts()}
+          />
+        )}
+
+        {/* Bulk Action Modal */}
+        {canEdit && bulkAction && (
+          <BulkPostActionModal
+            open={!!bulkAction}
+            onOpenChange={(open) => {
+              if (!open) setBulkAction(null)
+            }}
+            companyId={selectedCompany.id}
+            action={bulkAction}
+            count={selectedCount}
+            loadPosts={loadSelectedPosts}
+            categories={categories}
+            tags={tags}
+            onComplete={() => {
+              clearSelection()
+              fetchPosts() // refresh the posts list
+            }}
+          />
+        )}
+
         {/* Delete Confirmation Modal */}
         {canDelete && postToDelete && (
           <DeleteConfirmationModal
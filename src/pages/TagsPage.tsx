@@ -2,6 +2,7 @@
 // Left side: Form for creating tags (35%)
 // Right side: Table displaying tags (65%)
 import { useState, useEffect, useMemo } from 'react'
+import { Link } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -12,15 +13,22 @@ import { Input } from '@/components/ui/input'
 import { Loader } from '@/components/ui/loader'
 import { EditTagModal } from '@/components/EditTagModal'
 import { DeleteConfirmationModal } from '@/components/DeleteConfirmationModal'
+import { MergeTermsModal } from '@/components/MergeTermsModal'
+import { TaxonomyTransferActions } from '@/components/TaxonomyTransferActions'
 import { useAuth } from '@/contexts/AuthContext'
 import { useCompany } from '@/hooks/useCompany'
+import { useSlugAvailability } from '@/hooks/useSlugAvailability'
+import { SlugStatusHint } from '@/components/SlugStatusHint'
+import { slugify, slugSchema } from '@/lib/slug'
 import { toast } from '@/lib/toast'
-import { Edit, Trash2, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react'
+import { runBulk } from '@/lib/bulk'
+import paths from '@/routes/paths'
+import { Edit, Trash2, ArrowUpDown, ArrowUp, ArrowDown, GitMerge } from 'lucide-react'
 
 // form schema
 const createTagSchema = z.object({
   name: z.string().min(1, 'Name is required'),
-  slug: z.string().optional().or(z.literal('')),
+  slug: slugSchema(),
   description: z.string().optional().or(z.literal('')),
 })
 
@@ -30,7 +38,7 @@ type CreateTagFormData = z.infer<typeof createTagSchema>
 type SortOrder = 'asc' | 'desc' | null
 
 // sortable column type
-type SortableColumn = 'name' | 'description' | 'slug' | null
+type SortableColumn = 'name' | 'description' | 'slug' | 'post_count' | null
 
 export function TagsPage() {
   const { user } = useAuth()
@@ -47,6 +55,13 @@ export function TagsPage() {
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
   const [tagToDelete, setTagToDelete] = useState<Tag | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  // tag a merge was started from
+  const [mergeSource, setMergeSource] = useState<Tag | null>(null)
+  // clean up unused tags
+  const [isCleanupOpen, setIsCleanupOpen] = useState(false)
+  const [isCleaningUp, setIsCleaningUp] = useState(false)
+  // the slug follows the name until it is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(false)
 
   // Check if user has permission to create tags
   const canCreate = user?.permissions?.includes('blog.create') ?? false
@@ -58,6 +73,8 @@ export function TagsPage() {
     handleSubmit,
     formState: { errors },
     reset,
+    watch,
+    setValue,
   } = useForm<CreateTagFormData>({
     resolver: zodResolver(createTagSchema),
     defaultValues: {
@@ -67,6 +84,10 @@ export function TagsPage() {
     },
   })
 
+  const slugStatus = useSlugAvailability(watch('slug'), async (slug) =>
+    selectedCompany ? (await blogService.checkTagSlug(selectedCompany.id, slug)).available : true
+  )
+
   // fetch tags when selected company changes
   useEffect(() => {
     if (selectedCompany && !isLoadingCompany) {
@@ -100,6 +121,10 @@ export function TagsPage() {
 
   const onSubmit = async (data: CreateTagFormData) => {
     if (!selectedCompany) return
+    if (slugStatus === 'taken') {
+      setError('The slug is already used by another tag. Please choose a different slug.')
+      return
+    }
 
     setIsSubmitting(true)
     setError(null)
@@ -121,6 +146,7 @@ export function TagsPage() {
 
       // reset form and refresh list
       reset()
+      setIsSlugEdited(false)
       fetchTags()
     } catch (err: unknown) {
       console.error('Failed to create tag:', err)
@@ -181,6 +207,32 @@ export function TagsPage() {
     }
   }
 
+  // tags without posts (tags with an unknown count are never treated as unused)
+  const unusedTags = useMemo(() => tags.filter((tag) => tag.post_count === 0), [tags])
+
+  // delete every unused tag
+  const handleCleanupConfirm = async () => {
+    if (!selectedCompany) return
+    const companyId = selectedCompany.id
+
+    setIsCleaningUp(true)
+    try {
+      const result = await runBulk(unusedTags, (tag) => blogService.deleteTag(companyId, tag.id))
+      if (result.failed.length === 0) {
+        toast.success('Tags cleaned up', `${result.succeeded.length} unused ${result.succeeded.length === 1 ? 'tag was' : 'tags were'} deleted.`)
+      } else {
+        toast.error(
+          'Clean up incomplete',
+          `${result.succeeded.length} deleted, ${result.failed.length} failed: ${result.failed.map(({ item }) => item.name).join(', ')}`
+        )
+      }
+      setIsCleanupOpen(false)
+      fetchTags() // refresh the tags list
+    } finally {
+      setIsCleaningUp(false)
+    }
+  }
+
   // sort tags
   const sortedTags = useMemo(() => {
     if (!sortColumn || !sortOrder) return tags
@@ -197,6 +249,9 @@ export function TagsPage() {
       } else if (sortColumn === 'slug') {
         const comparison = a.slug.localeCompare(b.slug)
         return sortOrder === 'asc' ? comparison : -comparison
+      } else if (sortColumn === 'post_count') {
+        const comparison = (a.post_count || 0) - (b.post_count || 0)
+        return sortOrder === 'asc' ? comparison : -comparison
       }
       return 0
     })
@@ -291,7 +346,13 @@ export function TagsPage() {
                       id="name"
                       type="text"
                       placeholder="Tag name"
-                      {...register('name')}
+                      {...register('name', {
+                        onChange: (e) => {
+                          if (!isSlugEdited) {
+                            setValue('slug', slugify(e.target.value), { shouldValidate: true })
+                          }
+                        },
+                      })}
                       className={errors.name ? 'border-red-500' : ''}
                     />
                     {errors.name && (
@@ -308,11 +369,16 @@ export function TagsPage() {
                       id="slug"
                       type="text"
                       placeholder="tag-slug"
-                      {...register('slug')}
-                      className={errors.slug ? 'border-red-500' : ''}
+                      {...register('slug', {
+                        // clearing the slug links it to the name again
+                        onChange: (e) => setIsSlugEdited(!!e.target.value),
+                      })}
+                      className={errors.slug || slugStatus === 'taken' ? 'border-red-500' : ''}
                     />
-                    {errors.slug && (
+                    {errors.slug ? (
                       <p className="text-sm text-red-500">{errors.slug.message}</p>
+                    ) : (
+                      <SlugStatusHint status={slugStatus} emptyText="Generated from the name" />
                     )}
                   </div>
 
@@ -355,6 +421,34 @@ export function TagsPage() {
         <div className={canCreate ? 'flex-1' : 'w-full'}>
           <Card>
             <CardContent className="p-0">
+              {/* Table toolbar */}
+              <div className="flex items-center justify-between px-6 py-3 border-b border-gray-200">
+                <p className="text-sm text-gray-500">
+                  {tags.length} {tags.length === 1 ? 'tag' : 'tags'}
+                  {unusedTags.length > 0 && `, ${unusedTags.length} unused`}
+                </p>
+                <div className="flex items-center gap-2">
+                  <TaxonomyTransferActions
+                    company={selectedCompany}
+                    type="tag"
+                    terms={tags}
+                    canImport={canCreate && canUpdate}
+                    onImported={fetchTags}
+                  />
+                  {canUpdate && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setIsCleanupOpen(true)}
+                      disabled={unusedTags.length === 0}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Clean up unused tags
+                    </Button>
+                  )}
+                </div>
+              </div>
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead className="bg-gray-50 border-b border-gray-200">
@@ -386,6 +480,15 @@ export function TagsPage() {
                           {getSortIcon('slug')}
                         </button>
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <button
+                          onClick={() => handleSortClick('post_count')}
+                          className="flex items-center gap-2 hover:text-gray-700"
+                        >
+                          Posts
+                          {getSortIcon('post_count')}
+                        </button>
+                      </th>
                       {canUpdate && (
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Actions
@@ -397,7 +500,7 @@ export function TagsPage() {
                     {sortedTags.length === 0 ? (
                       <tr>
                         <td
-                          colSpan={canUpdate ? 4 : 3}
+                          colSpan={canUpdate ? 5 : 4}
                           className="px-6 py-8 text-center text-gray-500"
                         >
                           No tags found.
@@ -421,6 +524,21 @@ export function TagsPage() {
                             <div className="text-sm text-gray-900">{tag.slug}</div>
                           </td>
 
+                          {/* Post Count */}
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {tag.post_count ? (
+                              <Link
+                                to={`${paths.posts.list}?tag=${tag.id}`}
+                                className="text-sm text-blue-600 hover:text-blue-800 hover:underline"
+                                title="Show posts with this tag"
+                              >
+                                {tag.post_count}
+                              </Link>
+                            ) : (
+                              <span className="text-sm text-gray-400">0</span>
+                            )}
+                          </td>
+
                           {/* Actions */}
                           {canUpdate && (
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
@@ -432,6 +550,15 @@ export function TagsPage() {
                                 >
                                   <Edit className="w-5 h-5" />
                                 </button>
+                                {tags.length > 1 && (
+                                  <button
+                                    onClick={() => setMergeSource(tag)}
+                                    className="text-gray-600 hover:text-gray-900"
+                                    title="Merge into another tag"
+                                  >
+                                    <GitMerge className="w-5 h-5" />
+                                  </button>
+                                )}
                                 <button
                                   onClick={() => handleDeleteClick(tag)}
                                   className="text-red-600 hover:text-red-900"
@@ -464,6 +591,38 @@ export function TagsPage() {
         />
       )}
 
+      {/* Merge Modal */}
+      {canUpdate && mergeSource && (
+        <MergeTermsModal
+          open={!!mergeSource}
+          onOpenChange={(open) => {
+            if (!open) setMergeSource(null)
+          }}
+          companyId={selectedCompany.id}
+          type="tag"
+          terms={tags}
+          initialSourceId={mergeSource.id}
+          onComplete={fetchTags}
+        />
+      )}
+
+      {/* Clean Up Unused Tags Modal */}
+      {canUpdate && isCleanupOpen && (
+        <DeleteConfirmationModal
+          open={isCleanupOpen}
+          onOpenChange={(open) => {
+            if (!open && !isCleaningUp) setIsCleanupOpen(false)
+          }}
+          itemName={`${unusedTags.length} unused ${unusedTags.length === 1 ? 'tag' : 'tags'}`}
+          itemType="tags"
+          description={`Delete ${unusedTags.length} ${unusedTags.length === 1 ? 'tag that is' : 'tags that are'} not used by any post: ${unusedTags
+            .map((tag) => tag.name)
+            .join(', ')}. This action cannot be undone.`}
+          onConfirm={handleCleanupConfirm}
+          isDeleting={isCleaningUp}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {canUpdate && tagToDelete && (
         <DeleteConfirmationModal
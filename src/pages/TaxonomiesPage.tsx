@@ -0,0 +1,451 @@
+// TaxonomiesPage - defines the custom taxonomies of a company (e.g. "Region", "Series")
+// Left side: Form for creating taxonomies (35%)
+// Right side: Table of taxonomies (65%) - each links to its term management page
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import blogService, { type Taxonomy, type CreateTaxonomyPayload } from '@/services/blog/blogService'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader } from '@/components/ui/loader'
+import { EditTaxonomyModal } from '@/components/EditTaxonomyModal'
+import { DeleteConfirmationModal } from '@/components/DeleteConfirmationModal'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCompany } from '@/hooks/useCompany'
+import { useSlugAvailability } from '@/hooks/useSlugAvailability'
+import { SlugStatusHint } from '@/components/SlugStatusHint'
+import { SLUG_FORMAT_MESSAGE, SLUG_PATTERN, slugify } from '@/lib/slug'
+import { toast } from '@/lib/toast'
+import paths from '@/routes/paths'
+import { Edit, Trash2, List } from 'lucide-react'
+
+// slugs of the built-in taxonomies - their admin pages already exist
+const RESERVED_SLUGS = ['categories', 'category', 'tags', 'tag']
+
+// form schema
+const createTaxonomySchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  slug: z
+    .string()
+    .regex(SLUG_PATTERN, SLUG_FORMAT_MESSAGE)
+    .refine((slug) => !RESERVED_SLUGS.includes(slug), 'This slug is reserved for a built-in taxonomy')
+    .optional()
+    .or(z.literal('')),
+  description: z.string().optional().or(z.literal('')),
+  hierarchical: z.boolean(),
+})
+
+type CreateTaxonomyFormData = z.infer<typeof createTaxonomySchema>
+
+export function TaxonomiesPage() {
+  const { user } = useAuth()
+  const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
+  const [taxonomies, setTaxonomies] = useState<Taxonomy[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editingTaxonomy, setEditingTaxonomy] = useState<Taxonomy | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // delete confirmation modal state
+  const [taxonomyToDelete, setTaxonomyToDelete] = useState<Taxonomy | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  // the slug follows the name until it is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(false)
+
+  // Check if user has permission to create taxonomies
+  const canCreate = user?.permissions?.includes('blog.create') ?? false
+  // Check if user has permission to update taxonomies
+  const canUpdate = user?.permissions?.includes('blog.update') ?? false
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+    setValue,
+  } = useForm<CreateTaxonomyFormData>({
+    resolver: zodResolver(createTaxonomySchema),
+    defaultValues: {
+      name: '',
+      slug: '',
+      description: '',
+      hierarchical: false,
+    },
+  })
+
+  const slugStatus = useSlugAvailability(watch('slug'), async (slug) =>
+    selectedCompany ? (await blogService.checkTaxonomySlug(selectedCompany.id, slug)).available : true
+  )
+
+  // fetch taxonomies when selected company changes
+  useEffect(() => {
+    if (selectedCompany && !isLoadingCompany) {
+      fetchTaxonomies()
+    } else if (!isLoadingCompany && !selectedCompany) {
+      setError('No company selected. Please select a company first.')
+      setIsLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCompany, isLoadingCompany])
+
+  const fetchTaxonomies = async () => {
+    if (!selectedCompany) {
+      setError('No company selected.')
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const taxonomiesData = await blogService.getTaxonomies(selectedCompany.id)
+      setTaxonomies([...taxonomiesData].sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (err) {
+      console.error('Failed to fetch taxonomies:', err)
+      setError('Failed to load taxonomies. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const onSubmit = async (data: CreateTaxonomyFormData) => {
+    if (!selectedCompany) return
+    if (slugStatus === 'taken') {
+      setError('The slug is already used by another taxonomy. Please choose a different slug.')
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const payload: CreateTaxonomyPayload = {
+        name: data.name.trim(),
+        hierarchical: data.hierarchical,
+      }
+
+      // only include optional fields if they have values
+      if (data.slug && data.slug.trim()) {
+        payload.slug = data.slug.trim()
+      }
+      if (data.description && data.description.trim()) {
+        payload.description = data.description.trim()
+      }
+
+      const taxonomy = await blogService.createTaxonomy(selectedCompany.id, payload)
+      toast.success('Taxonomy created', `"${taxonomy.name}" can now be used on posts.`)
+
+      // reset form and refresh list
+      reset()
+      setIsSlugEdited(false)
+      fetchTaxonomies()
+    } catch (err: unknown) {
+      console.error('Failed to create taxonomy:', err)
+      if (err instanceof Error) {
+        setError(err.message)
+      } else {
+        setError('Failed to create taxonomy. Please try again.')
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // handle confirmed deletion
+  const handleDeleteConfirm = async () => {
+    if (!selectedCompany || !taxonomyToDelete) return
+
+    setIsDeleting(true)
+    try {
+      await blogService.deleteTaxonomy(selectedCompany.id, taxonomyToDelete.id)
+      toast.success('Taxonomy deleted', `"${taxonomyToDelete.name}" has been deleted successfully.`)
+      fetchTaxonomies() // refresh the taxonomies list
+      setTaxonomyToDelete(null)
+    } catch (err) {
+      console.error('Failed to delete taxonomy:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete taxonomy. Please try again.'
+      toast.error('Delete failed', errorMessage)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  if (isLoadingCompany || isLoading) {
+    return (
+      <div className="p-8">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <Loader className="mx-auto mb-4" />
+            <p className="text-gray-600">Loading taxonomies...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error && !selectedCompany) {
+    return (
+      <div className="p-8">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-red-600">{error}</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!selectedCompany) {
+    return (
+      <div className="p-8">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-gray-600">No company selected. Please select a company first.</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-8">
+      <div className="flex gap-6">
+        {/* Left side: Create Form (30%) */}
+        {canCreate && (
+          <div className="w-[30%]">
+            <Card>
+              <CardContent className="p-6">
+                <h2 className="text-xl font-bold text-gray-900 mb-4">Create Taxonomy</h2>
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                  {/* Name */}
+                  <div className="space-y-2">
+                    <label htmlFor="name" className="text-sm font-medium text-gray-700">
+                      Name <span className="text-red-500">*</span>
+                    </label>
+                    <Input
+                      id="name"
+                      type="text"
+                      placeholder="e.g. Region"
+                      {...register('name', {
+                        onChange: (e) => {
+                          if (!isSlugEdited) {
+                            setValue('slug', slugify(e.target.value), { shouldValidate: true })
+                          }
+                        },
+                      })}
+                      className={errors.name ? 'border-red-500' : ''}
+                    />
+                    {errors.name && (
+                      <p className="text-sm text-red-500">{errors.name.message}</p>
+                    )}
+                  </div>
+
+                  {/* Slug */}
+                  <div className="space-y-2">
+                    <label htmlFor="slug" className="text-sm font-medium text-gray-700">
+                      Slug
+                    </label>
+                    <Input
+                      id="slug"
+                      type="text"
+                      placeholder="region"
+                      {...register('slug', {
+                        // clearing the slug links it to the name again
+                        onChange: (e) => setIsSlugEdited(!!e.target.value),
+                      })}
+                      className={errors.slug || slugStatus === 'taken' ? 'border-red-500' : ''}
+                    />
+                    {errors.slug ? (
+                      <p className="text-sm text-red-500">{errors.slug.message}</p>
+                    ) : (
+                      <SlugStatusHint status={slugStatus} emptyText="Generated from the name, cannot be changed later" />
+                    )}
+                  </div>
+
+                  {/* Structure */}
+                  <div className="space-y-2">
+                    <label className="flex items-start gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        {...register('hierarchical')}
+                        className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-gray-700">Hierarchical</span>
+                        <span className="block text-xs text-gray-500">
+                          Terms can be nested like categories. Leave unchecked for a flat list like tags.
+                        </span>
+                      </span>
+                    </label>
+                  </div>
+
+                  {/* Description */}
+                  <div className="space-y-2">
+                    <label htmlFor="description" className="text-sm font-medium text-gray-700">
+                      Description (Optional)
+                    </label>
+                    <textarea
+                      id="description"
+                      rows={3}
+                      placeholder="What the taxonomy is used for..."
+                      {...register('description')}
+                      className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        errors.description ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                    />
+                    {errors.description && (
+                      <p className="text-sm text-red-500">{errors.description.message}</p>
+                    )}
+                  </div>
+
+                  {/* Error Message */}
+                  {error && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                      <p className="text-sm text-red-800">{error}</p>
+                    </div>
+                  )}
+
+                  <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? 'Adding...' : 'Add Taxonomy'}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Right side: Table (70%) */}
+        <div className={canCreate ? 'flex-1' : 'w-full'}>
+          <Card>
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Name
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Slug
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Structure
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {taxonomies.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
+                          No custom taxonomies yet. Categories and tags are always available.
+                        </td>
+                      </tr>
+                    ) : (
+                      taxonomies.map((taxonomy) => (
+                        <tr key={taxonomy.id} className="hover:bg-gray-50">
+                          {/* Name */}
+                          <td className="px-6 py-4">
+                            <Link
+                              to={paths.taxonomies.terms.build(taxonomy.slug)}
+                              className="text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                            >
+                              {taxonomy.name}
+                            </Link>
+                            {taxonomy.description && (
+                              <p className="text-sm text-gray-500">{taxonomy.description}</p>
+                            )}
+                          </td>
+
+                          {/* Slug */}
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">{taxonomy.slug}</div>
+                          </td>
+
+                          {/* Structure */}
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span
+                              className={`px-2 py-1 text-xs font-medium rounded-full ${
+                                taxonomy.hierarchical ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-700'
+                              }`}
+                            >
+                              {taxonomy.hierarchical ? 'Hierarchical' : 'Flat'}
+                            </span>
+                          </td>
+
+                          {/* Actions */}
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <div className="flex items-center gap-3">
+                              <Link
+                                to={paths.taxonomies.terms.build(taxonomy.slug)}
+                                className="text-gray-600 hover:text-gray-900"
+                                title="Manage terms"
+                              >
+                                <List className="w-5 h-5" />
+                              </Link>
+                              {canUpdate && (
+                                <>
+                                  <button
+                                    onClick={() => setEditingTaxonomy(taxonomy)}
+                                    className="text-blue-600 hover:text-blue-900"
+                                    title="Edit taxonomy"
+                                  >
+                                    <Edit className="w-5 h-5" />
+                                  </button>
+                                  <button
+                                    onClick={() => setTaxonomyToDelete(taxonomy)}
+                                    className="text-red-600 hover:text-red-900"
+                                    title="Delete taxonomy"
+                                  >
+                                    <Trash2 className="w-5 h-5" />
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Edit Taxonomy Modal */}
+      {canUpdate && editingTaxonomy && (
+        <EditTaxonomyModal
+          open={!!editingTaxonomy}
+          onOpenChange={(open) => {
+            if (!open) setEditingTaxonomy(null)
+          }}
+          onSuccess={fetchTaxonomies}
+          companyId={selectedCompany.id}
+          taxonomy={editingTaxonomy}
+        />
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {canUpdate && taxonomyToDelete && (
+        <DeleteConfirmationModal
+          open={!!taxonomyToDelete}
+          onOpenChange={(open) => {
+            if (!open && !isDeleting) setTaxonomyToDelete(null)
+          }}
+          itemName={taxonomyToDelete.name}
+          itemType="taxonomy"
+          description={`All terms of "${taxonomyToDelete.name}" are deleted and removed from their posts. This action cannot be undone.`}
+          onConfirm={handleDeleteConfirm}
+          isDeleting={isDeleting}
+        />
+      )}
+    </div>
+  )
+}
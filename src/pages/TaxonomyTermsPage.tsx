@@ -0,0 +1,543 @@
+// TaxonomyTermsPage - manages the terms of one custom taxonomy (generic version of the category and tag pages)
+// Left side: Form for creating terms (35%)
+// Right side: Terms (65%) - a tree for hierarchical taxonomies, a flat list otherwise
+import { useState, useEffect, useMemo } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import blogService, {
+  type Taxonomy,
+  type TaxonomyTerm,
+  type CreateTaxonomyTermPayload,
+} from '@/services/blog/blogService'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader } from '@/components/ui/loader'
+import { EditTaxonomyTermModal } from '@/components/EditTaxonomyTermModal'
+import { DeleteConfirmationModal } from '@/components/DeleteConfirmationModal'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCompany } from '@/hooks/useCompany'
+import { useSlugAvailability } from '@/hooks/useSlugAvailability'
+import { SlugStatusHint } from '@/components/SlugStatusHint'
+import { SLUG_FORMAT_MESSAGE, SLUG_PATTERN, slugify } from '@/lib/slug'
+import { toast } from '@/lib/toast'
+import { buildTree, flattenTree } from '@/lib/tree'
+import paths from '@/routes/paths'
+import { ArrowLeft, ChevronDown, ChevronRight, Edit, Trash2 } from 'lucide-react'
+
+// form schema
+const createTermSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  slug: z.string().regex(SLUG_PATTERN, SLUG_FORMAT_MESSAGE).optional().or(z.literal('')),
+  parent_id: z.string().optional().or(z.literal('')),
+  description: z.string().optional().or(z.literal('')),
+})
+
+type CreateTermFormData = z.infer<typeof createTermSchema>
+
+const byName = (a: TaxonomyTerm, b: TaxonomyTerm) => a.name.localeCompare(b.name)
+
+export function TaxonomyTermsPage() {
+  const { slug: taxonomySlug } = useParams<{ slug: string }>()
+  const { user } = useAuth()
+  const { selectedCompany, isLoading: isLoadingCompany } = useCompany()
+  const [taxonomy, setTaxonomy] = useState<Taxonomy | null>(null)
+  const [terms, setTerms] = useState<TaxonomyTerm[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set())
+  const [editingTerm, setEditingTerm] = useState<TaxonomyTerm | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // delete confirmation modal state
+  const [termToDelete, setTermToDelete] = useState<TaxonomyTerm | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  // the slug follows the name until it is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(false)
+
+  // Check if user has permission to create terms
+  const canCreate = user?.permissions?.includes('blog.create') ?? false
+  // Check if user has permission to update terms
+  const canUpdate = user?.permissions?.includes('blog.update') ?? false
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+    setValue,
+  } = useForm<CreateTermFormData>({
+    resolver: zodResolver(createTermSchema),
+    defaultValues: {
+      name: '',
+      slug: '',
+      parent_id: '',
+      description: '',
+    },
+  })
+
+  const slugStatus = useSlugAvailability(watch('slug'), async (slug) =>
+    selectedCompany && taxonomy
+      ? (await blogService.checkTaxonomyTermSlug(selectedCompany.id, taxonomy.id, slug)).available
+      : true
+  )
+
+  // fetch the taxonomy and its terms when the company or the taxonomy changes
+  useEffect(() => {
+    if (selectedCompany && !isLoadingCompany) {
+      fetchTerms()
+    } else if (!isLoadingCompany && !selectedCompany) {
+      setError('No company selected. Please select a company first.')
+      setIsLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCompany, isLoadingCompany, taxonomySlug])
+
+  const fetchTerms = async () => {
+    if (!selectedCompany) {
+      setError('No company selected.')
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const taxonomies = await blogService.getTaxonomies(selectedCompany.id)
+      const current = taxonomies.find((item) => item.slug === taxonomySlug) || null
+      setTaxonomy(current)
+      setTerms(current ? await blogService.getTaxonomyTerms(selectedCompany.id, current.id) : [])
+    } catch (err) {
+      console.error('Failed to fetch taxonomy terms:', err)
+      setError('Failed to load terms. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const onSubmit = async (data: CreateTermFormData) => {
+    if (!selectedCompany || !taxonomy) return
+    if (slugStatus === 'taken') {
+      setError(`The slug is already used in ${taxonomy.name}. Please choose a different slug.`)
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const payload: CreateTaxonomyTermPayload = {
+        name: data.name.trim(),
+      }
+
+      // only include optional fields if they have values
+      if (data.slug && data.slug.trim()) {
+        payload.slug = data.slug.trim()
+      }
+      if (taxonomy.hierarchical) {
+        payload.parent_id = data.parent_id?.trim() || null
+      }
+      if (data.description && data.description.trim()) {
+        payload.description = data.description.trim()
+      }
+
+      await blogService.createTaxonomyTerm(selectedCompany.id, taxonomy.id, payload)
+
+      // reset form and refresh list
+      reset()
+      setIsSlugEdited(false)
+      fetchTerms()
+    } catch (err: unknown) {
+      console.error('Failed to create term:', err)
+      if (err instanceof Error) {
+        setError(err.message)
+      } else {
+        setError('Failed to create term. Please try again.')
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // handle confirmed deletion - children of a deleted term move up a level
+  const handleDeleteConfirm = async () => {
+    if (!selectedCompany || !taxonomy || !termToDelete) return
+    const companyId = selectedCompany.id
+
+    setIsDeleting(true)
+    try {
+      if (taxonomy.hierarchical) {
+        const children = terms.filter((term) => term.parent_id === termToDelete.id)
+        for (const child of children) {
+          await blogService.updateTaxonomyTerm(companyId, taxonomy.id, child.id, {
+            parent_id: termToDelete.parent_id || null,
+          })
+        }
+      }
+      await blogService.deleteTaxonomyTerm(companyId, taxonomy.id, termToDelete.id)
+      toast.success('Term deleted', `"${termToDelete.name}" has been deleted successfully.`)
+      setTermToDelete(null)
+    } catch (err) {
+      console.error('Failed to delete term:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete term. Please try again.'
+      toast.error('Delete failed', errorMessage)
+    } finally {
+      setIsDeleting(false)
+      fetchTerms() // refresh the list (also after partial failures)
+    }
+  }
+
+  // flat taxonomies ignore parent links, so every term is a root
+  const tree = useMemo(
+    () => buildTree(taxonomy?.hierarchical ? terms : terms.map((term) => ({ ...term, parent_id: null })), byName),
+    [terms, taxonomy]
+  )
+  const rows = useMemo(() => flattenTree(tree, collapsedIds), [tree, collapsedIds])
+  // all terms in tree order, for the parent dropdown
+  const parentOptions = useMemo(() => flattenTree(tree), [tree])
+
+  const toggleCollapsed = (termId: string) => {
+    setCollapsedIds((current) => {
+      const next = new Set(current)
+      if (next.has(termId)) {
+        next.delete(termId)
+      } else {
+        next.add(termId)
+      }
+      return next
+    })
+  }
+
+  const termToDeleteChildren = termToDelete ? terms.filter((term) => term.parent_id === termToDelete.id).length : 0
+
+  if (isLoadingCompany || isLoading) {
+    return (
+      <div className="p-8">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <Loader className="mx-auto mb-4" />
+            <p className="text-gray-600">Loading terms...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error && (!selectedCompany || !taxonomy)) {
+    return (
+      <div className="p-8">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-red-600">{error}</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!selectedCompany) {
+    return (
+      <div className="p-8">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-gray-600">No company selected. Please select a company first.</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!taxonomy) {
+    return (
+      <div className="p-8">
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <p className="text-gray-600">Taxonomy "{taxonomySlug}" was not found in {selectedCompany.name}.</p>
+            <Link to={paths.taxonomies.list} className="text-sm text-blue-600 hover:underline">
+              Back to taxonomies
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const columnCount = canUpdate ? 5 : 4
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="mb-6">
+        <Link
+          to={paths.taxonomies.list}
+          className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900 mb-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Taxonomies
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">{taxonomy.name}</h1>
+        {taxonomy.description && <p className="text-gray-600">{taxonomy.description}</p>}
+      </div>
+
+      <div className="flex gap-6">
+        {/* Left side: Create Form (30%) */}
+        {canCreate && (
+          <div className="w-[30%]">
+            <Card>
+              <CardContent className="p-6">
+                <h2 className="text-xl font-bold text-gray-900 mb-4">Add Term</h2>
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                  {/* Name */}
+                  <div className="space-y-2">
+                    <label htmlFor="name" className="text-sm font-medium text-gray-700">
+                      Name <span className="text-red-500">*</span>
+                    </label>
+                    <Input
+                      id="name"
+                      type="text"
+                      placeholder="Term name"
+                      {...register('name', {
+                        onChange: (e) => {
+                          if (!isSlugEdited) {
+                            setValue('slug', slugify(e.target.value), { shouldValidate: true })
+                          }
+                        },
+                      })}
+                      className={errors.name ? 'border-red-500' : ''}
+                    />
+                    {errors.name && (
+                      <p className="text-sm text-red-500">{errors.name.message}</p>
+                    )}
+                  </div>
+
+                  {/* Slug */}
+                  <div className="space-y-2">
+                    <label htmlFor="slug" className="text-sm font-medium text-gray-700">
+                      Slug
+                    </label>
+                    <Input
+                      id="slug"
+                      type="text"
+                      placeholder="term-slug"
+                      {...register('slug', {
+                        // clearing the slug links it to the name again
+                        onChange: (e) => setIsSlugEdited(!!e.target.value),
+                      })}
+                      className={errors.slug || slugStatus === 'taken' ? 'border-red-500' : ''}
+                    />
+                    {errors.slug ? (
+                      <p className="text-sm text-red-500">{errors.slug.message}</p>
+                    ) : (
+                      <SlugStatusHint status={slugStatus} emptyText="Generated from the name" />
+                    )}
+                  </div>
+
+                  {/* Parent */}
+                  {taxonomy.hierarchical && (
+                    <div className="space-y-2">
+                      <label htmlFor="parent_id" className="text-sm font-medium text-gray-700">
+                        Parent (Optional)
+                      </label>
+                      <select
+                        id="parent_id"
+                        {...register('parent_id')}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">None</option>
+                        {parentOptions.map(({ item, depth }) => (
+                          <option key={item.id} value={item.id}>
+                            {`${'— '.repeat(depth)}${item.name}`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {/* Description */}
+                  <div className="space-y-2">
+                    <label htmlFor="description" className="text-sm font-medium text-gray-700">
+                      Description (Optional)
+                    </label>
+                    <textarea
+                      id="description"
+                      rows={4}
+                      placeholder="Term description..."
+                      {...register('description')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  {/* Error Message */}
+                  {error && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                      <p className="text-sm text-red-800">{error}</p>
+                    </div>
+                  )}
+
+                  <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? 'Adding...' : 'Add Term'}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Right side: Terms (70%) */}
+        <div className={canCreate ? 'flex-1' : 'w-full'}>
+          <Card>
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Name
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Description
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Slug
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Posts
+                      </th>
+                      {canUpdate && (
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {rows.length === 0 ? (
+                      <tr>
+                        <td colSpan={columnCount} className="px-6 py-8 text-center text-gray-500">
+                          No terms found.
+                        </td>
+                      </tr>
+                    ) : (
+                      rows.map(({ item: term, depth, hasChildren }) => (
+                        <tr key={term.id} className="hover:bg-gray-50">
+                          {/* Name */}
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center gap-1" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                              {taxonomy.hierarchical &&
+                                (hasChildren ? (
+                                  <button
+                                    type="button"
+                                    onClick={() => toggleCollapsed(term.id)}
+                                    className="text-gray-500 hover:text-gray-900"
+                                    title={collapsedIds.has(term.id) ? 'Expand' : 'Collapse'}
+                                  >
+                                    {collapsedIds.has(term.id) ? (
+                                      <ChevronRight className="w-4 h-4" />
+                                    ) : (
+                                      <ChevronDown className="w-4 h-4" />
+                                    )}
+                                  </button>
+                                ) : (
+                                  <span className="w-4 shrink-0" />
+                                ))}
+                              <span className="text-sm font-medium text-gray-900">{term.name}</span>
+                            </div>
+                          </td>
+
+                          {/* Description */}
+                          <td className="px-6 py-4">
+                            <div className="text-sm text-gray-900">{term.description || '-'}</div>
+                          </td>
+
+                          {/* Slug */}
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">{term.slug}</div>
+                          </td>
+
+                          {/* Post Count */}
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {term.post_count ? (
+                              <Link
+                                to={`${paths.posts.list}?term=${term.id}`}
+                                className="text-sm text-blue-600 hover:text-blue-800 hover:underline"
+                                title={`Show posts with this ${taxonomy.name} term`}
+                              >
+                                {term.post_count}
+                              </Link>
+                            ) : (
+                              <span className="text-sm text-gray-400">0</span>
+                            )}
+                          </td>
+
+                          {/* Actions */}
+                          {canUpdate && (
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                              <div className="flex items-center gap-3">
+                                <button
+                                  onClick={() => setEditingTerm(term)}
+                                  className="text-blue-600 hover:text-blue-900"
+                                  title="Edit term"
+                                >
+                                  <Edit className="w-5 h-5" />
+                                </button>
+                                <button
+                                  onClick={() => setTermToDelete(term)}
+                                  className="text-red-600 hover:text-red-900"
+                                  title="Delete term"
+                                >
+                                  <Trash2 className="w-5 h-5" />
+                                </button>
+                              </div>
+                            </td>
+                          )}
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Edit Term Modal */}
+      {canUpdate && editingTerm && (
+        <EditTaxonomyTermModal
+          open={!!editingTerm}
+          onOpenChange={(open) => {
+            if (!open) setEditingTerm(null)
+          }}
+          onSuccess={fetchTerms}
+          companyId={selectedCompany.id}
+          taxonomy={taxonomy}
+          term={editingTerm}
+          terms={terms}
+        />
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {canUpdate && termToDelete && (
+        <DeleteConfirmationModal
+          open={!!termToDelete}
+          onOpenChange={(open) => {
+            if (!open && !isDeleting) setTermToDelete(null)
+          }}
+          itemName={termToDelete.name}
+          itemType="term"
+          description={
+            termToDeleteChildren > 0
+              ? `Are you sure you want to delete "${termToDelete.name}"? Its ${termToDeleteChildren} child ${
+                  termToDeleteChildren === 1 ? 'term moves' : 'terms move'
+                } up a level. This action cannot be undone.`
+              : undefined
+          }
+          onConfirm={handleDeleteConfirm}
+          isDeleting={isDeleting}
+        />
+      )}
+    </div>
+  )
+}
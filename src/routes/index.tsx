@@ -9,10 +9,22 @@ import { ProfilePage } from '@/pages/ProfilePage'
 import { CompaniesPage } from '@/pages/CompaniesPage'
 import { CompanyOverviewPage } from '@/pages/CompanyOverviewPage'
 import { CompanyMembersPage } from '@/pages/CompanyMembersPage'
+import { CompanyMenusPage } from '@/pages/CompanyMenusPage'
+import { AuditLogPage } from '@/pages/AuditLogPage'
 import { UsersPage } from '@/pages/UsersPage'
 import { PostsPage } from '@/pages/PostsPage'
+import { PostEditorPage } from '@/pages/PostEditorPage'
+import { PostViewPage } from '@/pages/PostViewPage'
+import { PostPreviewPage } from '@/pages/PostPreviewPage'
 import { CategoriesPage } from '@/pages/CategoriesPage'
 import { TagsPage } from '@/pages/TagsPage'
+import { TaxonomiesPage } from '@/pages/TaxonomiesPage'
+import { TaxonomyTermsPage } from '@/pages/TaxonomyTermsPage'
+import { CustomFieldsPage } from '@/pages/CustomFieldsPage'
+import { CommentsPage } from '@/pages/CommentsPage'
+import { ContentListPage } from '@/pages/ContentListPage'
+import { ContentEditorPage } from '@/pages/ContentEditorPage'
+import { contentTypes, getContentPermission } from '@/lib/contentTypes'
 
 // login route - no authentication required
 const loginRoute = {
@@ -28,6 +40,20 @@ const loginRoute = {
   ],
 }
 
+// shared post preview - public, works with or without a session
+const previewRoute = {
+  layout: AuthLayout,
+  children: [
+    {
+      path: paths.preview.path,
+      element: PostPreviewPage,
+      authenticated: null, // no auth check - access is granted by the preview token
+      permissions: null,
+      features: null,
+    },
+  ],
+}
+
 // dashboard route - requires authentication
 const dashboardRoute = {
   layout: DashboardLayout,
@@ -60,6 +86,27 @@ const postsRoutes = {
       permissions: ['blog.view'], // requires blog.view permission
       features: null,
     },
+    {
+      path: paths.posts.create,
+      element: PostEditorPage, // full-page editor (create mode)
+      authenticated: true,
+      permissions: ['blog.create'], // requires blog.create permission
+      features: null,
+    },
+    {
+      path: paths.posts.edit.path,
+      element: PostEditorPage, // full-page editor (edit mode)
+      authenticated: true,
+      permissions: ['blog.update'], // requires blog.update permission
+      features: null,
+    },
+    {
+      path: paths.posts.view.path,
+      element: PostViewPage,
+      authenticated: true,
+      permissions: ['blog.view'], // requires blog.view permission
+      features: null,
+    },
   ],
 }
 
@@ -117,6 +164,20 @@ const companiesRoutes = {
       permissions: ['company.view'], // requires company.view permission
       features: null,
     },
+    {
+      path: paths.companies.menus,
+      element: CompanyMenusPage, // navigation menus of the company site
+      authenticated: true,
+      permissions: ['company.view'], // requires company.view permission
+      features: null,
+    },
+    {
+      path: paths.companies.auditLog,
+      element: AuditLogPage, // who created, changed or deleted what
+      authenticated: true,
+      permissions: ['company.update'], // requires company.update permission - the log exposes every change
+      features: null,
+    },
     {
       path: paths.companies.list,
       element: CompaniesPage, // Shows all companies for owner, filtered for master
@@ -155,6 +216,83 @@ const tagsRoutes = {
   ],
 }
 
+// custom taxonomy routes - requires authentication and blog.view permission
+const taxonomiesRoutes = {
+  layout: DashboardLayout,
+  children: [
+    {
+      path: paths.taxonomies.list,
+      element: TaxonomiesPage,
+      authenticated: true,
+      permissions: ['blog.view'], // requires blog.view permission
+      features: null,
+    },
+    {
+      path: paths.taxonomies.terms.path,
+      element: TaxonomyTermsPage,
+      authenticated: true,
+      permissions: ['blog.view'], // requires blog.view permission
+      features: null,
+    },
+  ],
+}
+
+// custom fields routes - requires authentication and blog.view permission
+const customFieldsRoutes = {
+  layout: DashboardLayout,
+  children: [
+    {
+      path: paths.customFields.list,
+      element: CustomFieldsPage,
+      authenticated: true,
+      permissions: ['blog.view'], // requires blog.view permission
+      features: null,
+    },
+  ],
+}
+
+// comment moderation routes - requires authentication and blog.view permission
+const commentsRoutes = {
+  layout: DashboardLayout,
+  children: [
+    {
+      path: paths.comments.list,
+      element: CommentsPage,
+      authenticated: true,
+      permissions: ['blog.view'], // requires blog.view permission
+      features: null,
+    },
+  ],
+}
+
+// content type routes - one route set per registered type (pages, events, ...), guarded by the type's permissions
+const contentTypeRoutes = contentTypes.map((type) => ({
+  layout: DashboardLayout,
+  children: [
+    {
+      path: paths.content.list.build(type.key),
+      element: () => <ContentListPage type={type} />,
+      authenticated: true,
+      permissions: [getContentPermission(type, 'view')], // e.g. page.view
+      features: null,
+    },
+    {
+      path: paths.content.create.build(type.key),
+      element: () => <ContentEditorPage type={type} />, // full-page editor (create mode)
+      authenticated: true,
+      permissions: [getContentPermission(type, 'create')], // e.g. page.create
+      features: null,
+    },
+    {
+      path: paths.content.edit.build(type.key, ':id'),
+      element: () => <ContentEditorPage type={type} />, // full-page editor (edit mode)
+      authenticated: true,
+      permissions: [getContentPermission(type, 'update')], // e.g. page.update
+      features: null,
+    },
+  ],
+}))
+
 // 404 route
 const notFoundRoute = {
   layout: AuthLayout,
@@ -175,9 +313,14 @@ const routes = [
   postsRoutes,
   categoriesRoutes,
   tagsRoutes,
+  taxonomiesRoutes,
+  customFieldsRoutes,
+  commentsRoutes,
+  ...contentTypeRoutes,
   usersRoutes,
   companiesRoutes,
   settingsRoutes,
+  previewRoute,
   loginRoute,
   notFoundRoute,
 ]
@@ -24,6 +24,12 @@ const posts = {
   },
 }
 
+// public preview links for unpublished posts
+const preview = {
+  path: '/preview/:token',
+  build: (token: string) => `/preview/${token}`,
+}
+
 const users = {
   index: '/users',
   list: '/users/list',
@@ -49,6 +55,8 @@ const companies = {
   list: '/companies',
   overview: '/companies/overview',
   members: '/companies/members',
+  menus: '/companies/menus',
+  auditLog: '/companies/audit-log',
 }
 
 const categories = {
@@ -61,15 +69,57 @@ const tags = {
   list: '/tags',
 }
 
+// custom taxonomies - definitions and the terms of one taxonomy
+const taxonomies = {
+  index: '/taxonomies',
+  list: '/taxonomies',
+  terms: {
+    path: '/taxonomies/:slug',
+    build: (slug: string) => `/taxonomies/${slug}`,
+  },
+}
+
+// custom post fields - per-company field definitions
+const customFields = {
+  index: '/custom-fields',
+  list: '/custom-fields',
+}
+
+const comments = {
+  index: '/comments',
+  list: '/comments',
+}
+
+// entries of the other content types (see lib/contentTypes) - the type key is part of the path
+const content = {
+  list: {
+    path: '/content/:type',
+    build: (type: string) => `/content/${type}`,
+  },
+  create: {
+    path: '/content/:type/create',
+    build: (type: string) => `/content/${type}/create`,
+  },
+  edit: {
+    path: '/content/:type/:id/edit',
+    build: (type: string, id: string) => `/content/${type}/${id}/edit`,
+  },
+}
+
 const paths = {
   login,
   dashboard,
   posts,
+  preview,
   users,
   settings,
   companies,
   categories,
   tags,
+  taxonomies,
+  customFields,
+  comments,
+  content,
 }
 
 export default paths
@@ -0,0 +1,74 @@
+// Analytics service - handles API calls for the per-company dashboard figures
+// Views are aggregated by the backend from daily snapshots of BlogPost.views
+import { callGet } from '../http'
+import urls from '../http/url'
+import type { PostStatus } from '../blog/blogService'
+
+// inclusive date range (YYYY-MM-DD)
+export interface AnalyticsRange {
+  from: string
+  to: string
+}
+
+// size of the buckets of the views series
+export type AnalyticsInterval = 'day' | 'week' | 'month'
+
+// KPIs of a company for a date range
+export interface AnalyticsSummary {
+  posts: {
+    total: number
+    by_status: Partial<Record<PostStatus, number>> // current counts (not limited to the range)
+    published_in_range: number
+  }
+  views: {
+    total: number // views within the range
+    previous_total: number // views within the same number of days before the range
+  }
+  members: {
+    total: number
+    joined_in_range: number
+  }
+  media: {
+    count: number
+    total_bytes: number
+    limit_bytes?: number | null // storage quota of the company (null: unlimited)
+  }
+}
+
+// views of one bucket (date is the first day of the day, week or month)
+export interface ViewsPoint {
+  date: string
+  views: number
+}
+
+// post with its views within the range
+export interface TopPost {
+  id: string
+  title: string
+  slug: string
+  views: number
+  published_at?: string | null
+}
+
+// query string for a date range plus extra params
+function rangeQuery(range: AnalyticsRange, extra: Record<string, string> = {}) {
+  return new URLSearchParams({ from: range.from, to: range.to, ...extra }).toString()
+}
+
+const analyticsService = {
+  // get the KPIs of a company
+  getSummary: (companyId: string, range: AnalyticsRange) =>
+    callGet(`${urls.analytics.summary(companyId)}?${rangeQuery(range)}`) as Promise<AnalyticsSummary>,
+
+  // get the views over time, one point per interval (buckets without views are included with 0)
+  getViews: (companyId: string, range: AnalyticsRange, interval: AnalyticsInterval) =>
+    callGet(`${urls.analytics.views(companyId)}?${rangeQuery(range, { interval })}`) as Promise<ViewsPoint[]>,
+
+  // get the most viewed posts within the range
+  getTopPosts: (companyId: string, range: AnalyticsRange, limit = 5) =>
+    callGet(`${urls.analytics.topPosts(companyId)}?${rangeQuery(range, { limit: limit.toString() })}`) as Promise<
+      TopPost[]
+    >,
+}
+
+export default analyticsService
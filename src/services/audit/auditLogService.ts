@@ -0,0 +1,86 @@
+// Audit log service - handles API calls for the record of who created, changed or deleted what
+// Entries are written by the backend on every create/update/delete, the frontend only reads them
+import { callGet } from '../http'
+import urls from '../http/url'
+
+export type AuditAction = 'create' | 'update' | 'delete'
+
+// kinds of records the audit log covers
+export type AuditEntityType =
+  | 'post'
+  | 'category'
+  | 'tag'
+  | 'taxonomy'
+  | 'taxonomy_term'
+  | 'media'
+  | 'company'
+  | 'member'
+  | 'user'
+
+// user who made the change
+export interface AuditActor {
+  id: string
+  name: string
+  email?: string | null
+}
+
+// audit log entry interface - matches API response structure
+export interface AuditLogEntry {
+  id: string
+  company_id: string
+  action: AuditAction
+  entity_type: AuditEntityType
+  entity_id: string
+  entity_label?: string | null // title or name of the record at the time of the change
+  actor?: AuditActor | null // null for system changes (e.g. scheduled publishing)
+  // snapshots of the record - before is null for create, after is null for delete
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+  created_at: string
+}
+
+// query params for the audit log
+export interface AuditLogParams {
+  page?: number // default: 1
+  limit?: number // default: 20
+  action?: AuditAction
+  entity_type?: AuditEntityType
+  entity_id?: string // history of a single record
+  actor?: string // user id
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+}
+
+// audit log response - same shape as the post list response
+export interface AuditLogResponse {
+  data: AuditLogEntry[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+const auditLogService = {
+  // get a page of audit log entries of a company
+  list: (companyId: string, params?: AuditLogParams) => {
+    // build query string from params
+    const queryParams = new URLSearchParams()
+    if (params?.page) queryParams.append('page', params.page.toString())
+    if (params?.limit) queryParams.append('limit', params.limit.toString())
+    if (params?.action) queryParams.append('action', params.action)
+    if (params?.entity_type) queryParams.append('entity_type', params.entity_type)
+    if (params?.entity_id) queryParams.append('entity_id', params.entity_id)
+    if (params?.actor) queryParams.append('actor', params.actor)
+    if (params?.from) queryParams.append('from', params.from)
+    if (params?.to) queryParams.append('to', params.to)
+
+    const queryString = queryParams.toString()
+    const url = queryString ? `${urls.auditLog.list(companyId)}?${queryString}` : urls.auditLog.list(companyId)
+
+    return callGet(url) as Promise<AuditLogResponse>
+  },
+}
+
+export default auditLogService
@@ -10,20 +10,86 @@ export interface Category {
   slug: string
   description?: string | null
   parent_id?: string | null
+  position?: number | null // order among siblings
+  post_count?: number // number of posts using the category
   created_at: string
   updated_at: string
 }
 
+// new place of a category in the tree (see lib/tree)
+export interface CategoryOrderUpdate {
+  id: string
+  parent_id: string | null
+  position: number
+}
+
 // tag interface - matches API response structure
 export interface Tag {
   id: string
   name: string
   slug: string
   description?: string | null
+  post_count?: number // number of posts using the tag
+  created_at: string
+  updated_at: string
+}
+
+// custom taxonomy defined by a company (e.g. "Region", "Series") - categories and tags are built in
+export interface Taxonomy {
+  id: string
+  name: string
+  slug: string // used in admin URLs, fixed after creation
+  description?: string | null
+  hierarchical: boolean // true: terms can have parents (like categories); false: flat list (like tags)
+  created_at: string
+  updated_at: string
+}
+
+// term of a custom taxonomy
+export interface TaxonomyTerm {
+  id: string
+  taxonomy_id: string
+  name: string
+  slug: string // unique within its taxonomy
+  description?: string | null
+  parent_id?: string | null // hierarchical taxonomies only
+  position?: number | null // order among siblings
+  post_count?: number // number of posts using the term
   created_at: string
   updated_at: string
 }
 
+// create taxonomy payload
+export interface CreateTaxonomyPayload {
+  name: string
+  slug?: string
+  description?: string
+  hierarchical: boolean
+}
+
+// update taxonomy payload
+export interface UpdateTaxonomyPayload {
+  name?: string
+  description?: string
+  hierarchical?: boolean // switching to flat keeps parent links but no longer shows them
+}
+
+// create taxonomy term payload
+export interface CreateTaxonomyTermPayload {
+  name: string
+  slug?: string
+  parent_id?: string | null
+  description?: string
+}
+
+// update taxonomy term payload
+export interface UpdateTaxonomyTermPayload {
+  name?: string
+  slug?: string
+  parent_id?: string | null
+  description?: string
+}
+
 // create category payload
 export interface CreateCategoryPayload {
   name: string
@@ -54,6 +120,13 @@ export interface UpdateTagPayload {
   description?: string
 }
 
+// post status - 'scheduled' posts are published by the backend once published_at is reached
+// 'in_review' and 'changes_requested' are editorial workflow states (see lib/workflow)
+export type PostStatus = 'draft' | 'in_review' | 'changes_requested' | 'scheduled' | 'published'
+
+// value of a custom post field (see lib/customFields) - relation fields store the related post id
+export type CustomFieldValue = string | number | boolean | null
+
 // blog post interface - matches API response structure
 export interface BlogPost {
   id: string
@@ -64,8 +137,8 @@ export interface BlogPost {
   slug: string
   content: string
   excerpt?: string | null
-  status: 'draft' | 'published'
-  published_at?: string | null // date when post was published
+  status: PostStatus
+  published_at?: string | null // date when post was published (or will be, for scheduled posts)
   allow_comments: boolean
   allow_pings: boolean
   comment_count: number
@@ -73,11 +146,35 @@ export interface BlogPost {
   featured_image_url?: string | null
   meta_title?: string | null
   meta_description?: string | null
+  canonical_url?: string | null // canonical URL override (defaults to the post URL)
+  robots_noindex?: boolean // ask search engines not to index the post
   breaking: boolean // flag for breaking news
+  review_comment?: string | null // latest reviewer comment (set when approving or requesting changes)
+  reviewed_by_name?: string | null // reviewer who left the latest comment
   created_at: string
   updated_at: string
   categories: Category[] // array of categories (can be empty)
   tags: Tag[] // array of tags (can be empty)
+  terms?: TaxonomyTerm[] // terms of custom taxonomies, all taxonomies in one list (can be empty)
+  custom_fields?: Record<string, CustomFieldValue> | null // values of the company's custom fields by key
+}
+
+// post revision interface - snapshot of a post saved by the backend on every update
+export interface PostRevision {
+  id: string
+  post_id: string
+  author_id: string // user who made the change that produced this revision
+  author_name: string
+  title: string
+  slug: string
+  content: string
+  excerpt?: string | null
+  status: BlogPost['status']
+  meta_title?: string | null
+  meta_description?: string | null
+  categories: Category[]
+  tags: Tag[]
+  created_at: string // when the revision was saved
 }
 
 // create blog post payload
@@ -85,12 +182,20 @@ export interface CreateBlogPostPayload {
   title: string
   content: string
   slug?: string // optional slug (if not provided, backend may auto-generate from title)
-  status?: 'draft' | 'published'
+  excerpt?: string | null // short summary for listings and feeds
+  status?: PostStatus
+  published_at?: string | null // ISO publish date (required when status is 'scheduled')
   allow_comments?: boolean // whether comments are allowed (default: true)
   breaking?: boolean // flag for breaking news (default: false)
   categoryIds?: string[] // array of category IDs
   tagIds?: string[] // array of tag IDs
+  termIds?: string[] // custom taxonomy term IDs (all taxonomies)
   featured_image_url?: string | null // URL of featured image (snake_case for backend)
+  meta_title?: string | null // SEO title (falls back to title when empty)
+  meta_description?: string | null // SEO description
+  canonical_url?: string | null // canonical URL override
+  robots_noindex?: boolean // hide the post from search engines
+  custom_fields?: Record<string, CustomFieldValue> // custom field values by key
 }
 
 // update blog post payload
@@ -98,17 +203,135 @@ export interface UpdateBlogPostPayload {
   title?: string
   content?: string
   slug?: string // optional slug
-  status?: 'draft' | 'published'
+  excerpt?: string | null // short summary (null to clear)
+  status?: PostStatus
+  published_at?: string | null // ISO publish date (required when status is 'scheduled', null to clear)
   allow_comments?: boolean // whether comments are allowed
   breaking?: boolean // flag for breaking news
   categoryIds?: string[]
   tagIds?: string[]
+  termIds?: string[]
   featured_image_url?: string | null // URL of featured image (snake_case for backend)
+  meta_title?: string | null // SEO title (falls back to title when empty)
+  meta_description?: string | null // SEO description
+  canonical_url?: string | null // canonical URL override
+  robots_noindex?: boolean // hide the post from search engines
+  custom_fields?: Record<string, CustomFieldValue> // custom field values by key
+}
+
+// post list query params - all filters are optional and combined with AND
+export interface PostListParams {
+  page?: number // default: 1
+  limit?: number // default: 20
+  search?: string // search in title, excerpt and content
+  status?: PostStatus
+  category?: string // category id
+  tag?: string // tag id
+  term?: string // custom taxonomy term id
+  author?: string // author (user) id
+  date_from?: string // YYYY-MM-DD, inclusive (published_at, or created_at for unpublished posts)
+  date_to?: string // YYYY-MM-DD, inclusive
+  sort?: 'title' | 'published_at' | 'created_at' | 'updated_at' | 'views' // default: 'created_at'
+  order?: 'asc' | 'desc' // default: 'desc'
+}
+
+// post list response - same shape as the media list response
+export interface PostListResponse {
+  data: BlogPost[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+  // totals per status for the current filters (ignoring the status filter), used for the status tabs
+  counts?: Partial<Record<PostStatus | 'all', number>>
+}
+
+// time-limited preview link for sharing unpublished posts
+export interface PreviewLink {
+  token: string
+  expires_at: string // ISO date
+}
+
+// create preview link payload
+export interface CreatePreviewLinkPayload {
+  expires_in: number // lifetime in seconds
+}
+
+// post preview resolved from a preview link token (public endpoint)
+export interface SharedPostPreview {
+  post: BlogPost
+  company: {
+    name: string
+    theme?: string
+    logo_url?: string | null
+  }
+  expires_at: string
+}
+
+// result of a slug availability check
+export interface SlugAvailability {
+  available: boolean
+}
+
+// entities that can own a slug redirect
+export type RedirectEntityType = 'post' | 'category' | 'tag'
+
+// old slug that keeps resolving to an entity after its slug changed
+export interface SlugRedirect {
+  id: string
+  entity_type: RedirectEntityType
+  entity_id: string
+  old_slug: string
+  created_at: string
+}
+
+// create slug redirect payload
+export interface CreateSlugRedirectPayload {
+  entity_type: RedirectEntityType
+  entity_id: string
+  old_slug: string
+}
+
+// review decision payload - approve publishes the post (or schedules it if published_at is in the future)
+export interface ReviewPostPayload {
+  decision: 'approve' | 'reject'
+  comment?: string // required when rejecting
+}
+
+// query string for slug availability checks
+const getSlugQuery = (slug: string, excludeId?: string) => {
+  const queryParams = new URLSearchParams({ slug })
+  if (excludeId) queryParams.append('exclude', excludeId)
+  return queryParams.toString()
 }
 
 const blogService = {
-  // get list of all blog posts for a company
-  list: (companyId: string) => callGet(urls.blog.list(companyId)) as Promise<BlogPost[]>,
+  // get a page of blog posts for a company (filtered, searched and sorted on the server)
+  list: (companyId: string, params?: PostListParams) => {
+    // build query string from params
+    const queryParams = new URLSearchParams()
+    if (params?.page) queryParams.append('page', params.page.toString())
+    if (params?.limit) queryParams.append('limit', params.limit.toString())
+    if (params?.search) queryParams.append('search', params.search)
+    if (params?.status) queryParams.append('status', params.status)
+    if (params?.category) queryParams.append('category', params.category)
+    if (params?.tag) queryParams.append('tag', params.tag)
+    if (params?.term) queryParams.append('term', params.term)
+    if (params?.author) queryParams.append('author', params.author)
+    if (params?.date_from) queryParams.append('date_from', params.date_from)
+    if (params?.date_to) queryParams.append('date_to', params.date_to)
+    if (params?.sort) queryParams.append('sort', params.sort)
+    if (params?.order) queryParams.append('order', params.order)
+
+    const queryString = queryParams.toString()
+    const url = queryString
+      ? `${urls.blog.list(companyId)}?${queryString}`
+      : urls.blog.list(companyId)
+
+    return callGet(url) as Promise<PostListResponse>
+  },
 
   // get single blog post by id
   get: (companyId: string, postId: string) => callGet(urls.blog.get(companyId, postId)) as Promise<BlogPost>,
@@ -124,6 +347,37 @@ const blogService = {
   // delete blog post
   delete: (companyId: string, postId: string) => callDelete(urls.blog.delete(companyId, postId)),
 
+  // check whether a post slug is still free in the company (excludeId ignores the post being edited)
+  checkSlug: (companyId: string, slug: string, excludeId?: string) =>
+    callGet(`${urls.blog.slugAvailability(companyId)}?${getSlugQuery(slug, excludeId)}`) as Promise<SlugAvailability>,
+
+  // submit a draft (or a post with requested changes) for review
+  submitForReview: (companyId: string, postId: string) =>
+    (callPost(urls.blog.review.submit(companyId, postId)) as unknown) as Promise<BlogPost>,
+
+  // approve or reject a post that is in review
+  review: (companyId: string, postId: string, payload: ReviewPostPayload) =>
+    (callPost(urls.blog.review.decide(companyId, postId), payload) as unknown) as Promise<BlogPost>,
+
+  // create a time-limited preview link for a post
+  createPreviewLink: (companyId: string, postId: string, payload: CreatePreviewLinkPayload) =>
+    (callPost(urls.blog.preview.createLink(companyId, postId), payload) as unknown) as Promise<PreviewLink>,
+
+  // resolve a preview link token (works without a session)
+  getSharedPreview: (token: string) => callGet(urls.blog.preview.get(token)) as Promise<SharedPostPreview>,
+
+  // get revision history for a post (newest first)
+  listRevisions: (companyId: string, postId: string) =>
+    callGet(urls.blog.revisions.list(companyId, postId)) as Promise<PostRevision[]>,
+
+  // get a single revision with its full snapshot
+  getRevision: (companyId: string, postId: string, revisionId: string) =>
+    callGet(urls.blog.revisions.get(companyId, postId, revisionId)) as Promise<PostRevision>,
+
+  // restore a post to a revision (backend saves the current version as a new revision first)
+  restoreRevision: (companyId: string, postId: string, revisionId: string) =>
+    (callPost(urls.blog.revisions.restore(companyId, postId, revisionId)) as unknown) as Promise<BlogPost>,
+
   // get all categories for a company
   getCategories: (companyId: string) => callGet(urls.blog.categories.list(companyId)) as Promise<Category[]>,
 
@@ -143,6 +397,16 @@ const blogService = {
   deleteCategory: (companyId: string, categoryId: string) =>
     callDelete(urls.blog.categories.delete(companyId, categoryId)),
 
+  // move categories in the tree (parent and sibling order) in one request
+  reorderCategories: (companyId: string, items: CategoryOrderUpdate[]) =>
+    (callPatch(urls.blog.categories.reorder(companyId), { items }) as unknown) as Promise<Category[]>,
+
+  // check whether a category slug is still free in the company
+  checkCategorySlug: (companyId: string, slug: string, excludeId?: string) =>
+    callGet(
+      `${urls.blog.categories.slugAvailability(companyId)}?${getSlugQuery(slug, excludeId)}`
+    ) as Promise<SlugAvailability>,
+
   // get all tags for a company
   getTags: (companyId: string) => callGet(urls.blog.tags.list(companyId)) as Promise<Tag[]>,
 
@@ -161,6 +425,75 @@ const blogService = {
   // delete tag
   deleteTag: (companyId: string, tagId: string) =>
     callDelete(urls.blog.tags.delete(companyId, tagId)),
+
+  // check whether a tag slug is still free in the company
+  checkTagSlug: (companyId: string, slug: string, excludeId?: string) =>
+    callGet(`${urls.blog.tags.slugAvailability(companyId)}?${getSlugQuery(slug, excludeId)}`) as Promise<SlugAvailability>,
+
+  // get the custom taxonomies of a company
+  getTaxonomies: (companyId: string) => callGet(urls.blog.taxonomies.list(companyId)) as Promise<Taxonomy[]>,
+
+  // create custom taxonomy
+  createTaxonomy: (companyId: string, payload: CreateTaxonomyPayload) =>
+    (callPost(urls.blog.taxonomies.create(companyId), payload) as unknown) as Promise<Taxonomy>,
+
+  // update custom taxonomy
+  updateTaxonomy: (companyId: string, taxonomyId: string, payload: UpdateTaxonomyPayload) =>
+    (callPatch(urls.blog.taxonomies.update(companyId, taxonomyId), payload) as unknown) as Promise<Taxonomy>,
+
+  // delete custom taxonomy (the backend removes its terms and their post assignments)
+  deleteTaxonomy: (companyId: string, taxonomyId: string) =>
+    callDelete(urls.blog.taxonomies.delete(companyId, taxonomyId)),
+
+  // check whether a taxonomy slug is still free in the company
+  checkTaxonomySlug: (companyId: string, slug: string) =>
+    callGet(`${urls.blog.taxonomies.slugAvailability(companyId)}?${getSlugQuery(slug)}`) as Promise<SlugAvailability>,
+
+  // get all terms of a custom taxonomy
+  getTaxonomyTerms: (companyId: string, taxonomyId: string) =>
+    callGet(urls.blog.taxonomies.terms.list(companyId, taxonomyId)) as Promise<TaxonomyTerm[]>,
+
+  // create custom taxonomy term
+  createTaxonomyTerm: (companyId: string, taxonomyId: string, payload: CreateTaxonomyTermPayload) =>
+    (callPost(urls.blog.taxonomies.terms.create(companyId, taxonomyId), payload) as unknown) as Promise<TaxonomyTerm>,
+
+  // update custom taxonomy term
+  updateTaxonomyTerm: (companyId: string, taxonomyId: string, termId: string, payload: UpdateTaxonomyTermPayload) =>
+    (callPatch(urls.blog.taxonomies.terms.update(companyId, taxonomyId, termId), payload) as unknown) as Promise<
+      TaxonomyTerm
+    >,
+
+  // delete custom taxonomy term
+  deleteTaxonomyTerm: (companyId: string, taxonomyId: string, termId: string) =>
+    callDelete(urls.blog.taxonomies.terms.delete(companyId, taxonomyId, termId)),
+
+  // check whether a term slug is still free in its taxonomy
+  checkTaxonomyTermSlug: (companyId: string, taxonomyId: string, slug: string, excludeId?: string) =>
+    callGet(
+      `${urls.blog.taxonomies.terms.slugAvailability(companyId, taxonomyId)}?${getSlugQuery(slug, excludeId)}`
+    ) as Promise<SlugAvailability>,
+
+  // get slug redirects, optionally only those of one entity
+  listRedirects: (companyId: string, params?: { entity_type?: RedirectEntityType; entity_id?: string }) => {
+    const queryParams = new URLSearchParams()
+    if (params?.entity_type) queryParams.append('entity_type', params.entity_type)
+    if (params?.entity_id) queryParams.append('entity_id', params.entity_id)
+
+    const queryString = queryParams.toString()
+    const url = queryString
+      ? `${urls.blog.redirects.list(companyId)}?${queryString}`
+      : urls.blog.redirects.list(companyId)
+
+    return callGet(url) as Promise<SlugRedirect[]>
+  },
+
+  // keep an old slug pointing to its entity
+  createRedirect: (companyId: string, payload: CreateSlugRedirectPayload) =>
+    (callPost(urls.blog.redirects.create(companyId), payload) as unknown) as Promise<SlugRedirect>,
+
+  // remove a slug redirect
+  deleteRedirect: (companyId: string, redirectId: string) =>
+    callDelete(urls.blog.redirects.delete(companyId, redirectId)),
 }
 
 export default blogService
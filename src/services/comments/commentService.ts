@@ -0,0 +1,97 @@
+// Comment service - handles API calls for reader comments on posts and their moderation
+import { callDelete, callGet, callPatch, callPost } from '../http'
+import urls from '../http/url'
+
+// moderation state of a comment - only approved comments are shown on the site
+export type CommentStatus = 'pending' | 'approved' | 'spam' | 'trash'
+
+// comment interface - matches API response structure
+export interface Comment {
+  id: string
+  company_id: string
+  post_id: string
+  post_title?: string | null
+  parent_id?: string | null // comment this one replies to
+  parent_author_name?: string | null
+  author_name: string
+  author_email?: string | null
+  author_url?: string | null
+  author_ip?: string | null
+  user_id?: string | null // set for replies written in the back office
+  content: string // plain text as submitted
+  status: CommentStatus
+  created_at: string
+  updated_at: string
+}
+
+// query params for the comment list
+export interface CommentListParams {
+  page?: number // default: 1
+  limit?: number // default: 20
+  status?: CommentStatus // default: pending and approved comments
+  post?: string // post id
+  search?: string // search in content, author name, email and IP
+}
+
+// comment list response - same shape as the post list response
+export interface CommentListResponse {
+  data: Comment[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+  // totals per status for the current post filter and search (ignoring the status filter)
+  counts?: Partial<Record<CommentStatus | 'all', number>>
+}
+
+// update comment payload
+export interface UpdateCommentPayload {
+  status?: CommentStatus
+  content?: string
+}
+
+// moderation rules - new comments containing a blocked word or sent from a blocked IP go to spam
+export interface CommentRules {
+  blocked_words: string[] // matched case-insensitively as whole words
+  blocked_ips: string[] // single addresses or CIDR ranges, e.g. "203.0.113.7" or "198.51.100.0/24"
+}
+
+const commentService = {
+  // get a page of comments
+  list: (companyId: string, params?: CommentListParams) => {
+    // build query string from params
+    const queryParams = new URLSearchParams()
+    if (params?.page) queryParams.append('page', params.page.toString())
+    if (params?.limit) queryParams.append('limit', params.limit.toString())
+    if (params?.status) queryParams.append('status', params.status)
+    if (params?.post) queryParams.append('post', params.post)
+    if (params?.search) queryParams.append('search', params.search)
+
+    const queryString = queryParams.toString()
+    const url = queryString ? `${urls.comments.list(companyId)}?${queryString}` : urls.comments.list(companyId)
+
+    return callGet(url) as Promise<CommentListResponse>
+  },
+
+  // change the status (approve, spam, trash, restore) or edit the text of a comment
+  update: (companyId: string, commentId: string, payload: UpdateCommentPayload) =>
+    (callPatch(urls.comments.update(companyId, commentId), payload) as unknown) as Promise<Comment>,
+
+  // delete comment permanently
+  delete: (companyId: string, commentId: string) => callDelete(urls.comments.delete(companyId, commentId)),
+
+  // reply as the current user - the reply is published right away and a pending parent gets approved
+  reply: (companyId: string, commentId: string, content: string) =>
+    (callPost(urls.comments.reply(companyId, commentId), { content }) as unknown) as Promise<Comment>,
+
+  // get the moderation rules of a company
+  getRules: (companyId: string) => callGet(urls.comments.rules(companyId)) as Promise<CommentRules>,
+
+  // replace the moderation rules of a company
+  updateRules: (companyId: string, rules: CommentRules) =>
+    (callPatch(urls.comments.rules(companyId), rules) as unknown) as Promise<CommentRules>,
+}
+
+export default commentService
@@ -35,6 +35,7 @@ export interface UpdateCompanyPayload {
   description?: string | null
   logo_url?: string | null
   theme?: string
+  settings?: Record<string, unknown> // replaces the whole settings record - merge with the current one first
 }
 
 // company member interface
@@ -65,6 +66,46 @@ export interface UpdateMemberPayload {
   permissions?: string[]
 }
 
+// what a menu item links to - entity links store the id and are resolved to the current slug (see lib/menus)
+export type MenuItemType = 'post' | 'category' | 'tag' | 'page' | 'url'
+
+// menu item - items are stored as a flat list linked by parent_id (like categories)
+export interface MenuItem {
+  id: string
+  label: string // empty: the current title/name of the linked entry is used
+  type: MenuItemType
+  target_id?: string | null // post, category, tag or page id
+  url?: string | null // external URL (type 'url')
+  open_in_new_tab?: boolean
+  parent_id?: string | null
+  position?: number | null // order among siblings
+}
+
+// navigation menu of a company site
+export interface Menu {
+  id: string
+  company_id: string
+  name: string
+  location: string // where the site renders the menu, e.g. "header" or "footer"
+  items: MenuItem[]
+  created_at: string
+  updated_at: string
+}
+
+// create menu payload
+export interface CreateMenuPayload {
+  name: string
+  location: string
+  items?: MenuItem[]
+}
+
+// update menu payload - items replace the whole item list
+export interface UpdateMenuPayload {
+  name?: string
+  location?: string
+  items?: MenuItem[]
+}
+
 const companyService = {
   // get list of all companies for current master account
   list: () => callGet(urls.company.list) as Promise<Company[]>,
@@ -97,6 +138,20 @@ const companyService = {
   // Uses PATCH /users/:id endpoint
   updateMember: (_companyId: string, memberId: string, payload: UpdateMemberPayload) =>
     callPatch(urls.user.updateById(memberId), payload) as Promise<CompanyMember>,
+
+  // get the navigation menus of a company
+  getMenus: (companyId: string) => callGet(urls.company.menus.list(companyId)) as Promise<Menu[]>,
+
+  // create a navigation menu
+  createMenu: (companyId: string, payload: CreateMenuPayload) =>
+    callPost(urls.company.menus.create(companyId), payload) as Promise<Menu>,
+
+  // update a navigation menu (name, location or the whole item list)
+  updateMenu: (companyId: string, menuId: string, payload: UpdateMenuPayload) =>
+    callPatch(urls.company.menus.update(companyId, menuId), payload) as Promise<Menu>,
+
+  // delete a navigation menu
+  deleteMenu: (companyId: string, menuId: string) => callDelete(urls.company.menus.delete(companyId, menuId)),
 }
 
 export default companyService
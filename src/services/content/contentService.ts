@@ -0,0 +1,115 @@
+// Content service - handles API calls for the content types besides blog posts (pages, events, ...)
+// All types share one set of endpoints; the type key from lib/contentTypes selects the collection
+import { callDelete, callGet, callPatch, callPost } from '../http'
+import urls from '../http/url'
+import type { CustomFieldValue, SlugAvailability } from '../blog/blogService'
+
+// content entries are either drafts or live on the site
+export type ContentStatus = 'draft' | 'published'
+
+// content entry interface - matches API response structure
+export interface ContentEntry {
+  id: string
+  company_id: string
+  type: string // content type key, e.g. "pages"
+  title: string
+  slug: string
+  content: string // serialized HTML from BlockEditor
+  excerpt?: string | null
+  status: ContentStatus
+  fields?: Record<string, CustomFieldValue> | null // values of the type's own fields by key
+  author_id?: string
+  author_name?: string
+  published_at?: string | null // set by the backend when the entry is first published
+  created_at: string
+  updated_at: string
+}
+
+// query params for the entry list
+export interface ContentListParams {
+  page?: number // default: 1
+  limit?: number // default: 20
+  search?: string // search in title and content
+  status?: ContentStatus
+  sort?: 'title' | 'updated_at'
+  order?: 'asc' | 'desc'
+}
+
+// entry list response - same shape as the post list response
+export interface ContentListResponse {
+  data: ContentEntry[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+  // totals per status for the current search (ignoring the status filter)
+  counts?: Partial<Record<ContentStatus | 'all', number>>
+}
+
+// create content entry payload
+export interface CreateContentPayload {
+  title: string
+  content: string
+  slug?: string // backend generates it from the title when empty
+  excerpt?: string
+  status: ContentStatus
+  fields?: Record<string, CustomFieldValue>
+}
+
+// update content entry payload
+export interface UpdateContentPayload {
+  title?: string
+  content?: string
+  slug?: string
+  excerpt?: string | null // null to clear
+  status?: ContentStatus
+  fields?: Record<string, CustomFieldValue>
+}
+
+const contentService = {
+  // get a page of entries of one content type
+  list: (companyId: string, type: string, params?: ContentListParams) => {
+    // build query string from params
+    const queryParams = new URLSearchParams()
+    if (params?.page) queryParams.append('page', params.page.toString())
+    if (params?.limit) queryParams.append('limit', params.limit.toString())
+    if (params?.search) queryParams.append('search', params.search)
+    if (params?.status) queryParams.append('status', params.status)
+    if (params?.sort) queryParams.append('sort', params.sort)
+    if (params?.order) queryParams.append('order', params.order)
+
+    const queryString = queryParams.toString()
+    const url = queryString
+      ? `${urls.content.list(companyId, type)}?${queryString}`
+      : urls.content.list(companyId, type)
+
+    return callGet(url) as Promise<ContentListResponse>
+  },
+
+  // get single entry by id
+  get: (companyId: string, type: string, entryId: string) =>
+    callGet(urls.content.get(companyId, type, entryId)) as Promise<ContentEntry>,
+
+  // create new entry
+  create: (companyId: string, type: string, payload: CreateContentPayload) =>
+    (callPost(urls.content.create(companyId, type), payload) as unknown) as Promise<ContentEntry>,
+
+  // update existing entry
+  update: (companyId: string, type: string, entryId: string, payload: UpdateContentPayload) =>
+    (callPatch(urls.content.update(companyId, type, entryId), payload) as unknown) as Promise<ContentEntry>,
+
+  // delete entry
+  delete: (companyId: string, type: string, entryId: string) =>
+    callDelete(urls.content.delete(companyId, type, entryId)),
+
+  // check whether a slug is still free within the content type (excludeId ignores the entry being edited)
+  checkSlug: (companyId: string, type: string, slug: string, excludeId?: string) => {
+    const queryParams = new URLSearchParams({ slug })
+    if (excludeId) queryParams.append('exclude', excludeId)
+    return callGet(`${urls.content.slugAvailability(companyId, type)}?${queryParams.toString()}`) as Promise<SlugAvailability>
+  },
+}
+
+export default contentService
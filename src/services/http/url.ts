@@ -31,6 +31,25 @@ const blog = {
   create: (companyId: string) => `/companies/${companyId}/posts`,
   update: (companyId: string, postId: string) => `/companies/${companyId}/posts/${postId}`,
   delete: (companyId: string, postId: string) => `/companies/${companyId}/posts/${postId}`,
+  slugAvailability: (companyId: string) => `/companies/${companyId}/posts/slug-availability`,
+
+  review: {
+    submit: (companyId: string, postId: string) => `/companies/${companyId}/posts/${postId}/submit-review`,
+    decide: (companyId: string, postId: string) => `/companies/${companyId}/posts/${postId}/review`,
+  },
+
+  preview: {
+    createLink: (companyId: string, postId: string) => `/companies/${companyId}/posts/${postId}/preview-links`,
+    get: (token: string) => `/preview/${token}`, // public - no session required
+  },
+
+  revisions: {
+    list: (companyId: string, postId: string) => `/companies/${companyId}/posts/${postId}/revisions`,
+    get: (companyId: string, postId: string, revisionId: string) =>
+      `/companies/${companyId}/posts/${postId}/revisions/${revisionId}`,
+    restore: (companyId: string, postId: string, revisionId: string) =>
+      `/companies/${companyId}/posts/${postId}/revisions/${revisionId}/restore`,
+  },
 
   categories: {
     list: (companyId: string) => `/companies/${companyId}/categories`,
@@ -38,6 +57,8 @@ const blog = {
     create: (companyId: string) => `/companies/${companyId}/categories`,
     update: (companyId: string, categoryId: string) => `/companies/${companyId}/categories/${categoryId}`,
     delete: (companyId: string, categoryId: string) => `/companies/${companyId}/categories/${categoryId}`,
+    slugAvailability: (companyId: string) => `/companies/${companyId}/categories/slug-availability`,
+    reorder: (companyId: string) => `/companies/${companyId}/categories/order`,
   },
   
   tags: {
@@ -46,9 +67,66 @@ const blog = {
     create: (companyId: string) => `/companies/${companyId}/tags`,
     update: (companyId: string, tagId: string) => `/companies/${companyId}/tags/${tagId}`,
     delete: (companyId: string, tagId: string) => `/companies/${companyId}/tags/${tagId}`,
+    slugAvailability: (companyId: string) => `/companies/${companyId}/tags/slug-availability`,
+  },
+
+  // custom taxonomies defined per company (besides categories and tags)
+  taxonomies: {
+    list: (companyId: string) => `/companies/${companyId}/taxonomies`,
+    create: (companyId: string) => `/companies/${companyId}/taxonomies`,
+    update: (companyId: string, taxonomyId: string) => `/companies/${companyId}/taxonomies/${taxonomyId}`,
+    delete: (companyId: string, taxonomyId: string) => `/companies/${companyId}/taxonomies/${taxonomyId}`,
+    slugAvailability: (companyId: string) => `/companies/${companyId}/taxonomies/slug-availability`,
+    terms: {
+      list: (companyId: string, taxonomyId: string) => `/companies/${companyId}/taxonomies/${taxonomyId}/terms`,
+      create: (companyId: string, taxonomyId: string) => `/companies/${companyId}/taxonomies/${taxonomyId}/terms`,
+      update: (companyId: string, taxonomyId: string, termId: string) =>
+        `/companies/${companyId}/taxonomies/${taxonomyId}/terms/${termId}`,
+      delete: (companyId: string, taxonomyId: string, termId: string) =>
+        `/companies/${companyId}/taxonomies/${taxonomyId}/terms/${termId}`,
+      slugAvailability: (companyId: string, taxonomyId: string) =>
+        `/companies/${companyId}/taxonomies/${taxonomyId}/terms/slug-availability`,
+    },
+  },
+
+  redirects: {
+    list: (companyId: string) => `/companies/${companyId}/redirects`,
+    create: (companyId: string) => `/companies/${companyId}/redirects`,
+    delete: (companyId: string, redirectId: string) => `/companies/${companyId}/redirects/${redirectId}`,
   },
 }
 
+// entries of the other content types (pages, events, landing pages, products) - see lib/contentTypes
+const content = {
+  list: (companyId: string, type: string) => `/companies/${companyId}/content/${type}`,
+  get: (companyId: string, type: string, entryId: string) => `/companies/${companyId}/content/${type}/${entryId}`,
+  create: (companyId: string, type: string) => `/companies/${companyId}/content/${type}`,
+  update: (companyId: string, type: string, entryId: string) => `/companies/${companyId}/content/${type}/${entryId}`,
+  delete: (companyId: string, type: string, entryId: string) => `/companies/${companyId}/content/${type}/${entryId}`,
+  slugAvailability: (companyId: string, type: string) => `/companies/${companyId}/content/${type}/slug-availability`,
+}
+
+// reader comments on posts and the moderation rules applied to new comments
+const comments = {
+  list: (companyId: string) => `/companies/${companyId}/comments`,
+  update: (companyId: string, commentId: string) => `/companies/${companyId}/comments/${commentId}`,
+  delete: (companyId: string, commentId: string) => `/companies/${companyId}/comments/${commentId}`,
+  reply: (companyId: string, commentId: string) => `/companies/${companyId}/comments/${commentId}/replies`,
+  rules: (companyId: string) => `/companies/${companyId}/comment-rules`,
+}
+
+// per-company analytics for the dashboard (all endpoints take from/to as YYYY-MM-DD query params)
+const analytics = {
+  summary: (companyId: string) => `/companies/${companyId}/analytics/summary`,
+  views: (companyId: string) => `/companies/${companyId}/analytics/views`,
+  topPosts: (companyId: string) => `/companies/${companyId}/analytics/top-posts`,
+}
+
+// audit log of create/update/delete actions within a company (newest first)
+const auditLog = {
+  list: (companyId: string) => `/companies/${companyId}/audit-log`,
+}
+
 const company = {
   list: '/companies',
   create: '/companies',
@@ -58,6 +136,14 @@ const company = {
   uploadLogo: (id: string) => `/companies/${id}/logo`,
   members: (id: string) => `/companies/${id}/members`,
   createMember: (id: string) => `/companies/${id}/members`,
+
+  // navigation menus of the company site (header, footer, ...)
+  menus: {
+    list: (id: string) => `/companies/${id}/menus`,
+    create: (id: string) => `/companies/${id}/menus`,
+    update: (id: string, menuId: string) => `/companies/${id}/menus/${menuId}`,
+    delete: (id: string, menuId: string) => `/companies/${id}/menus/${menuId}`,
+  },
 }
 
 const permissions = {
@@ -94,6 +180,10 @@ const urls = {
   auth,
   user,
   blog,
+  content,
+  comments,
+  analytics,
+  auditLog,
   company,
   permissions,
   account,
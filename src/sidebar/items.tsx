@@ -1,7 +1,8 @@
 // Sidebar navigation items configuration
 // Defines menu structure with rules for visibility based on permissions/features
-import { Home, FileText, Users, Settings, Building2, List } from 'lucide-react'
+import { Home, FileText, Users, Settings, Building2, List, SlidersHorizontal, Menu, MessageSquare, History } from 'lucide-react'
 import paths from '@/routes/paths'
+import { contentTypes, getContentPermission } from '@/lib/contentTypes'
 import { and, hasPermission, or, isAuthenticated, hasRole, type RuleContext } from './sidebarRules'
 
 // sidebar item type definition
@@ -70,8 +71,33 @@ const features: SidebarItem[] = [
         title: 'Tags',
         rule: hasPermission('blog.view'),
       },
+      {
+        href: paths.taxonomies.list,
+        icon: List,
+        title: 'Taxonomies',
+        rule: hasPermission('blog.view'),
+      },
+      {
+        href: paths.customFields.list,
+        icon: SlidersHorizontal,
+        title: 'Custom Fields',
+        rule: hasPermission('blog.view'),
+      },
+      {
+        href: paths.comments.list,
+        icon: MessageSquare,
+        title: 'Comments',
+        rule: hasPermission('blog.view'),
+      },
     ],
   },
+  // one entry per content type (see lib/contentTypes)
+  ...contentTypes.map((type) => ({
+    href: paths.content.list.build(type.key),
+    icon: type.icon,
+    title: type.plural,
+    rule: hasPermission(getContentPermission(type, 'view')),
+  })),
   {
     href: paths.users.list,
     icon: Users,
@@ -114,6 +140,18 @@ const account: SidebarItem[] = [
         title: 'Members',
         rule: hasPermission('company.view'),
       },
+      {
+        href: paths.companies.menus,
+        icon: Menu,
+        title: 'Menus',
+        rule: hasPermission('company.view'),
+      },
+      {
+        href: paths.companies.auditLog,
+        icon: History,
+        title: 'Audit Log',
+        rule: hasPermission('company.update'),
+      },
     ],
   },
   {
@@ -26,7 +26,7 @@ export interface RuleContext {
 }
 
 // rule type definition
-type Rule = {
+export type Rule = {
   evaluate: (context: RuleContext) => boolean
 }
 